@@ -30,6 +30,12 @@ const registerPlugin = async (env) => {
         perPage: 2                                      // Maximum number of posts per page.
     };
 
+    // Register the schema of the "archiver" config section, so that mistakes in it are reported before the site is built.
+    env.registerConfigSchema('archiver', {
+        type: 'object',
+        properties: Object.fromEntries(Object.keys(defaults).map((k) => [k, { type: typeof defaults[k] }]))
+    });
+
     const options = env.config.archiver || {};
     for (const k in defaults) {
         options[k] = options[k] || defaults[k];
@@ -40,7 +46,7 @@ const registerPlugin = async (env) => {
     const getArticles = (contents /*: IContentTree */) => {
         const articles = contents[options.articles]._.directories
             .map((item) => item.index)
-            .filter((item) => item.template !== 'none');
+            .filter((item) => item && item.template !== 'none');
         articles.sort((a, b) => b.date - a.date);
         return articles;
     };
@@ -28,6 +28,12 @@ const registerPlugin = async (env) => {
         perPage: 2                                          // number of articles per page
     };
 
+    // Register the schema of the "categoriser" config section, so that mistakes in it are reported before the site is built.
+    env.registerConfigSchema('categoriser', {
+        type: 'object',
+        properties: Object.fromEntries(Object.keys(defaults).map((k) => [k, { type: typeof defaults[k] }]))
+    });
+
     const options = env.config.categoriser || {};
     for (const key in defaults) {
         options[key] = options[key] || defaults[key];
@@ -38,7 +44,7 @@ const registerPlugin = async (env) => {
     const getArticles = (contents /*: IContentTree */) => {
         const articles = contents[options.articles]._.directories
             .map((item) => item.index)
-            .filter((item) => item.template !== 'none');
+            .filter((item) => item && item.template !== 'none');
         articles.sort((a, b) => b.date - a.date);
         return articles;
     };
@@ -18,6 +18,12 @@ const registerPlugin = async (env /*: IEnvironment */) => {
         perPage: 2                          // The number of posts to put on each page.
     };
 
+    // Register the schema of the "paginator" config section, so that mistakes in it are reported before the site is built.
+    env.registerConfigSchema('paginator', {
+        type: 'object',
+        properties: Object.fromEntries(Object.keys(defaults).map((k) => [k, { type: typeof defaults[k] }]))
+    });
+
     // Load the options from the "paginator" section of the config file, if it is present.  Set
     // any missing options to the default value.
     const options = env.config.paginator || {};
@@ -30,7 +36,7 @@ const registerPlugin = async (env /*: IEnvironment */) => {
     const getArticles = (contents /*: IContentTree */) => {
         const articles = contents[options.articles]._.directories
             .map((item) => item.index)
-            .filter((item) => item.template !== 'none');
+            .filter((item) => item && item.template !== 'none');
         articles.sort((a, b) => b.date - a.date);
         return articles;
     };
@@ -1,5 +1,6 @@
 import { afterEach, describe, expect, test, vi } from 'vitest';
 import { emptyDir } from 'fs-extra';
+import parseArgv from 'minimist';
 
 import build, { options, usage } from '../../cli/build';
 import { loadEnv } from '../../cli/common';
@@ -37,6 +38,30 @@ describe('options and usage tests', () => {
         expect(usage).toBeTruthy();
         expect(usage.startsWith('\nUsage:')).toBeTruthy();
     });
+
+    for (const flag of ['incremental', 'prune', 'drafts', 'future', 'compress']) {
+        test(`--${flag} is a flag, which does not take the following argument as its value`, () => {
+            const parsed = parseArgv(['build', `--${flag}`, 'content'], options);
+
+            expect(parsed[flag]).toBe(true);
+            expect(parsed._).toStrictEqual(['build', 'content']);
+        });
+    }
+
+    test('--watch and -w are flags, which do not take the following argument as their value', () => {
+        expect(parseArgv(['build', '--watch', 'content'], options)).toMatchObject({ watch: true, _: ['build', 'content'] });
+        expect(parseArgv(['build', '-w', 'content'], options)).toMatchObject({ watch: true, _: ['build', 'content'] });
+    });
+
+    test('Flags which are not given are null, so that they do not override the config file', () => {
+        const parsed = parseArgv(['build'], options);
+
+        expect(parsed.incremental).toBe(null);
+        expect(parsed.prune).toBe(null);
+        expect(parsed.drafts).toBe(null);
+        expect(parsed.future).toBe(null);
+        expect(parsed.compress).toBe(null);
+    });
 });
 
 describe('build() tests', () => {
@@ -101,6 +126,18 @@ describe('build() tests', () => {
         expect(fakeEnvironment.build).toHaveBeenCalledOnce();
     });
 
+    test('If watch option is set, calls IEnvironment.watch() instead of IEnvironment.build()', async () => {
+        const fakeEnvironment = new FakeEnvironment({ output: 'outDir' });
+        fakeEnvironment.build = vi.fn(() => Promise.resolve());
+        fakeEnvironment.watch = vi.fn(() => Promise.resolve(() => Promise.resolve()));
+        vi.mocked(loadEnv).mockImplementation(async () => fakeEnvironment);
+
+        await build({ ...getTestOptions(), watch: true });
+
+        expect(fakeEnvironment.watch).toHaveBeenCalledOnce();
+        expect(fakeEnvironment.build).not.toHaveBeenCalled();
+    });
+
     test('Logs time taken', async () => {
         const expectedCallParameter = 'outDir';
         const fakeEnvironment = new FakeEnvironment({ output: expectedCallParameter });
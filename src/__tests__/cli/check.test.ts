@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import check, { options, usage } from '../../cli/check';
+import { loadEnv } from '../../cli/common';
+import logger from '../../core/logger';
+import { FakeEnvironment } from '../core/fakes/fakeEnvironment';
+
+vi.mock('../../cli/common');
+vi.mock('../../core/logger');
+
+afterEach(() => {
+    vi.resetAllMocks();
+});
+
+const getTestOptions = () => ({ chdir: '', config: '', _: [] });
+
+describe('options and usage tests', () => {
+    test('options is defined', () => {
+        expect(options).toBeTruthy();
+    });
+
+    test('usage is defined', () => {
+        expect(usage).toBeTruthy();
+        expect(usage.startsWith('\nUsage:')).toBeTruthy();
+    });
+});
+
+describe('check tests', () => {
+    test('check calls loadEnv with its parameter and then calls env.check()', async () => {
+        const fakeEnvironment = new FakeEnvironment();
+        vi.spyOn(fakeEnvironment, 'check');
+        vi.mocked(loadEnv).mockImplementation(async () => fakeEnvironment);
+        const testOptions = getTestOptions();
+
+        await check(testOptions);
+
+        expect(loadEnv).toHaveBeenLastCalledWith(testOptions);
+        expect(fakeEnvironment.check).toHaveBeenCalledOnce();
+    });
+
+    test('check does not exit with an error if there are no problems', async () => {
+        const exitMock = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+        vi.mocked(loadEnv).mockImplementation(async () => new FakeEnvironment());
+
+        await check(getTestOptions());
+
+        expect(exitMock).not.toHaveBeenCalled();
+        expect(logger.error).not.toHaveBeenCalled();
+
+        exitMock.mockRestore();
+    });
+
+    test('check reports each problem and exits with an error if there are problems', async () => {
+        const exitMock = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+        const fakeEnvironment = new FakeEnvironment();
+        vi.spyOn(fakeEnvironment, 'check').mockResolvedValue([
+            { page: '/index.html', source: 'index.md', link: 'missing.html', reason: 'missing' },
+            { page: '/about.html', source: null, link: '/index.html#nowhere', reason: 'anchor' },
+        ]);
+        vi.mocked(loadEnv).mockImplementation(async () => fakeEnvironment);
+
+        await check(getTestOptions());
+
+        expect(logger.error).toHaveBeenCalledTimes(3);
+        expect(vi.mocked(logger.error).mock.calls[0][0]).toContain('missing.html');
+        expect(vi.mocked(logger.error).mock.calls[1][0]).toContain('/index.html#nowhere');
+        expect(exitMock).toHaveBeenLastCalledWith(1);
+
+        exitMock.mockRestore();
+    });
+
+    test('check reports pages which fail to render and exits with an error', async () => {
+        const exitMock = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+        const fakeEnvironment = new FakeEnvironment();
+        vi.spyOn(fakeEnvironment, 'check').mockResolvedValue([
+            { page: '/index.html', source: null, link: '', reason: 'render', message: 'Bad template' },
+        ]);
+        vi.mocked(loadEnv).mockImplementation(async () => fakeEnvironment);
+
+        await check(getTestOptions());
+
+        expect(logger.error).toHaveBeenCalledTimes(2);
+        expect(vi.mocked(logger.error).mock.calls[0][0]).toContain('could not be rendered: Bad template');
+        expect(vi.mocked(logger.error).mock.calls[1][0]).toBe('Failed to render 1 page');
+        expect(exitMock).toHaveBeenLastCalledWith(1);
+
+        exitMock.mockRestore();
+    });
+});
@@ -144,6 +144,40 @@ describe('loadEnv() tests', () => {
         expect(vi.mocked(Environment.create).mock.lastCall?.[0]).toBe(expectedConfig);
     });
 
+    test('loadEnv() looks for each supported config file in turn if the config option is not set', async () => {
+        vi.mocked(fileExists).mockImplementation(async (p) => p.endsWith('config.yml'));
+        const testParameter = { ...standardTestOptions, chdir: 'testDir' };
+
+        await loadEnv(testParameter);
+
+        expect(vi.mocked(fileExists).mock.calls.slice(0, 3).map(c => path.basename(c[0]))).toStrictEqual(['config.json', 'config.yaml', 'config.yml']);
+        expect(Config.fromFile).toHaveBeenCalledOnce();
+        expect(vi.mocked(Config.fromFile).mock.lastCall?.[0]).toBe(path.join(path.resolve('testDir'), 'config.yml'));
+    });
+
+    test('loadEnv() passes the env option to Config.fromFile() as the profile name', async () => {
+        vi.mocked(fileExists).mockImplementation(async () => true);
+        vi.mocked(Config.fromFile).mockImplementation(async () => new Config());
+        const testParameter = { ...standardTestOptions, config: 'test.config', env: 'production' };
+
+        await loadEnv(testParameter);
+
+        expect(vi.mocked(Config.fromFile).mock.lastCall?.[1]).toBe('production');
+        expect(vi.mocked(Environment.create).mock.lastCall?.[0]).not.toHaveProperty('env');
+    });
+
+    test('loadEnv() uses the ICEFORGE_ENV environment variable as the profile name if the env option is not set', async () => {
+        vi.stubEnv('ICEFORGE_ENV', 'staging');
+        vi.mocked(fileExists).mockImplementation(async () => true);
+        vi.mocked(Config.fromFile).mockImplementation(async () => new Config());
+        const testParameter = { ...standardTestOptions, config: 'test.config' };
+
+        await loadEnv(testParameter);
+
+        expect(vi.mocked(Config.fromFile).mock.lastCall?.[1]).toBe('staging');
+        vi.unstubAllEnvs();
+    });
+
     test('loadEnv() uses default config if selected file does not exist', async () => {
         vi.mocked(fileExists).mockImplementation(async () => false);
         const testParameter = { ...standardTestOptions };
@@ -151,7 +185,37 @@ describe('loadEnv() tests', () => {
         await loadEnv(testParameter);
 
         expect(Config.fromFile).not.toHaveBeenCalled();
-        expect(vi.mocked(Environment.create).mock.lastCall?.[0]).toStrictEqual(new Config(defaultConfig));
+        expect(vi.mocked(Environment.create).mock.lastCall?.[0]).toStrictEqual(Object.assign(new Config(defaultConfig), { _cliopts: testParameter }));
+    });
+
+    test('loadEnv() records the command line options in the config', async () => {
+        vi.mocked(fileExists).mockImplementation(async () => false);
+        const testParameter = { ...standardTestOptions, o: 'public', output: 'public' };
+
+        await loadEnv(testParameter);
+
+        expect((vi.mocked(Environment.create).mock.lastCall?.[0] as IConfig)._cliopts).toStrictEqual(testParameter);
+    });
+
+    test('loadEnv() does not override the config file with options which are null', async () => {
+        vi.mocked(fileExists).mockImplementation(async () => false);
+        const testParameter = { ...standardTestOptions, incremental: null as boolean, buildCache: 'cache.json' };
+
+        await loadEnv(testParameter);
+
+        const config = vi.mocked(Environment.create).mock.lastCall?.[0] as IConfig;
+        expect(config.incremental).toBe(defaultConfig.incremental);
+        expect(config.buildCache).toBe('cache.json');
+    });
+
+    test('loadEnv() leaves options which are null out of config._cliopts', async () => {
+        vi.mocked(fileExists).mockImplementation(async () => false);
+        const testParameter = { ...standardTestOptions, incremental: null as boolean, watch: true };
+
+        await loadEnv(testParameter);
+
+        const config = vi.mocked(Environment.create).mock.lastCall?.[0] as IConfig;
+        expect(config._cliopts).toStrictEqual({ ...standardTestOptions, watch: true });
     });
 
     test('If port option is set, loadEnv() overrides value in config file', async () => {
@@ -5,6 +5,9 @@ import main from '../../cli/index';
 import build from '../../cli/build';
 import newCmd from '../../cli/new';
 import preview from '../../cli/preview';
+import plugin from '../../cli/plugin';
+import check from '../../cli/check';
+import serve from '../../cli/serve';
 import { transports as loggerTransports } from '../../core/logger';
 
 vi.mock('../../cli/version', () => ({
@@ -29,6 +32,24 @@ vi.mock('../../cli/preview', () => ({
     usage: 'Expected preview command usage message'
 }));
 
+vi.mock('../../cli/plugin', () => ({
+    default: vi.fn(() => Promise.resolve()),
+    options: {},
+    usage: 'Expected plugin command usage message'
+}));
+
+vi.mock('../../cli/check', () => ({
+    default: vi.fn(() => Promise.resolve()),
+    options: {},
+    usage: 'Expected check command usage message'
+}));
+
+vi.mock('../../cli/serve', () => ({
+    default: vi.fn(() => Promise.resolve()),
+    options: {},
+    usage: 'Expected serve command usage message'
+}));
+
 const initialArgs = [ 'node', 'iceforge' ];
 
 afterEach(() => {
@@ -100,22 +121,28 @@ describe('main() tests', () => {
         expect(preview).toHaveBeenCalledOnce();
     });
 
-    test('Prints usage message and exits if plugin command is given', async () => {
-        const logMock = vi.spyOn(console, 'log').mockImplementation(() => { return; });
-        const errorMock = vi.spyOn(console, 'error').mockImplementation(() => { return; });
-        const exitMock = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
-        const testArgv = [ ...initialArgs, 'plugin' ];
+    test('Runs correct command if plugin command is given', async () => {
+        const testArgv = [ ...initialArgs, 'plugin', 'list' ];
 
         await main(testArgv);
 
-        expect(logMock).toHaveBeenCalled();
-        expect(logMock.mock.lastCall?.[0].startsWith('\nUsage:')).toBeTruthy();
-        expect(exitMock).toHaveBeenCalledOnce();
-        expect(exitMock).toHaveBeenLastCalledWith(1);
+        expect(plugin).toHaveBeenCalledOnce();
+    });
 
-        logMock.mockRestore();
-        errorMock.mockRestore();
-        exitMock.mockRestore();
+    test('Runs correct command if check command is given', async () => {
+        const testArgv = [ ...initialArgs, 'check' ];
+
+        await main(testArgv);
+
+        expect(check).toHaveBeenCalledOnce();
+    });
+
+    test('Runs correct command if serve command is given', async () => {
+        const testArgv = [ ...initialArgs, 'serve' ];
+
+        await main(testArgv);
+
+        expect(serve).toHaveBeenCalledOnce();
     });
     
     describe('Prints usage message for command if --help option is given...', () => {
@@ -157,6 +184,32 @@ describe('main() tests', () => {
 
             logMock.mockRestore();
         });
+
+        test('...for the plugin command', async () => {
+            const logMock = vi.spyOn(console, 'log').mockImplementation(() => { return; });
+            const testArgv = [ ...initialArgs, 'plugin', '--help' ];
+
+            await main(testArgv);
+
+            expect(logMock).toHaveBeenCalled();
+            expect(logMock).toHaveBeenLastCalledWith('Expected plugin command usage message');
+            expect(plugin).not.toHaveBeenCalled();
+
+            logMock.mockRestore();
+        });
+
+        test('...for the check command', async () => {
+            const logMock = vi.spyOn(console, 'log').mockImplementation(() => { return; });
+            const testArgv = [ ...initialArgs, 'check', '--help' ];
+
+            await main(testArgv);
+
+            expect(logMock).toHaveBeenCalled();
+            expect(logMock).toHaveBeenLastCalledWith('Expected check command usage message');
+            expect(check).not.toHaveBeenCalled();
+
+            logMock.mockRestore();
+        });
     });
 
     describe('Sets logger transport level to verbose if --verbose option is given...', () => {
@@ -0,0 +1,191 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import * as path from 'node:path';
+import { writeFile } from 'node:fs/promises';
+
+import plugin, { options, usage } from '../../cli/plugin';
+import { loadEnv } from '../../cli/common';
+import { fileExists, readJson } from '../../core/utils';
+import logger from '../../core/logger';
+import { FakeEnvironment } from '../core/fakes/fakeEnvironment';
+import { FakePlugin } from '../core/fakes/fakePlugin';
+import FakeTemplate from '../core/fakes/fakeTemplate';
+
+vi.mock('../../cli/common');
+vi.mock('../../core/logger');
+vi.mock('../../core/utils');
+vi.mock('node:fs/promises');
+
+afterEach(() => {
+    vi.resetAllMocks();
+});
+
+const getTestOptions = (...args: string[]) => ({
+    chdir: 'siteDir',
+    config: 'config.json',
+    _: [ 'node', 'iceforge', 'plugin', ...args ]
+});
+
+const expectedConfigPath = path.join(path.resolve('siteDir'), 'config.json');
+
+// Get the JSON written to the config file by the last call to writeFile().
+const writtenConfig = () => JSON.parse(vi.mocked(writeFile).mock.lastCall?.[1] as string);
+
+describe('options and usage tests', () => {
+    test('options is defined', () => {
+        expect(options).toBeTruthy();
+    });
+
+    test('usage is defined', () => {
+        expect(usage).toBeTruthy();
+        expect(usage.startsWith('\nUsage:')).toBeTruthy();
+    });
+});
+
+describe('plugin list tests', () => {
+    test('list loads the environment, its plugins and its views', async () => {
+        const fakeEnvironment = new FakeEnvironment();
+        vi.spyOn(fakeEnvironment, 'loadPlugins');
+        vi.spyOn(fakeEnvironment, 'loadViews');
+        vi.mocked(loadEnv).mockImplementation(async () => fakeEnvironment);
+        const testOptions = getTestOptions('list');
+
+        await plugin(testOptions);
+
+        expect(loadEnv).toHaveBeenLastCalledWith(testOptions);
+        expect(fakeEnvironment.loadPlugins).toHaveBeenCalledOnce();
+        expect(fakeEnvironment.loadViews).toHaveBeenCalledOnce();
+    });
+
+    test('list prints content plugins, template plugins, views and generators', async () => {
+        const fakeEnvironment = new FakeEnvironment();
+        fakeEnvironment.registerContentPlugin('fakePages', '**/*.fake', FakePlugin);
+        fakeEnvironment.registerTemplatePlugin('**/*.tmpl', FakeTemplate);
+        fakeEnvironment.registerView('fakeView', vi.fn());
+        fakeEnvironment.registerGenerator('fakeGenerator', 'fakeGroup', vi.fn());
+        vi.mocked(loadEnv).mockImplementation(async () => fakeEnvironment);
+
+        await plugin(getTestOptions('list'));
+
+        const output = vi.mocked(logger.info).mock.lastCall?.[0] as unknown as string;
+        expect(output).toContain('FakePlugin');
+        expect(output).toContain('fakePages');
+        expect(output).toContain('**/*.fake');
+        expect(output).toContain('FakeTemplate');
+        expect(output).toContain('**/*.tmpl');
+        expect(output).toContain('fakeView');
+        expect(output).toContain('fakeGenerator');
+        expect(output).toContain('fakeGroup');
+    });
+});
+
+describe('plugin add tests', () => {
+    test('add appends the module to the plugins list in the config file', async () => {
+        vi.mocked(fileExists).mockResolvedValue(true);
+        vi.mocked(readJson).mockResolvedValue({ baseUrl: '/', plugins: [ './plugins/one.js' ] });
+
+        await plugin(getTestOptions('add', 'iceforge-two'));
+
+        expect(readJson).toHaveBeenLastCalledWith(expectedConfigPath);
+        expect(vi.mocked(writeFile).mock.lastCall?.[0]).toBe(expectedConfigPath);
+        expect(writtenConfig()).toStrictEqual({ baseUrl: '/', plugins: [ './plugins/one.js', 'iceforge-two' ] });
+    });
+
+    test('add creates the config file if it does not exist', async () => {
+        vi.mocked(fileExists).mockResolvedValue(false);
+
+        await plugin(getTestOptions('add', 'iceforge-two'));
+
+        expect(readJson).not.toHaveBeenCalled();
+        expect(writtenConfig()).toStrictEqual({ plugins: [ 'iceforge-two' ] });
+    });
+
+    test('add does not write the config file if the module is already listed', async () => {
+        vi.mocked(fileExists).mockResolvedValue(true);
+        vi.mocked(readJson).mockResolvedValue({ plugins: [ 'iceforge-two' ] });
+
+        await plugin(getTestOptions('add', 'iceforge-two'));
+
+        expect(writeFile).not.toHaveBeenCalled();
+        expect(logger.warn).toHaveBeenCalledOnce();
+    });
+
+    test('add finds the config file if no config option is given', async () => {
+        vi.mocked(fileExists).mockImplementation(async (p) => p === expectedConfigPath);
+        vi.mocked(readJson).mockResolvedValue({ plugins: [] });
+
+        await plugin({ ...getTestOptions('add', 'iceforge-two'), config: undefined });
+
+        expect(readJson).toHaveBeenLastCalledWith(expectedConfigPath);
+        expect(writtenConfig()).toStrictEqual({ plugins: [ 'iceforge-two' ] });
+    });
+
+    test('add exits with an error if the config file is not a JSON file', async () => {
+        const exitMock = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+        vi.mocked(fileExists).mockImplementation(async (p) => p.endsWith('config.yaml'));
+
+        await plugin({ ...getTestOptions('add', 'iceforge-two'), config: undefined });
+
+        expect(logger.error).toHaveBeenCalledOnce();
+        expect(exitMock).toHaveBeenLastCalledWith(1);
+        expect(writeFile).not.toHaveBeenCalled();
+
+        exitMock.mockRestore();
+    });
+
+    test('add exits with an error if no module is given', async () => {
+        const exitMock = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+        await plugin(getTestOptions('add'));
+
+        expect(logger.error).toHaveBeenCalledOnce();
+        expect(exitMock).toHaveBeenLastCalledWith(1);
+        expect(writeFile).not.toHaveBeenCalled();
+
+        exitMock.mockRestore();
+    });
+});
+
+describe('plugin remove tests', () => {
+    test('remove removes the module from the plugins list in the config file', async () => {
+        vi.mocked(fileExists).mockResolvedValue(true);
+        vi.mocked(readJson).mockResolvedValue({ plugins: [ './plugins/one.js', 'iceforge-two' ], port: 8000 });
+
+        await plugin(getTestOptions('remove', './plugins/one.js'));
+
+        expect(writtenConfig()).toStrictEqual({ plugins: [ 'iceforge-two' ], port: 8000 });
+    });
+
+    test('remove does not write the config file if the module is not listed', async () => {
+        vi.mocked(fileExists).mockResolvedValue(true);
+        vi.mocked(readJson).mockResolvedValue({ plugins: [ './plugins/one.js' ] });
+
+        await plugin(getTestOptions('remove', 'iceforge-two'));
+
+        expect(writeFile).not.toHaveBeenCalled();
+        expect(logger.warn).toHaveBeenCalledOnce();
+    });
+});
+
+describe('invalid command tests', () => {
+    test('An unknown subcommand exits with an error', async () => {
+        const exitMock = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+        await plugin(getTestOptions('frobnicate'));
+
+        expect(logger.error).toHaveBeenCalledOnce();
+        expect(exitMock).toHaveBeenLastCalledWith(1);
+
+        exitMock.mockRestore();
+    });
+
+    test('A missing subcommand exits with an error', async () => {
+        const exitMock = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+        await plugin(getTestOptions());
+
+        expect(logger.error).toHaveBeenCalledOnce();
+        expect(exitMock).toHaveBeenLastCalledWith(1);
+
+        exitMock.mockRestore();
+    });
+});
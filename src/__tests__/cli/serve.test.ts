@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import serve, { options, usage } from '../../cli/serve';
+import { loadEnv } from '../../cli/common';
+import { FakeEnvironment } from '../core/fakes/fakeEnvironment';
+
+vi.mock('../../cli/common');
+
+const testOptions = {
+    hostname: '',
+    chdir: '',
+    config: '',
+    port: 0,
+    require: '',
+    _: []
+};
+
+afterEach(() => {
+    vi.resetAllMocks();
+});
+
+describe('options and usage tests', () => {
+    test('options is defined', () => {
+        expect(options).toBeTruthy();
+    });
+
+    test('usage is defined', () => {
+        expect(usage).toBeTruthy();
+        expect(usage.startsWith('\nUsage:')).toBeTruthy();
+    });
+});
+
+describe('serve() tests', () => {
+    test('serve uses common.loadEnv() to load environment', async () => {
+        const fakeEnvironment = new FakeEnvironment();
+        fakeEnvironment.serve = vi.fn(() => Promise.resolve());
+        vi.mocked(loadEnv).mockImplementation(async () => fakeEnvironment);
+
+        await serve(testOptions);
+
+        expect(loadEnv).toHaveBeenCalledOnce();
+        expect(loadEnv).toHaveBeenLastCalledWith(testOptions);
+    });
+
+    test('serve() calls Environment.serve()', async () => {
+        const fakeEnvironment = new FakeEnvironment();
+        fakeEnvironment.serve = vi.fn(() => Promise.resolve());
+        vi.mocked(loadEnv).mockImplementation(async () => fakeEnvironment);
+
+        await serve(testOptions);
+
+        expect(fakeEnvironment.serve).toHaveBeenCalledOnce();
+    });
+});
@@ -0,0 +1,279 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import BuildCache, { hash } from '../../core/buildCache';
+import ContentTree from '../../core/contentTree';
+import StaticFile from '../../core/staticFile';
+import { IContentTree } from '../../core/coreTypes';
+import { FakeEnvironment } from './fakes/fakeEnvironment';
+import { FakePlugin } from './fakes/fakePlugin';
+
+// A fake plugin whose output filename is independent of its source filename.
+class SourcedFakePlugin extends FakePlugin {
+    get filename() {
+        return 'page.html';
+    }
+}
+
+let workDir: string;
+
+beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-cache-test-'));
+    await fs.mkdir(path.join(workDir, 'templates'));
+    await fs.mkdir(path.join(workDir, 'contents'));
+    await fs.mkdir(path.join(workDir, 'build'));
+    await fs.writeFile(path.join(workDir, 'templates', 'page.pug'), 'p= page.title');
+    await fs.writeFile(path.join(workDir, 'contents', 'page.md'), '# A page');
+    await fs.writeFile(path.join(workDir, 'contents', 'image.png'), 'not really an image');
+});
+
+afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+});
+
+const getEnvironment = () => {
+    const env = new FakeEnvironment({ templates: path.join(workDir, 'templates') });
+    env.resolvePath = (p: string) => path.resolve(workDir, p);
+    return env;
+};
+
+const getTree = () => {
+    const tree = new ContentTree('');
+    const page = new SourcedFakePlugin('page.html', undefined, tree);
+    page.__filename = path.join(workDir, 'contents', 'page.md');
+    tree['page.md'] = page;
+    const image = new StaticFile({ full: path.join(workDir, 'contents', 'image.png'), relative: 'image.png' });
+    image.__filename = image.filepath.full;
+    image.parent = tree;
+    tree['image.png'] = image;
+    return { tree: tree as IContentTree, page, image };
+};
+
+// Run a "build" through the cache, recording every item as rendered and creating its output file, then save the manifest.
+// Pages are recorded as using the given template files, or any template file if none are given.
+const runBuild = async (filename: string, tree: IContentTree, templates: string[] = null) => {
+    const cache = await BuildCache.load(filename);
+    await cache.prepare(getEnvironment(), tree, []);
+    for (const item of ContentTree.flatten(tree)) {
+        cache.record(item, item instanceof StaticFile ? null : Buffer.from(item.filename), item instanceof StaticFile ? [] : templates);
+        await fs.writeFile(path.join(workDir, 'build', item.filename), '');
+    }
+    await cache.save();
+};
+
+describe('hash() tests', () => {
+    test('hash() returns the same value for the same input', () => {
+        expect(hash('some data')).toBe(hash(Buffer.from('some data')));
+    });
+});
+
+describe('BuildCache.load() tests', () => {
+    test('load() returns a cache with no previous manifest if the file does not exist', async () => {
+        const testOutput = await BuildCache.load(path.join(workDir, 'missing.json'));
+
+        expect(testOutput.previous).toBeNull();
+        expect(testOutput.filename).toBe(path.join(workDir, 'missing.json'));
+    });
+
+    test('load() ignores a manifest with a different version number', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await fs.writeFile(filename, JSON.stringify({ version: -1, outputs: {} }));
+
+        const testOutput = await BuildCache.load(filename);
+
+        expect(testOutput.previous).toBeNull();
+    });
+
+    test('load() ignores a manifest which is not valid JSON', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await fs.writeFile(filename, '{ not json');
+
+        const testOutput = await BuildCache.load(filename);
+
+        expect(testOutput.previous).toBeNull();
+    });
+
+    test('load() reads a manifest written by save()', async () => {
+        const filename = path.join(workDir, 'cache', 'cache.json');
+        const { tree } = getTree();
+        await runBuild(filename, tree);
+
+        const testOutput = await BuildCache.load(filename);
+
+        expect(testOutput.previous).toBeTruthy();
+        expect(Object.keys(testOutput.previous?.outputs || {})).toEqual(expect.arrayContaining(['page.html', 'image.png']));
+    });
+});
+
+describe('BuildCache.canSkip() tests', () => {
+    test('canSkip() returns false if there is no previous build', async () => {
+        const { tree, page } = getTree();
+        const testObject = await BuildCache.load(path.join(workDir, 'cache.json'));
+        await testObject.prepare(getEnvironment(), tree, []);
+
+        expect(await testObject.canSkip(page, path.join(workDir, 'build', 'page.html'))).toBeFalsy();
+    });
+
+    test('canSkip() returns true for every item if nothing has changed', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await runBuild(filename, getTree().tree);
+        const { tree, page, image } = getTree();
+        const testObject = await BuildCache.load(filename);
+        await testObject.prepare(getEnvironment(), tree, []);
+
+        expect(await testObject.canSkip(page, path.join(workDir, 'build', 'page.html'))).toBeTruthy();
+        expect(await testObject.canSkip(image, path.join(workDir, 'build', 'image.png'))).toBeTruthy();
+        expect(testObject.current.outputs['page.html']).toEqual(testObject.previous?.outputs['page.html']);
+    });
+
+    test('canSkip() returns false if the output file has been deleted', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await runBuild(filename, getTree().tree);
+        await fs.rm(path.join(workDir, 'build', 'page.html'));
+        const { tree, page } = getTree();
+        const testObject = await BuildCache.load(filename);
+        await testObject.prepare(getEnvironment(), tree, []);
+
+        expect(await testObject.canSkip(page, path.join(workDir, 'build', 'page.html'))).toBeFalsy();
+    });
+
+    test('If a template changes, canSkip() returns false for pages but true for static files', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await runBuild(filename, getTree().tree);
+        await fs.writeFile(path.join(workDir, 'templates', 'page.pug'), 'h1= page.title');
+        const { tree, page, image } = getTree();
+        const testObject = await BuildCache.load(filename);
+        await testObject.prepare(getEnvironment(), tree, []);
+
+        expect(await testObject.canSkip(page, path.join(workDir, 'build', 'page.html'))).toBeFalsy();
+        expect(await testObject.canSkip(image, path.join(workDir, 'build', 'image.png'))).toBeTruthy();
+    });
+
+    test('If a template file which a page was not rendered with changes, canSkip() returns true for the page', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await fs.writeFile(path.join(workDir, 'templates', 'other.pug'), 'p Other');
+        await runBuild(filename, getTree().tree, ['page.pug']);
+        await fs.writeFile(path.join(workDir, 'templates', 'other.pug'), 'p Changed');
+        await fs.writeFile(path.join(workDir, 'templates', 'new.pug'), 'p New');
+        const { tree, page } = getTree();
+        const testObject = await BuildCache.load(filename);
+        await testObject.prepare(getEnvironment(), tree, []);
+
+        expect(await testObject.canSkip(page, path.join(workDir, 'build', 'page.html'))).toBeTruthy();
+        expect(testObject.current.outputs['page.html'].templates).toStrictEqual(['page.pug']);
+    });
+
+    test('If a template file which a page was rendered with changes, canSkip() returns false for the page', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await runBuild(filename, getTree().tree, ['page.pug']);
+        await fs.writeFile(path.join(workDir, 'templates', 'page.pug'), 'h1= page.title');
+        const { tree, page } = getTree();
+        const testObject = await BuildCache.load(filename);
+        await testObject.prepare(getEnvironment(), tree, []);
+
+        expect(await testObject.canSkip(page, path.join(workDir, 'build', 'page.html'))).toBeFalsy();
+    });
+
+    test('If a missing template file which a page looked up is created, canSkip() returns false for the page', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await runBuild(filename, getTree().tree, ['article.pug', 'page.pug']);
+        await fs.writeFile(path.join(workDir, 'templates', 'article.pug'), 'article= page.title');
+        const { tree, page } = getTree();
+        const testObject = await BuildCache.load(filename);
+        await testObject.prepare(getEnvironment(), tree, []);
+
+        expect(await testObject.canSkip(page, path.join(workDir, 'build', 'page.html'))).toBeFalsy();
+    });
+
+    test('If any content file changes, canSkip() returns false for pages', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await runBuild(filename, getTree().tree);
+        await fs.writeFile(path.join(workDir, 'contents', 'image.png'), 'a different image');
+        const { tree, page, image } = getTree();
+        const testObject = await BuildCache.load(filename);
+        await testObject.prepare(getEnvironment(), tree, []);
+
+        expect(await testObject.canSkip(page, path.join(workDir, 'build', 'page.html'))).toBeFalsy();
+        expect(await testObject.canSkip(image, path.join(workDir, 'build', 'image.png'))).toBeFalsy();
+    });
+
+    test('If the config changes, canSkip() returns false for pages', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await runBuild(filename, getTree().tree);
+        const { tree, page } = getTree();
+        const testObject = await BuildCache.load(filename);
+        const env = getEnvironment();
+        env.config.baseUrl = '/somewhere-else/';
+        await testObject.prepare(env, tree, []);
+
+        expect(await testObject.canSkip(page, path.join(workDir, 'build', 'page.html'))).toBeFalsy();
+    });
+
+    test('If the data changes, canSkip() returns false for pages but true for static files', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await runBuild(filename, getTree().tree);
+        const { tree, page, image } = getTree();
+        const testObject = await BuildCache.load(filename);
+        const env = getEnvironment();
+        env.locals.data = { nav: ['home'] };
+        await testObject.prepare(env, tree, []);
+
+        expect(await testObject.canSkip(page, path.join(workDir, 'build', 'page.html'))).toBeFalsy();
+        expect(await testObject.canSkip(image, path.join(workDir, 'build', 'image.png'))).toBeTruthy();
+    });
+});
+
+describe('BuildCache.record() tests', () => {
+    test('record() returns false if there is no previous build', async () => {
+        const { tree, page } = getTree();
+        const testObject = await BuildCache.load(path.join(workDir, 'cache.json'));
+        await testObject.prepare(getEnvironment(), tree, []);
+
+        expect(testObject.record(page, Buffer.from('output'))).toBeFalsy();
+        expect(testObject.current.outputs['page.html'].output).toBe(hash('output'));
+    });
+
+    test('record() returns true if the output is the same as the previous build', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await runBuild(filename, getTree().tree);
+        const { tree, page } = getTree();
+        const testObject = await BuildCache.load(filename);
+        await testObject.prepare(getEnvironment(), tree, []);
+
+        expect(testObject.record(page, Buffer.from('page.html'))).toBeTruthy();
+    });
+
+    test('record() records the template files used to render the output', async () => {
+        const { page } = getTree();
+        const testObject = new BuildCache(path.join(workDir, 'cache.json'));
+
+        testObject.record(page, Buffer.from('output'), ['layout.pug', 'page.pug']);
+
+        expect(testObject.current.outputs['page.html']).toStrictEqual({ source: null, output: hash('output'), templates: ['layout.pug', 'page.pug'] });
+    });
+
+    test('next() returns a cache whose previous build is this build', async () => {
+        const { tree, page } = getTree();
+        const testObject = await BuildCache.load(path.join(workDir, 'cache.json'));
+        await testObject.prepare(getEnvironment(), tree, []);
+        testObject.record(page, Buffer.from('output'));
+
+        const testOutput = testObject.next();
+
+        expect(testOutput.filename).toBe(testObject.filename);
+        expect(testOutput.previous).toBe(testObject.current);
+        expect(testOutput.record(page, Buffer.from('output'))).toBe(true);
+    });
+
+    test('record() returns false if the output differs from the previous build', async () => {
+        const filename = path.join(workDir, 'cache.json');
+        await runBuild(filename, getTree().tree);
+        const { tree, page } = getTree();
+        const testObject = await BuildCache.load(filename);
+        await testObject.prepare(getEnvironment(), tree, []);
+
+        expect(testObject.record(page, Buffer.from('something new'))).toBeFalsy();
+    });
+});
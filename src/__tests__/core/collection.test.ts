@@ -0,0 +1,243 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import buildCollection, { CollectionOptions, CollectionPage, collectionTree, selectItems } from '../../core/collection';
+import ContentTree from '../../core/contentTree';
+import StaticFile from '../../core/staticFile';
+import { IContentTree, Indexable } from '../../core/coreTypes';
+import { FakeEnvironment } from './fakes/fakeEnvironment';
+import { FakePlugin } from './fakes/fakePlugin';
+import FakeTemplate from './fakes/fakeTemplate';
+
+// A fake plugin with metadata and a date, like a Page.
+class MetadataFakePlugin extends FakePlugin {
+    metadata: Indexable;
+
+    constructor(filename: string, metadata: Indexable, parent: IContentTree) {
+        super(filename, undefined, parent);
+        this.metadata = metadata;
+    }
+
+    get date() {
+        return new Date(this.metadata.date || 0);
+    }
+}
+
+// Build a tree containing three articles, an image, and an about page.
+const getTree = () => {
+    const tree = new ContentTree('');
+    tree['articles'] = new ContentTree('articles');
+    tree['articles'].parent = tree;
+    const articles = tree['articles'] as IContentTree;
+    articles['first.md'] = new MetadataFakePlugin('articles/first.html', { title: 'First', date: '2024-01-10', categories: ['News', 'Tips & Tricks'] }, articles);
+    articles['second.md'] = new MetadataFakePlugin('articles/second.html', { title: 'Second', date: '2024-03-02', categories: 'News', draft: true }, articles);
+    articles['third.md'] = new MetadataFakePlugin('articles/third.html', { title: 'Third', date: '2024-03-20' }, articles);
+    articles['image.png'] = new StaticFile({ full: '/site/contents/articles/image.png', relative: 'articles/image.png' });
+    tree['about.md'] = new MetadataFakePlugin('about.html', { title: 'About' }, tree);
+    return tree as IContentTree;
+};
+
+const titles = (items: unknown[]) => items.map(i => (i as MetadataFakePlugin).metadata.title);
+
+const build = (options: CollectionOptions, tree = getTree()) => buildCollection(new FakeEnvironment(), { name: 'test', options }, tree);
+
+describe('selectItems() tests', () => {
+    test('selectItems() returns all non-static content if no path or pattern is given', () => {
+        const testOutput = selectItems(new FakeEnvironment(), {}, getTree());
+
+        expect(titles(testOutput).sort()).toStrictEqual(['About', 'First', 'Second', 'Third']);
+    });
+
+    test('selectItems() returns the content below path if it is given', () => {
+        const testOutput = selectItems(new FakeEnvironment(), { path: 'articles' }, getTree());
+
+        expect(titles(testOutput).sort()).toStrictEqual(['First', 'Second', 'Third']);
+    });
+
+    test('selectItems() returns an empty array if path is not in the tree', () => {
+        const testOutput = selectItems(new FakeEnvironment(), { path: 'missing/path' }, getTree());
+
+        expect(testOutput).toStrictEqual([]);
+    });
+
+    test('selectItems() returns content whose source file matches pattern if it is given', () => {
+        const tree = getTree();
+        for (const item of ContentTree.flatten(tree)) {
+            item.__filename = item.filename.replace('.html', '.md');
+        }
+
+        const testOutput = selectItems(new FakeEnvironment(), { pattern: 'articles/*.md' }, tree);
+
+        expect(titles(testOutput).sort()).toStrictEqual(['First', 'Second', 'Third']);
+    });
+
+    test('selectItems() applies the filter function', () => {
+        const testOutput = selectItems(new FakeEnvironment(), { path: 'articles', filter: (i) => !(i as MetadataFakePlugin).metadata.draft }, getTree());
+
+        expect(titles(testOutput).sort()).toStrictEqual(['First', 'Third']);
+    });
+
+    test('selectItems() sorts by a property in ascending order', () => {
+        const testOutput = selectItems(new FakeEnvironment(), { path: 'articles', sort: 'date' }, getTree());
+
+        expect(titles(testOutput)).toStrictEqual(['First', 'Second', 'Third']);
+    });
+
+    test('selectItems() sorts by a property in descending order if the key starts with -', () => {
+        const testOutput = selectItems(new FakeEnvironment(), { path: 'articles', sort: '-date' }, getTree());
+
+        expect(titles(testOutput)).toStrictEqual(['Third', 'Second', 'First']);
+    });
+
+    test('selectItems() sorts by a metadata item', () => {
+        const testOutput = selectItems(new FakeEnvironment(), { path: 'articles', sort: '-title' }, getTree());
+
+        expect(titles(testOutput)).toStrictEqual(['Third', 'Second', 'First']);
+    });
+
+    test('selectItems() sorts with a sort function', () => {
+        const testOutput = selectItems(new FakeEnvironment(), { path: 'articles', sort: (a, b) => a.filename.length - b.filename.length || a.filename.localeCompare(b.filename) }, getTree());
+
+        expect(titles(testOutput)).toStrictEqual(['First', 'Third', 'Second']);
+    });
+});
+
+describe('buildCollection() pagination tests', () => {
+    test('buildCollection() generates no pages if paginate is not set', () => {
+        const testOutput = build({ path: 'articles' });
+
+        expect(testOutput.name).toBe('test');
+        expect(testOutput.items.length).toBe(3);
+        expect(testOutput.pages).toStrictEqual([]);
+        expect(testOutput.groups).toStrictEqual([]);
+    });
+
+    test('buildCollection() splits the items into pages of perPage items', () => {
+        const testOutput = build({ path: 'articles', sort: '-date', paginate: { perPage: 2 } });
+
+        expect(testOutput.pages.length).toBe(2);
+        expect(titles(testOutput.pages[0].items)).toStrictEqual(['Third', 'Second']);
+        expect(titles(testOutput.pages[1].items)).toStrictEqual(['First']);
+        expect(testOutput.pages[0].pageNum).toBe(1);
+        expect(testOutput.pages[1].pageNum).toBe(2);
+    });
+
+    test('buildCollection() links the pages together', () => {
+        const testOutput = build({ path: 'articles', paginate: { perPage: 1 } });
+
+        expect(testOutput.pages[0].prevPage).toBeNull();
+        expect(testOutput.pages[0].nextPage).toBe(testOutput.pages[1]);
+        expect(testOutput.pages[1].prevPage).toBe(testOutput.pages[0]);
+        expect(testOutput.pages[1].nextPage).toBe(testOutput.pages[2]);
+        expect(testOutput.pages[2].nextPage).toBeNull();
+        expect(testOutput.pages[1].pages).toBe(testOutput.pages);
+    });
+
+    test('buildCollection() uses the default filename patterns', () => {
+        const testOutput = build({ path: 'articles', paginate: { perPage: 2 } });
+
+        expect(testOutput.pages[0].filename).toBe('test/index.html');
+        expect(testOutput.pages[1].filename).toBe('test/page/2/index.html');
+        expect(testOutput.pages[1].url).toBe('/test/page/2/');
+    });
+
+    test('buildCollection() uses the configured filename patterns', () => {
+        const testOutput = build({ path: 'articles', paginate: { perPage: 2, first: 'index.html', filename: 'archive/%d.html' } });
+
+        expect(testOutput.pages[0].filename).toBe('index.html');
+        expect(testOutput.pages[1].filename).toBe('archive/2.html');
+    });
+
+    test('buildCollection() generates one empty page if the collection is empty', () => {
+        const testOutput = build({ path: 'articles', filter: () => false, paginate: { perPage: 2 } });
+
+        expect(testOutput.pages.length).toBe(1);
+        expect(testOutput.pages[0].items).toStrictEqual([]);
+    });
+});
+
+describe('buildCollection() grouping tests', () => {
+    test('buildCollection() groups items by each value of an array-valued metadata key', () => {
+        const testOutput = build({ path: 'articles', sort: 'date', groupBy: { key: 'categories' } });
+
+        expect(testOutput.groups.map(g => g.key)).toStrictEqual(['News', 'Tips & Tricks']);
+        expect(titles(testOutput.groups[0].items)).toStrictEqual(['First', 'Second']);
+        expect(titles(testOutput.groups[1].items)).toStrictEqual(['First']);
+    });
+
+    test('buildCollection() puts items with no key value into the fallback group', () => {
+        const testOutput = build({ path: 'articles', groupBy: { key: 'categories', fallback: 'Uncategorised' } });
+
+        expect(testOutput.groups.map(g => g.key)).toStrictEqual(['News', 'Tips & Tricks', 'Uncategorised']);
+        expect(titles(testOutput.groups[2].items)).toStrictEqual(['Third']);
+    });
+
+    test('buildCollection() groups dates using dateFormat', () => {
+        const testOutput = build({ path: 'articles', sort: 'date', groupBy: { key: 'date', dateFormat: 'yyyy/MM', order: 'desc' } });
+
+        expect(testOutput.groups.map(g => g.key)).toStrictEqual(['2024/03', '2024/01']);
+        expect(titles(testOutput.groups[0].items)).toStrictEqual(['Second', 'Third']);
+    });
+
+    test('buildCollection() groups with a key function', () => {
+        const testOutput = build({ path: 'articles', groupBy: { key: (i) => (i as MetadataFakePlugin).metadata.title.length } });
+
+        expect(testOutput.groups.map(g => g.key)).toStrictEqual(['5', '6']);
+    });
+
+    test('buildCollection() generates a page for each group using slugified keys', () => {
+        const testOutput = build({ path: 'articles', groupBy: { key: 'categories' } });
+
+        expect(testOutput.groups[1].slug).toBe('tips--tricks');
+        expect(testOutput.groups[1].pages.length).toBe(1);
+        expect(testOutput.groups[1].pages[0].filename).toBe('test/tips--tricks/index.html');
+        expect(testOutput.groups[1].pages[0].group).toBe(testOutput.groups[1]);
+    });
+
+    test('buildCollection() paginates each group', () => {
+        const testOutput = build({ path: 'articles', groupBy: { key: 'date', dateFormat: 'yyyy', perPage: 2, first: 'archive/%k/index.html', filename: 'archive/%k/%d/index.html' } });
+
+        expect(testOutput.groups[0].pages.map(p => p.filename)).toStrictEqual(['archive/2024/index.html', 'archive/2024/2/index.html']);
+    });
+});
+
+describe('collectionTree() tests', () => {
+    test('collectionTree() returns the pages of a collection below collections/<name>', () => {
+        const collection = build({ path: 'articles', paginate: { perPage: 2 }, groupBy: { key: 'date', dateFormat: 'yyyy/MM' } });
+
+        const testOutput = collectionTree(collection);
+
+        expect(Object.keys(testOutput.collections['test']).sort()).toStrictEqual(['1.page', '2.page', '2024.01.1.page', '2024.03.1.page']);
+    });
+});
+
+describe('CollectionPage tests', () => {
+    test('The view renders the page template with the page context', async () => {
+        const collection = build({ path: 'articles', sort: '-date', paginate: { perPage: 2, template: 'list.pug' } });
+        const page = collection.pages[0];
+        const template = new FakeTemplate();
+        vi.spyOn(template, 'render').mockResolvedValue(Buffer.from('output'));
+        const locals = { name: 'A site' };
+
+        const testOutput = await (page.view as CallableFunction)(new FakeEnvironment(), locals, getTree(), { 'list.pug': template });
+
+        expect(testOutput.toString()).toBe('output');
+        expect(vi.mocked(template.render).mock.lastCall?.[0]).toStrictEqual({
+            page,
+            collection: 'test',
+            items: page.items,
+            pageNum: 1,
+            pageCount: 2,
+            pages: collection.pages,
+            prevPage: null,
+            nextPage: collection.pages[1],
+            group: null,
+            name: 'A site',
+        });
+    });
+
+    test('The view throws an error if the template does not exist', async () => {
+        const page = new CollectionPage('test', 'missing.pug', 'index.html', 1, []);
+
+        await expect((page.view as CallableFunction)(new FakeEnvironment(), {}, getTree(), {})).rejects.toThrowError();
+    });
+});
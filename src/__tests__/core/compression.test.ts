@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { gunzipSync, brotliDecompressSync } from 'node:zlib';
+
+import { compressOutputs, isCompressible, negotiateEncoding } from '../../core/compression';
+import { FakeEnvironment } from './fakes/fakeEnvironment';
+
+const page = '<p>' + 'Hello, world! '.repeat(200) + '</p>';
+
+let outputDir: string;
+
+beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-compression-test-'));
+    await fs.writeFile(path.join(outputDir, 'index.html'), page);
+    await fs.writeFile(path.join(outputDir, 'small.css'), 'p { color: red; }');
+    await fs.writeFile(path.join(outputDir, 'photo.jpg'), Buffer.alloc(4096));
+});
+
+afterEach(async () => {
+    await fs.rm(outputDir, { recursive: true, force: true });
+});
+
+const exists = (filename: string) => fs.stat(path.join(outputDir, filename)).then(() => true, () => false);
+
+describe('isCompressible() tests', () => {
+    test('isCompressible() returns true for text types', () => {
+        expect(isCompressible('text/html')).toBe(true);
+        expect(isCompressible('text/css')).toBe(true);
+        expect(isCompressible('application/javascript')).toBe(true);
+        expect(isCompressible('application/json')).toBe(true);
+        expect(isCompressible('application/rss+xml')).toBe(true);
+        expect(isCompressible('image/svg+xml')).toBe(true);
+    });
+
+    test('isCompressible() returns false for types which are already compressed, or unknown', () => {
+        expect(isCompressible('image/jpeg')).toBe(false);
+        expect(isCompressible('application/zip')).toBe(false);
+        expect(isCompressible('font/woff2')).toBe(false);
+        expect(isCompressible(null)).toBe(false);
+    });
+});
+
+describe('negotiateEncoding() tests', () => {
+    test('negotiateEncoding() prefers Brotli to gzip', () => {
+        expect(negotiateEncoding('gzip, deflate, br')).toBe('br');
+        expect(negotiateEncoding('gzip')).toBe('gzip');
+        expect(negotiateEncoding('*')).toBe('br');
+    });
+
+    test('negotiateEncoding() honours quality values', () => {
+        expect(negotiateEncoding('br;q=0.5, gzip')).toBe('gzip');
+        expect(negotiateEncoding('br;q=0, *')).toBe('gzip');
+        expect(negotiateEncoding('gzip;q=0, br;q=0')).toBe(null);
+    });
+
+    test('negotiateEncoding() returns null if no supported coding is accepted', () => {
+        expect(negotiateEncoding(undefined)).toBe(null);
+        expect(negotiateEncoding('')).toBe(null);
+        expect(negotiateEncoding('identity, deflate')).toBe(null);
+    });
+});
+
+describe('compressOutputs() tests', () => {
+    test('compressOutputs() writes compressed copies of text files above the threshold', async () => {
+        const env = new FakeEnvironment({ compressThreshold: 1024 });
+
+        const compressed = await compressOutputs(env, outputDir, ['index.html', 'small.css', 'photo.jpg']);
+
+        expect(compressed).toStrictEqual(['index.html.br', 'index.html.gz']);
+        expect(gunzipSync(await fs.readFile(path.join(outputDir, 'index.html.gz'))).toString()).toBe(page);
+        expect(brotliDecompressSync(await fs.readFile(path.join(outputDir, 'index.html.br'))).toString()).toBe(page);
+        expect(await exists('small.css.gz')).toBe(false);
+        expect(await exists('photo.jpg.gz')).toBe(false);
+    });
+
+    test('compressOutputs() deletes compressed copies of files which are no longer worth compressing', async () => {
+        const env = new FakeEnvironment({ compressThreshold: 1024 });
+        await fs.writeFile(path.join(outputDir, 'small.css.gz'), 'stale');
+
+        await compressOutputs(env, outputDir, ['small.css']);
+
+        expect(await exists('small.css.gz')).toBe(false);
+    });
+
+    test('compressOutputs() does not keep compressed copies which are not smaller', async () => {
+        const env = new FakeEnvironment({ compressThreshold: 0 });
+
+        const compressed = await compressOutputs(env, outputDir, ['small.css']);
+
+        expect(compressed).toStrictEqual([]);
+        expect(await exists('small.css.gz')).toBe(false);
+    });
+
+    test('compressOutputs() only recompresses unchanged files if their copies are out of date', async () => {
+        const env = new FakeEnvironment({ compressThreshold: 1024 });
+        await compressOutputs(env, outputDir, ['index.html']);
+        await fs.writeFile(path.join(outputDir, 'index.html.gz'), 'current');
+        const old = new Date(Date.now() - 60000);
+        await fs.utimes(path.join(outputDir, 'index.html.br'), old, old);
+
+        const compressed = await compressOutputs(env, outputDir, ['index.html'], ['index.html']);
+
+        expect(compressed).toStrictEqual(['index.html.br', 'index.html.gz']);
+        expect((await fs.readFile(path.join(outputDir, 'index.html.gz'))).toString()).toBe('current');
+        expect(brotliDecompressSync(await fs.readFile(path.join(outputDir, 'index.html.br'))).toString()).toBe(page);
+    });
+
+    test('compressOutputs() leaves files produced by the build with the names of compressed copies alone', async () => {
+        const env = new FakeEnvironment({ compressThreshold: 1024 });
+        await fs.writeFile(path.join(outputDir, 'index.html.gz'), 'produced');
+
+        const compressed = await compressOutputs(env, outputDir, ['index.html', 'index.html.gz']);
+
+        expect(compressed).toStrictEqual(['index.html.br']);
+        expect((await fs.readFile(path.join(outputDir, 'index.html.gz'))).toString()).toBe('produced');
+    });
+});
@@ -1,5 +1,8 @@
-import { describe, expect, test, vi } from 'vitest';
-import Config, { defaultConfig } from '../../core/config.js';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import Config, { defaultConfig, findConfigFile, interpolateEnv } from '../../core/config.js';
 import * as utils from '../../core/utils.js';
 
 vi.mock('../../core/utils.js');
@@ -21,7 +24,13 @@ describe('Config constructor tests', () => {
         expect(testOutput.hostname).toBe(null);
         expect(testOutput.port).toBe(8080);
         expect(testOutput.restartOnConfigChange).toBe(true);
+        expect(testOutput.liveReload).toBe(true);
         expect(testOutput.parallelRender).toBe(true);
+        expect(testOutput.incremental).toBe(false);
+        expect(testOutput.buildCache).toBe('./.iceforge-cache.json');
+        expect(testOutput.prune).toBe(false);
+        expect(testOutput.pruneIgnore).toStrictEqual(['.git/**', 'CNAME']);
+        expect(testOutput.collections).toStrictEqual({});
     });
 
     test('Constructor with parameter overrides defaults with values from parameter', () => {
@@ -74,3 +83,190 @@ describe('Config.fromFile tests', () => {
         expect(testOutput.filename).toBe('example');
     });
 });
+
+describe('Config.fromFile YAML and JavaScript tests', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-config-'));
+        vi.mocked(utils.fileExists).mockResolvedValue(true);
+    });
+
+    afterEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    const writeTestFile = async (name: string, data: string) => {
+        const filename = path.join(tempDir, name);
+        await fs.writeFile(filename, data);
+        return filename;
+    };
+
+    test('fromFile loads a YAML config file', async () => {
+        const filename = await writeTestFile('config.yaml', 'baseUrl: /blog/\nplugins:\n  - ./plugins/one.js\n');
+
+        const testOutput = await Config.fromFile(filename);
+
+        expect(testOutput.baseUrl).toBe('/blog/');
+        expect(testOutput.plugins).toStrictEqual(['./plugins/one.js']);
+        expect(testOutput.filename).toBe(filename);
+    });
+
+    test('fromFile includes the filename in YAML parsing errors', async () => {
+        const filename = await writeTestFile('config.yml', 'baseUrl: [\n');
+
+        await expect(() => Config.fromFile(filename)).rejects.toThrowError(/config\.yml/);
+    });
+
+    test('fromFile loads a JavaScript config file whose default export is an object', async () => {
+        const filename = await writeTestFile('config.mjs', 'export default { baseUrl: "/js/", port: 9000 };\n');
+
+        const testOutput = await Config.fromFile(filename);
+
+        expect(testOutput.baseUrl).toBe('/js/');
+        expect(testOutput.port).toBe(9000);
+    });
+
+    test('fromFile loads a JavaScript config file whose default export is an async function', async () => {
+        const filename = await writeTestFile('config.js', 'export default async () => ({ output: "./public" });\n');
+
+        const testOutput = await Config.fromFile(filename);
+
+        expect(testOutput.output).toBe('./public');
+    });
+
+    test('fromFile throws error if the file does not contain an object', async () => {
+        const filename = await writeTestFile('config.yaml', '- one\n- two\n');
+
+        await expect(() => Config.fromFile(filename)).rejects.toThrowError('does not contain a configuration object');
+    });
+});
+
+describe('Config.fromFile profile and interpolation tests', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    const mockConfigFile = async (data: object) => {
+        vi.mocked(utils.fileExists).mockResolvedValue(true);
+        vi.mocked(utils.readJson).mockResolvedValue(data);
+        return 'config.json';
+    };
+
+    const testData = {
+        baseUrl: '/',
+        locals: { name: 'Test site', url: 'http://localhost:8080' },
+        plugins: ['./plugins/one.js'],
+        profiles: {
+            production: {
+                baseUrl: '/site/',
+                locals: { url: 'https://example.com' },
+                plugins: ['./plugins/two.js']
+            },
+            staging: {
+                absoluteBaseUrl: '${STAGING_URL}'
+            }
+        }
+    };
+
+    test('fromFile does not apply any profile if none is given', async () => {
+        const filename = await mockConfigFile(testData);
+
+        const testOutput = await Config.fromFile(filename);
+
+        expect(testOutput.baseUrl).toBe('/');
+        expect(testOutput.profile).toBe(null);
+        expect(testOutput.profiles).toStrictEqual(testData.profiles);
+    });
+
+    test('fromFile deep-merges the selected profile over the rest of the file', async () => {
+        const filename = await mockConfigFile(testData);
+
+        const testOutput = await Config.fromFile(filename, 'production');
+
+        expect(testOutput.baseUrl).toBe('/site/');
+        expect(testOutput.locals).toStrictEqual({ name: 'Test site', url: 'https://example.com' });
+        expect(testOutput.plugins).toStrictEqual(['./plugins/two.js']);
+        expect(testOutput.profile).toBe('production');
+    });
+
+    test('fromFile throws error if the selected profile is not defined', async () => {
+        const filename = await mockConfigFile(testData);
+
+        await expect(() => Config.fromFile(filename, 'testing')).rejects.toThrowError('does not define a profile named testing');
+    });
+
+    test('fromFile interpolates environment variables after applying the profile', async () => {
+        vi.stubEnv('STAGING_URL', 'https://staging.example.com');
+        const filename = await mockConfigFile(testData);
+
+        const testOutput = await Config.fromFile(filename, 'staging');
+
+        expect(testOutput.absoluteBaseUrl).toBe('https://staging.example.com');
+    });
+
+    test('fromFile does not interpolate environment variables in unselected profiles', async () => {
+        vi.stubEnv('STAGING_URL', undefined);
+        const filename = await mockConfigFile(testData);
+
+        const testOutput = await Config.fromFile(filename, 'production');
+
+        expect(testOutput.profiles.staging.absoluteBaseUrl).toBe('${STAGING_URL}');
+    });
+
+    test('fromFile includes the filename in interpolation errors', async () => {
+        vi.stubEnv('STAGING_URL', undefined);
+        const filename = await mockConfigFile(testData);
+
+        await expect(() => Config.fromFile(filename, 'staging')).rejects.toThrowError(`Config file ${filename}: environment variable STAGING_URL is not set.`);
+    });
+});
+
+describe('interpolateEnv tests', () => {
+    const testEnv = { HOST: 'example.com', EMPTY: '' };
+
+    test('interpolateEnv replaces environment variable references in strings', () => {
+        expect(interpolateEnv('https://${HOST}/blog/', testEnv)).toBe('https://example.com/blog/');
+    });
+
+    test('interpolateEnv uses the default value if the variable is unset or empty', () => {
+        expect(interpolateEnv('${PORT:-8080}', testEnv)).toBe('8080');
+        expect(interpolateEnv('${EMPTY:-none}', testEnv)).toBe('none');
+        expect(interpolateEnv('${HOST:-localhost}', testEnv)).toBe('example.com');
+    });
+
+    test('interpolateEnv does not replace escaped references', () => {
+        expect(interpolateEnv('$${HOST} is ${HOST}', testEnv)).toBe('${HOST} is example.com');
+    });
+
+    test('interpolateEnv throws error if a variable is not set and has no default', () => {
+        expect(() => interpolateEnv('${MISSING}', testEnv)).toThrowError('environment variable MISSING is not set.');
+    });
+
+    test('interpolateEnv interpolates nested objects and arrays, and leaves other values unchanged', () => {
+        const date = new Date();
+
+        const testOutput = interpolateEnv({ list: ['${HOST}', 1], nested: { host: '${HOST}', flag: true, date } }, testEnv);
+
+        expect(testOutput).toStrictEqual({ list: ['example.com', 1], nested: { host: 'example.com', flag: true, date } });
+        expect((testOutput as { nested: { date: Date } }).nested.date).toBe(date);
+    });
+});
+
+describe('findConfigFile tests', () => {
+    test('findConfigFile returns the first supported config file which exists', async () => {
+        vi.mocked(utils.fileExists).mockImplementation(async (p) => p.endsWith('.yml') || p.endsWith('.js'));
+
+        const testOutput = await findConfigFile('siteDir');
+
+        expect(testOutput).toBe(path.join('siteDir', 'config.yml'));
+    });
+
+    test('findConfigFile returns null if no config file exists', async () => {
+        vi.mocked(utils.fileExists).mockResolvedValue(false);
+
+        const testOutput = await findConfigFile('siteDir');
+
+        expect(testOutput).toBe(null);
+    });
+});
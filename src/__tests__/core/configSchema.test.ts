@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'vitest';
+
+import { ConfigSchema, coreConfigSchema, didYouMean, findConfigProblems } from '../../core/configSchema';
+import { defaultConfig } from '../../core/config';
+
+describe('didYouMean() tests', () => {
+    test('didYouMean() returns the closest candidate', () => {
+        expect(didYouMean('paralelRender', ['port', 'parallelRender', 'prune'])).toBe('parallelRender');
+    });
+
+    test('didYouMean() matches candidates which differ only in case', () => {
+        expect(didYouMean('baseurl', ['baseUrl', 'absoluteBaseUrl'])).toBe('baseUrl');
+    });
+
+    test('didYouMean() returns null if no candidate is close enough', () => {
+        expect(didYouMean('theme', ['contents', 'templates', 'output'])).toBe(null);
+    });
+});
+
+describe('findConfigProblems() tests', () => {
+    test('findConfigProblems() finds no problems in the default config', () => {
+        expect(findConfigProblems(defaultConfig)).toStrictEqual([]);
+    });
+
+    test('The core schema covers every setting in the default config', () => {
+        expect(Object.keys(defaultConfig).filter(k => !Object.hasOwn(coreConfigSchema, k))).toStrictEqual([]);
+    });
+
+    test('findConfigProblems() reports values of the wrong type as errors', () => {
+        const testConfig = { ...defaultConfig, port: '80a', views: 3, hostname: null };
+
+        expect(findConfigProblems(testConfig)).toStrictEqual([
+            { level: 'error', key: 'views', message: 'expected string or null, but found the number 3.' },
+            { level: 'error', key: 'port', message: 'expected number, but found the string "80a".' },
+        ]);
+    });
+
+    test('findConfigProblems() does not accept NaN as a number', () => {
+        const testConfig = { ...defaultConfig, port: NaN };
+
+        expect(findConfigProblems(testConfig)).toStrictEqual([
+            { level: 'error', key: 'port', message: 'expected number, but found the number NaN.' },
+        ]);
+    });
+
+    test('findConfigProblems() checks array items and map values', () => {
+        const testConfig = { ...defaultConfig, plugins: ['./one.js', 2], imports: { luxon: 'luxon', bad: [] } };
+
+        expect(findConfigProblems(testConfig)).toStrictEqual([
+            { level: 'error', key: 'plugins[1]', message: 'expected string, but found the number 2.' },
+            { level: 'error', key: 'imports.bad', message: 'expected string, but found an array.' },
+        ]);
+    });
+
+    test('findConfigProblems() checks collection settings', () => {
+        const testConfig = { ...defaultConfig, collections: { articles: { path: 'articles', sortBy: 'date' } } };
+
+        expect(findConfigProblems(testConfig)).toStrictEqual([
+            { level: 'warning', key: 'collections.articles.sortBy', message: 'unknown setting.  Did you mean collections.articles.sort?' },
+        ]);
+    });
+
+    test('findConfigProblems() reports unknown settings as warnings, with suggestions if any', () => {
+        const testConfig = { ...defaultConfig, paralelRender: false, theme: 'dark' };
+
+        expect(findConfigProblems(testConfig)).toStrictEqual([
+            { level: 'warning', key: 'paralelRender', message: 'unknown setting.  Did you mean parallelRender?' },
+            { level: 'warning', key: 'theme', message: 'unknown setting.' },
+        ]);
+    });
+
+    test('findConfigProblems() does not report settings set from the command line, or starting with an underscore, as unknown', () => {
+        const testConfig = { ...defaultConfig, o: 'public', _cliopts: { o: 'public', output: 'public' }, _private: true };
+
+        expect(findConfigProblems(testConfig)).toStrictEqual([]);
+    });
+
+    test('findConfigProblems() validates registered config sections', () => {
+        const testConfig = { ...defaultConfig, feed: { content: 'summary', limt: 10 } };
+        const testSections: ConfigSchema = {
+            feed: {
+                type: ['object', 'boolean'],
+                properties: {
+                    content: { type: 'string', enum: ['full', 'intro'] },
+                    limit: { type: 'number' },
+                }
+            }
+        };
+
+        expect(findConfigProblems(testConfig, testSections)).toStrictEqual([
+            { level: 'error', key: 'feed.content', message: 'expected one of "full", "intro", but found the string "summary".' },
+            { level: 'warning', key: 'feed.limt', message: 'unknown setting.  Did you mean feed.limit?' },
+        ]);
+    });
+
+    test('findConfigProblems() accepts any of several types', () => {
+        const testSections: ConfigSchema = { feed: { type: ['object', 'boolean'] } };
+
+        expect(findConfigProblems({ ...defaultConfig, feed: true }, testSections)).toStrictEqual([]);
+        expect(findConfigProblems({ ...defaultConfig, feed: {} }, testSections)).toStrictEqual([]);
+        expect(findConfigProblems({ ...defaultConfig, feed: 'yes' }, testSections)).toHaveLength(1);
+    });
+});
@@ -380,6 +380,33 @@ describe('fromDirectory tests', () => {
         expect(testOutput['subdir1']['file2.pdf']).toBeFalsy();
         expect(testOutput['subdir2']['assets']['img3.png']).toBeFalsy();
     });
+
+    test('fromDirectory() skips the data directory', async () => {
+        vi.mocked(readdir).mockImplementation(async (dir) => {
+            switch (dir) {
+            case 'top':
+                return [ 'data', 'index.md' ] as string[] & Dirent[];
+            case `top${path.sep}data`:
+                return [ 'nav.json' ] as string[] & Dirent[];
+            }
+            return [] as string[] & Dirent[];
+        });
+        vi.mocked(stat).mockImplementation(async (p) => {
+            if (['top', `top${path.sep}data`].includes(p as string)) {
+                return { isDirectory: () => true, isFile: () => false } as Stats;
+            }
+            return { isDirectory: () => false, isFile: () => true } as Stats;
+        });
+        const fakeEnvironment = new FakeEnvironment({ contents: '.' });
+        fakeEnvironment.dataPath = `top${path.sep}data`;
+        fakeEnvironment.contentPlugins.push({ name: 'FakePlugin', group: 'fakes', pattern: '**/*', class: FakePlugin });
+
+        const testOutput = await ContentTree.fromDirectory(fakeEnvironment, 'top');
+
+        expect(testOutput['index.md']).toBeInstanceOf(FakePlugin);
+        expect(testOutput['data']).toBeFalsy();
+        expect(testOutput._.directories).toStrictEqual([]);
+    });
 });
 
 describe('inspect() tests', () => {
@@ -533,6 +560,76 @@ describe('flatten() tests', () => {
     });
 });
 
+describe('lookupMap() tests', () => {
+    test('lookupMap() returns a map of every leaf node keyed by normalised URL', () => {
+        const testObject = new ContentTree('top');
+        testObject['index.html'] = new FakePlugin('index.html');
+        testObject['style.css'] = new FakePlugin('style.css');
+        testObject['subdir'] = new ContentTree('subdir');
+        testObject['subdir'].parent = testObject;
+        testObject['subdir']['page'] = new FakePlugin('page', undefined, undefined, '/subdir/page/');
+
+        const testOutput = ContentTree.lookupMap(testObject);
+
+        expect(Object.keys(testOutput).length).toBe(3);
+        expect(testOutput['/index.html']).toBe(testObject['index.html']);
+        expect(testOutput['/style.css']).toBe(testObject['style.css']);
+        expect(testOutput['/subdir/page/index.html']).toBe(testObject['subdir']['page']);
+    });
+});
+
+describe('remove() tests', () => {
+    const getTree = () => {
+        const tree = new ContentTree('top');
+        tree['index.md'] = new FakePlugin('index.md');
+        tree['draft.md'] = new FakePlugin('draft.md');
+        tree['d'] = new ContentTree('d');
+        tree['d'].parent = tree;
+        tree['d']['draft.md'] = new FakePlugin('d/draft.md');
+        tree['e'] = new ContentTree('e');
+        tree['e'].parent = tree;
+        tree['e']['draft.md'] = new FakePlugin('e/draft.md');
+        tree['e']['image.png'] = new FakePlugin('e/image.png');
+        (tree._ as ContentTreeGroups).fakes = [ tree['index.md'], tree['draft.md'] ];
+        (tree._ as ContentTreeGroups).directories = [ tree['d'], tree['e'] ];
+        (tree['d']._ as ContentTreeGroups).fakes = [ tree['d']['draft.md'] ];
+        (tree['e']._ as ContentTreeGroups).fakes = [ tree['e']['draft.md'], tree['e']['image.png'] ];
+        return tree as IContentTree;
+    };
+    const isDraft = (item: ContentPlugin) => item.filename.endsWith('draft.md');
+
+    test('remove() removes matching leaf nodes from the tree and its groups, and returns them', () => {
+        const testObject = getTree();
+        const expected = [testObject['draft.md'], testObject['d']['draft.md'], testObject['e']['draft.md']];
+
+        const testOutput = ContentTree.remove(testObject, isDraft);
+
+        expect(testOutput).toStrictEqual(expected);
+        expect(Object.keys(testObject)).toStrictEqual(['index.md', 'e']);
+        expect(testObject._.fakes).toStrictEqual([testObject['index.md']]);
+        expect(Object.keys(testObject['e'])).toStrictEqual(['image.png']);
+        expect((testObject['e'] as IContentTree)._.fakes).toStrictEqual([testObject['e']['image.png']]);
+    });
+
+    test('remove() removes directories which it leaves empty', () => {
+        const testObject = getTree();
+
+        ContentTree.remove(testObject, isDraft);
+
+        expect(testObject['d']).toBeUndefined();
+        expect(testObject._.directories).toStrictEqual([testObject['e']]);
+    });
+
+    test('remove() does not change the tree if nothing matches', () => {
+        const testObject = getTree();
+
+        const testOutput = ContentTree.remove(testObject, () => false);
+
+        expect(testOutput).toStrictEqual([]);
+        expect(Object.keys(testObject)).toStrictEqual(['index.md', 'draft.md', 'd', 'e']);
+    });
+});
+
 describe('merge() tests', () => {
     test('merge() mutates its first parameter correctly', () => {
         const firstTree = new ContentTree('firstTree');
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { loadData, parseCsv, parseCsvRows } from '../../core/data';
+
+let dataDir: string;
+
+beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-data-test-'));
+});
+
+afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+const writeFiles = async (files: Record<string, string>) => {
+    for (const [filename, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(dataDir, filename)), { recursive: true });
+        await fs.writeFile(path.join(dataDir, filename), content);
+    }
+};
+
+describe('parseCsvRows() tests', () => {
+    test('parseCsvRows() splits lines into rows and commas into fields', () => {
+        expect(parseCsvRows('a,b,c\n1,2,3\n')).toStrictEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+    });
+
+    test('parseCsvRows() handles CRLF line endings and a missing final line ending', () => {
+        expect(parseCsvRows('a,b\r\n1,2')).toStrictEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    test('parseCsvRows() handles quoted fields containing commas, line breaks and quotes', () => {
+        expect(parseCsvRows('"a,b","line 1\nline 2","say ""hi"""\n')).toStrictEqual([['a,b', 'line 1\nline 2', 'say "hi"']]);
+    });
+
+    test('parseCsvRows() keeps empty fields', () => {
+        expect(parseCsvRows(',x,\n')).toStrictEqual([['', 'x', '']]);
+    });
+
+    test('parseCsvRows() throws an error for an unterminated quoted field', () => {
+        expect(() => parseCsvRows('"a,b\n')).toThrow('unterminated quoted field');
+    });
+});
+
+describe('parseCsv() tests', () => {
+    test('parseCsv() returns an object for each row, keyed by the column headers', () => {
+        const testOutput = parseCsv('name,price\nTea,2.50\nCoffee,3.00\n');
+
+        expect(testOutput).toStrictEqual([{ name: 'Tea', price: '2.50' }, { name: 'Coffee', price: '3.00' }]);
+    });
+
+    test('parseCsv() skips blank lines and fills in missing values', () => {
+        const testOutput = parseCsv('name,price\n\nTea\n\n');
+
+        expect(testOutput).toStrictEqual([{ name: 'Tea', price: '' }]);
+    });
+
+    test('parseCsv() returns an empty array for an empty file', () => {
+        expect(parseCsv('')).toStrictEqual([]);
+    });
+});
+
+describe('loadData() tests', () => {
+    test('loadData() returns an empty object if the directory does not exist', async () => {
+        expect(await loadData(path.join(dataDir, 'missing'))).toStrictEqual({});
+    });
+
+    test('loadData() loads JSON, YAML and CSV files keyed by their paths', async () => {
+        await writeFiles({
+            'site.json': '{ "title": "Test" }',
+            'nav.yml': '- home\n- about\n',
+            'authors/caitlin.yaml': 'name: Caitlin\n',
+            'shop/products.csv': 'name,price\nTea,2.50\n',
+            'notes.txt': 'ignored',
+        });
+
+        const testOutput = await loadData(dataDir);
+
+        expect(testOutput).toStrictEqual({
+            site: { title: 'Test' },
+            nav: ['home', 'about'],
+            authors: { caitlin: { name: 'Caitlin' } },
+            shop: { products: [{ name: 'Tea', price: '2.50' }] },
+        });
+    });
+
+    test('loadData() throws an error if two files have the same name', async () => {
+        await writeFiles({ 'nav.json': '[]', 'nav.yaml': '[]' });
+
+        await expect(loadData(dataDir)).rejects.toThrow('Data files nav.json and nav.yaml have the same name');
+    });
+
+    test('loadData() throws an error if a file has the same name as a directory', async () => {
+        await writeFiles({ 'authors.json': '{}', 'authors/caitlin.json': '{}' });
+
+        await expect(loadData(dataDir)).rejects.toThrow('has the same name as the directory authors');
+    });
+
+    test('loadData() throws an error naming the file if a file cannot be parsed', async () => {
+        await writeFiles({ 'nav.yaml': 'a: [' });
+
+        await expect(loadData(dataDir)).rejects.toThrow('parsing nav.yaml');
+    });
+});
@@ -1,5 +1,7 @@
 import { afterEach, describe, expect, test, vi } from 'vitest';
 import * as url from 'node:url';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
 import * as path from 'node:path';
 import { createServer } from 'node:http';
 
@@ -94,6 +96,14 @@ describe('Constructor/factory() tests', () => {
         expect(testObject.templatesPath.endsWith(testConfig.templates)).toBeTruthy();
     });
 
+    test('dataPath property is set to config.data', async () => {
+        const testConfig = { ...defaultConfig, data: 'testDataLocation' };
+
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+
+        expect(testObject.dataPath).toBe(path.resolve('testDir', 'testDataLocation'));
+    });
+
     test('views property contains the none view', async () => {
         const testConfig = { ...defaultConfig };
 
@@ -449,6 +459,58 @@ describe('setupLocals() tests', () => {
         expect(testObject.locals.fakeModule).toBeTruthy();
         expect(testObject.locals.fakeModule.testFunction).toBeInstanceOf(Function);
     });
+
+    test('locals.data contains the files in the data directory', async () => {
+        const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-data-'));
+        try {
+            await fs.writeFile(path.join(dataDir, 'site.json'), '{ "name": "Test site" }');
+            const testConfig = { ...defaultConfig, data: dataDir, locals: { value: 'test' }, imports: {}, require: {} };
+            const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+
+            await testObject.setupLocals();
+
+            expect(testObject.locals).toStrictEqual({ value: 'test', data: { site: { name: 'Test site' } } });
+        } finally {
+            await fs.rm(dataDir, { recursive: true });
+        }
+    });
+
+    test('locals.data set in config.locals is kept if there is no data directory', async () => {
+        const testConfig = { ...defaultConfig, locals: { data: { value: 'test' } }, imports: {}, require: {} };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+
+        await testObject.setupLocals();
+
+        expect(testObject.locals).toStrictEqual({ data: { value: 'test' } });
+    });
+});
+
+describe('loadData() tests', () => {
+    test('loadData() reloads locals.data from the data directory', async () => {
+        const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-data-'));
+        try {
+            const testConfig = { ...defaultConfig, data: dataDir, locals: { value: 'test' }, imports: {}, require: {} };
+            const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+            await fs.writeFile(path.join(dataDir, 'nav.yaml'), '- home\n- about\n');
+
+            await testObject.loadData();
+
+            expect(testObject.locals).toStrictEqual({ value: 'test', data: { nav: ['home', 'about'] } });
+        } finally {
+            await fs.rm(dataDir, { recursive: true });
+        }
+    });
+
+    test('loadData() removes locals.data loaded from the data directory if the directory has been deleted', async () => {
+        const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-data-'));
+        const testConfig = { ...defaultConfig, data: dataDir, locals: { value: 'test' }, imports: {}, require: {} };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        await fs.rm(dataDir, { recursive: true });
+
+        await testObject.loadData();
+
+        expect(testObject.locals).toStrictEqual({ value: 'test' });
+    });
 });
 
 describe('registerContentPlugin() tests', () => {
@@ -525,6 +587,243 @@ describe('registerGenerator() tests', () => {
         expect(testObject.generators[0].name).toBe('testGen');
         expect(testObject.generators[0].fn).toBe(testGenerator);
     });
+
+    test('Adds the options to the generator definition', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        const testGenerator = async (x: IContentTree) => x;
+
+        testObject.registerGenerator('testGen', testGenerator, { runLast: true });
+        testObject.registerGenerator('testGen2', 'genGroup', testGenerator, { runLast: true });
+
+        expect(testObject.generators).toStrictEqual([
+            { name: 'testGen', group: 'testGen', fn: testGenerator, runLast: true },
+            { name: 'testGen2', group: 'genGroup', fn: testGenerator, runLast: true },
+        ]);
+    });
+});
+
+describe('registerCollection() tests', () => {
+    test('Adds collection definition to collections', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        const testOptions = { path: 'articles', sort: '-date' };
+
+        testObject.registerCollection('testCollection', testOptions);
+
+        expect(testObject.collections.testCollection).toStrictEqual({ name: 'testCollection', options: testOptions });
+    });
+
+    test('Registers a generator for the collection in the collections group', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+
+        testObject.registerCollection('testCollection', { path: 'articles' });
+
+        expect(testObject.generators.length).toBe(1);
+        expect(testObject.generators[0].name).toBe('testCollection');
+        expect(testObject.generators[0].group).toBe('collections');
+    });
+
+    test('The generator adds the built collection to locals.collections', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        const testTree = new ContentTree('');
+        testTree['page.html'] = new FakePlugin('page.html', undefined, testTree);
+        testObject.registerCollection('testCollection', { paginate: { perPage: 5 } });
+
+        const testOutput = await testObject.generators[0].fn(testTree);
+
+        expect(testObject.locals.collections.testCollection.items).toStrictEqual([testTree['page.html']]);
+        expect(Object.keys(testOutput.collections['testCollection'])).toStrictEqual(['1.page']);
+    });
+});
+
+describe('getCollection() tests', () => {
+    test('Returns the items of a registered collection', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        const testTree = new ContentTree('');
+        testTree['b.html'] = new FakePlugin('b.html', undefined, testTree);
+        testTree['a.html'] = new FakePlugin('a.html', undefined, testTree);
+        testObject.registerCollection('testCollection', { sort: 'filename' });
+
+        const testOutput = testObject.getCollection('testCollection', testTree);
+
+        expect(testOutput.name).toBe('testCollection');
+        expect(testOutput.items).toStrictEqual([testTree['a.html'], testTree['b.html']]);
+    });
+
+    test('Throws an error if the collection is not registered', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+
+        expect(() => testObject.getCollection('missing', new ContentTree(''))).toThrowError();
+    });
+});
+
+describe('registerShortcode() tests', () => {
+    test('Adds shortcode definition to shortcodes', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        const testShortcode = () => '<hr/>';
+
+        testObject.registerShortcode('rule', testShortcode);
+        testObject.registerShortcode('note', 'shortcodes/note.pug');
+
+        expect(testObject.shortcodes).toStrictEqual({
+            rule: { name: 'rule', handler: testShortcode },
+            note: { name: 'note', handler: 'shortcodes/note.pug' },
+        });
+    });
+
+    test('reset() clears shortcodes', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        testObject.registerShortcode('rule', () => '<hr/>');
+
+        testObject.reset();
+
+        expect(testObject.shortcodes).toStrictEqual({});
+    });
+});
+
+describe('registerMarkdownExtension() tests', () => {
+    test('Adds extension definitions to markdownExtensions in registration order', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        const testExtension1 = { gfm: true };
+        const testExtension2 = () => ({ breaks: true });
+
+        testObject.registerMarkdownExtension('one', testExtension1);
+        testObject.registerMarkdownExtension('two', testExtension2, false);
+
+        expect(testObject.markdownExtensions).toStrictEqual([
+            { name: 'one', extension: testExtension1, enabled: true },
+            { name: 'two', extension: testExtension2, enabled: false },
+        ]);
+    });
+
+    test('Replaces an extension registered with the same name, in the same position', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        const testExtension = { pedantic: true };
+        testObject.registerMarkdownExtension('one', { gfm: true });
+        testObject.registerMarkdownExtension('two', { breaks: true });
+
+        testObject.registerMarkdownExtension('one', testExtension);
+
+        expect(testObject.markdownExtensions.map(def => def.name)).toStrictEqual(['one', 'two']);
+        expect(testObject.markdownExtensions[0].extension).toBe(testExtension);
+    });
+});
+
+describe('registerNunjucksFilter() tests', () => {
+    test('Adds filter definitions to nunjucksFilters', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        const testFilter1 = (value: string) => value.toUpperCase();
+        const testFilter2 = (value: string, callback: () => void) => callback();
+
+        testObject.registerNunjucksFilter('upper', testFilter1);
+        testObject.registerNunjucksFilter('later', testFilter2, true);
+
+        expect(testObject.nunjucksFilters).toStrictEqual({
+            upper: { name: 'upper', filter: testFilter1, async: false },
+            later: { name: 'later', filter: testFilter2, async: true },
+        });
+    });
+
+    test('reset() clears Nunjucks filters', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        testObject.registerNunjucksFilter('upper', (value: string) => value.toUpperCase());
+
+        await testObject.reset();
+
+        expect(testObject.nunjucksFilters).toStrictEqual({});
+    });
+});
+
+describe('registerHandlebarsHelper() tests', () => {
+    test('Adds helper definitions to handlebarsHelpers', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        const testHelper1 = (value: string) => value.toUpperCase();
+        const testHelper2 = (value: string) => value.toLowerCase();
+
+        testObject.registerHandlebarsHelper('upper', testHelper1);
+        testObject.registerHandlebarsHelper('lower', testHelper2);
+
+        expect(testObject.handlebarsHelpers).toStrictEqual({
+            upper: { name: 'upper', helper: testHelper1 },
+            lower: { name: 'lower', helper: testHelper2 },
+        });
+    });
+
+    test('reset() clears Handlebars helpers', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        testObject.registerHandlebarsHelper('upper', (value: string) => value.toUpperCase());
+
+        await testObject.reset();
+
+        expect(testObject.handlebarsHelpers).toStrictEqual({});
+    });
+});
+
+describe('registerConfigSchema() tests', () => {
+    test('Adds schema to configSchemas', async () => {
+        const testConfig = { ...defaultConfig };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        const testSchema = { type: 'object' as const, properties: { perPage: { type: 'number' as const } } };
+
+        testObject.registerConfigSchema('paginator', testSchema);
+
+        expect(testObject.configSchemas.paginator).toBe(testSchema);
+    });
+});
+
+describe('validateConfig() tests', () => {
+    test('Succeeds if config is valid', async () => {
+        const testConfig = { ...defaultConfig, paginator: { perPage: 3 } };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        testObject.registerConfigSchema('paginator', { type: 'object', properties: { perPage: { type: 'number' } } });
+        vi.spyOn(testLogger, 'warn');
+
+        expect(() => testObject.validateConfig()).not.toThrowError();
+        expect(testLogger.warn).not.toHaveBeenCalled();
+    });
+
+    test('Logs a warning with a suggestion for each unknown setting', async () => {
+        const testConfig = { ...defaultConfig, filename: 'config.json', paralelRender: false };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        vi.spyOn(testLogger, 'warn');
+
+        testObject.validateConfig();
+
+        expect(testLogger.warn).toHaveBeenLastCalledWith('config.json: paralelRender: unknown setting.  Did you mean parallelRender?');
+    });
+
+    test('Does not log warnings if logWarnings is false', async () => {
+        const testConfig = { ...defaultConfig, filename: 'config.json', paralelRender: false };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        vi.spyOn(testLogger, 'warn');
+
+        testObject.validateConfig(false);
+
+        expect(testLogger.warn).not.toHaveBeenCalled();
+    });
+
+    test('Throws an error listing every invalid value, including in registered config sections', async () => {
+        const testConfig = { ...defaultConfig, filename: 'config.json', port: '80a', paginator: { perPage: '3' } };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+        testObject.registerConfigSchema('paginator', { type: 'object', properties: { perPage: { type: 'number' } } });
+
+        expect(() => testObject.validateConfig()).toThrowError('config.json: invalid configuration:\n' +
+            '  port: expected number, but found the string "80a".\n' +
+            '  paginator.perPage: expected number, but found the string "3".');
+    });
 });
 
 describe('registerView() tests', () => {
@@ -787,6 +1086,24 @@ describe('loadPlugins() tests', () => {
         expect(testCheck?.group).toBe('fakePages');
         expect(testCheck?.pattern).toBe('**/*.fake');
     });
+
+    test('Registers collections listed in config object', async () => {
+        const testConfig = { ...defaultConfig, collections: { articles: { path: 'articles', sort: '-date' } } };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+
+        await testObject.loadPlugins();
+
+        expect(testObject.collections.articles).toStrictEqual({ name: 'articles', options: { path: 'articles', sort: '-date' } });
+        expect(testObject.generators.find(g => g.name === 'articles')).toBeTruthy();
+    });
+    test('Validates the config after loading plugins', async () => {
+        const fakePath = path.resolve(url.fileURLToPath(import.meta.url), '../fakes/fakePlugin.ts');
+        const testConfig = { ...defaultConfig, plugins: [ fakePath ], sitemap: { maxUrls: 'lots' } };
+        const testObject = await Environment.factory(testConfig, 'testDir', testLogger);
+
+        await expect(() => testObject.loadPlugins()).rejects.toThrowError('sitemap.maxUrls: expected number');
+        expect(testObject.plugins.FakePlugin).toBeTruthy();
+    });
 });
 
 describe('loadViews() tests', () => {
@@ -934,6 +1251,88 @@ describe('getContents() tests', () => {
         expect(testOutput['static.file']).toBeInstanceOf(FakePlugin);
         expect((testOutput['static.file'] as ContentPlugin).__filename).toBe('static.file');
     });
+
+    test('Runs generators with the runLast option after the others, on the merged tree', async () => {
+        const startingTree = new ContentTree('start');
+        startingTree['static.file'] = new FakePlugin('static.file', undefined, startingTree);
+        const gen1Tree = new ContentTree('gen1');
+        gen1Tree['top.jpg'] = new FakePlugin('top.jpg', undefined, gen1Tree);
+        const lastTree = new ContentTree('last');
+        lastTree['last.xml'] = new FakePlugin('last.xml', undefined, lastTree);
+        vi.mocked(ContentTree.fromDirectory).mockImplementation(async () => startingTree);
+        vi.mocked(runGenerator).mockImplementation(async (env, tree, gendef: GeneratorDef) => await gendef.fn(tree));
+        const seen: string[] = [];
+        const lastGenerator = {
+            name: 'last',
+            group: 'mocks',
+            runLast: true,
+            fn: vi.fn(async (tree: IContentTree) => {
+                seen.push(...Object.keys(tree));
+                return lastTree;
+            })
+        };
+        const testGenerator = {
+            name: 'test1',
+            group: 'mocks',
+            fn: vi.fn(async () => gen1Tree)
+        };
+        const testObject = await Environment.factory({ ...defaultConfig }, 'testDir', testLogger);
+        testObject.generators.push(lastGenerator, testGenerator);
+
+        const testOutput = await testObject.getContents();
+
+        expect(seen.sort()).toStrictEqual(['static.file', 'top.jpg']);
+        expect(testOutput['last.xml']).toBeInstanceOf(FakePlugin);
+        expect(testOutput['top.jpg']).toBeInstanceOf(FakePlugin);
+        expect(testOutput['static.file']).toBeInstanceOf(FakePlugin);
+    });
+
+    // Build a starting tree containing a published page and a draft page, and a generator which records the pages in
+    // the tree it is given.
+    const getDraftTestSetup = () => {
+        const startingTree = new ContentTree('start');
+        startingTree['published.md'] = new FakePlugin('published.md', undefined, startingTree);
+        const draft = new FakePlugin('draft.md', undefined, startingTree);
+        Object.assign(draft, { metadata: { draft: true } });
+        startingTree['draft.md'] = draft;
+        vi.mocked(ContentTree.fromDirectory).mockImplementation(async () => startingTree);
+        vi.mocked(runGenerator).mockImplementation(async (env, tree, gendef: GeneratorDef) => await gendef.fn(tree));
+        const seen: string[] = [];
+        const testGenerator = {
+            name: 'test',
+            group: 'mocks',
+            fn: vi.fn(async (tree: IContentTree) => {
+                seen.push(...Object.keys(tree));
+                return new ContentTree('gen');
+            })
+        };
+        return { seen, testGenerator };
+    };
+
+    test('Removes unpublished pages before running generators in build mode', async () => {
+        const { seen, testGenerator } = getDraftTestSetup();
+        const testObject = await Environment.factory({ ...defaultConfig }, 'testDir', testLogger);
+        testObject.mode = 'build';
+        testObject.generators.push(testGenerator);
+
+        const testOutput = await testObject.getContents();
+
+        expect(seen).toStrictEqual(['published.md']);
+        expect(testOutput['draft.md']).toBeUndefined();
+        expect(testOutput['published.md']).toBeTruthy();
+    });
+
+    test('Keeps unpublished pages in preview mode', async () => {
+        const { seen, testGenerator } = getDraftTestSetup();
+        const testObject = await Environment.factory({ ...defaultConfig }, 'testDir', testLogger);
+        testObject.mode = 'preview';
+        testObject.generators.push(testGenerator);
+
+        const testOutput = await testObject.getContents();
+
+        expect(seen).toStrictEqual(['published.md', 'draft.md']);
+        expect(testOutput['draft.md']).toBeTruthy();
+    });
 });
 
 describe('getLocals() tests', () => {
@@ -1098,7 +1497,7 @@ describe('load() tests', () => {
 
         const testOutput = await testObject.load();
 
-        expectEquivalentTrees(getFakeTree('', ['pages']), testOutput.contents, true, true);
+        expectEquivalentTrees(getFakeTree('', ['pages', 'sitemap', 'feed']), testOutput.contents, true, true);
     }); 
 
     test('Calls all generators', async () => {
@@ -1120,7 +1519,8 @@ describe('load() tests', () => {
 
         await testObject.load();
 
-        expect(vi.mocked(runGenerator)).toHaveBeenCalledTimes(2);
+        // The two test generators, and the generators registered by the default sitemap and feed plugins.
+        expect(vi.mocked(runGenerator)).toHaveBeenCalledTimes(4);
         expect(vi.mocked(runGenerator)).toHaveBeenCalledWith(testObject, startingTree, testGenerator1);
         expect(vi.mocked(runGenerator)).toHaveBeenCalledWith(testObject, startingTree, testGenerator2);
     });
@@ -1417,7 +1817,8 @@ describe('build() tests', () => {
 
         await testObject.build();
 
-        expect(vi.mocked(runGenerator)).toHaveBeenCalledTimes(2);
+        // The two test generators, and the generators registered by the default sitemap and feed plugins.
+        expect(vi.mocked(runGenerator)).toHaveBeenCalledTimes(4);
         expect(vi.mocked(runGenerator)).toHaveBeenCalledWith(testObject, startingTree, testGenerator1);
         expect(vi.mocked(runGenerator)).toHaveBeenCalledWith(testObject, startingTree, testGenerator2);
     });
@@ -1479,7 +1880,7 @@ describe('build() tests', () => {
         await testObject.build();
 
         const loadedTree = vi.mocked(render).mock.lastCall?.[2] as IContentTree;
-        expectEquivalentTrees(getFakeTree('', ['pages']), loadedTree, true, true);
+        expectEquivalentTrees(getFakeTree('', ['pages', 'sitemap', 'feed']), loadedTree, true, true);
     }); 
 
     test('Includes content loaded from generators in tree before passing tree to render()', async () => {
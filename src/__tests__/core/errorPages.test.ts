@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { findNotFoundPage, renderErrorPage, writeNotFoundPage } from '../../core/errorPages';
+import { RenderResult } from '../../core/render';
+import { FakeEnvironment } from './fakes/fakeEnvironment';
+import { FakePlugin } from './fakes/fakePlugin';
+import { getFakeTree } from '../testUtils';
+
+let outputDir: string;
+
+beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-error-pages-test-'));
+    await fs.writeFile(path.join(outputDir, 'missing.md'), '<p>Not here</p>');
+});
+
+afterEach(async () => {
+    await fs.rm(outputDir, { recursive: true, force: true });
+});
+
+// Get a fake content tree containing a not found page.
+const getTreeWithNotFoundPage = (filename = 'missing.md') => {
+    const tree = getFakeTree('root');
+    tree[filename] = new FakePlugin(filename, undefined, tree);
+    return tree;
+};
+
+describe('findNotFoundPage() tests', () => {
+    test('findNotFoundPage() finds the content item for config.notFound', () => {
+        const env = new FakeEnvironment({ notFound: 'missing.md' });
+        const tree = getTreeWithNotFoundPage();
+
+        expect(findNotFoundPage(env, tree)).toBe(tree['missing.md']);
+    });
+
+    test('findNotFoundPage() returns null if the file is not in the tree, or config.notFound is not set', () => {
+        const tree = getTreeWithNotFoundPage();
+
+        expect(findNotFoundPage(new FakeEnvironment(), tree)).toBe(null);
+        expect(findNotFoundPage(new FakeEnvironment({ notFound: null }), tree)).toBe(null);
+    });
+});
+
+describe('writeNotFoundPage() tests', () => {
+    test('writeNotFoundPage() copies the output of the not found page to 404.html', async () => {
+        const env = new FakeEnvironment({ notFound: 'missing.md' });
+        const result: RenderResult = { written: ['index.md', 'missing.md'], unchanged: [] };
+
+        await writeNotFoundPage(env, outputDir, getTreeWithNotFoundPage(), result);
+
+        expect((await fs.readFile(path.join(outputDir, '404.html'))).toString()).toBe('<p>Not here</p>');
+        expect(result.written).toStrictEqual(['index.md', 'missing.md', '404.html']);
+    });
+
+    test('writeNotFoundPage() keeps the existing copy if the not found page is unchanged', async () => {
+        const env = new FakeEnvironment({ notFound: 'missing.md' });
+        await fs.writeFile(path.join(outputDir, '404.html'), 'previous');
+        const result: RenderResult = { written: [], unchanged: ['missing.md'] };
+
+        await writeNotFoundPage(env, outputDir, getTreeWithNotFoundPage(), result);
+
+        expect((await fs.readFile(path.join(outputDir, '404.html'))).toString()).toBe('previous');
+        expect(result).toStrictEqual({ written: [], unchanged: ['missing.md', '404.html'] });
+    });
+
+    test('writeNotFoundPage() does nothing if the not found page is already 404.html, produced no output, or is not in the tree', async () => {
+        const env = new FakeEnvironment({ notFound: 'missing.md' });
+        const results: RenderResult[] = [{ written: ['index.md'], unchanged: [] }, { written: ['missing.md'], unchanged: [] }];
+
+        await writeNotFoundPage(env, outputDir, getTreeWithNotFoundPage(), results[0]);
+        await writeNotFoundPage(env, outputDir, getFakeTree('root'), results[1]);
+        await writeNotFoundPage(new FakeEnvironment({ notFound: '404.html' }), outputDir, getTreeWithNotFoundPage('404.html'), { written: ['404.html'], unchanged: [] });
+
+        expect(results).toStrictEqual([{ written: ['index.md'], unchanged: [] }, { written: ['missing.md'], unchanged: [] }]);
+        expect(await fs.readdir(outputDir)).toStrictEqual(['missing.md']);
+    });
+
+    test('writeNotFoundPage() does not overwrite 404.html produced by other content', async () => {
+        const env = new FakeEnvironment({ notFound: 'missing.md' });
+        const result: RenderResult = { written: ['missing.md', '404.html'], unchanged: [] };
+
+        await writeNotFoundPage(env, outputDir, getTreeWithNotFoundPage(), result);
+
+        expect(result.written).toStrictEqual(['missing.md', '404.html']);
+        expect(await fs.readdir(outputDir)).toStrictEqual(['missing.md']);
+    });
+});
+
+describe('renderErrorPage() tests', () => {
+    test('renderErrorPage() shows the error, its stack, the content file and the template, escaped', () => {
+        const env = new FakeEnvironment({ templates: '/site/templates' });
+        const content = new FakePlugin('/site/contents/<b>.md', undefined, undefined, '/b.html');
+        const error = new Error('Unexpected <token>');
+
+        const page = renderErrorPage(env, error, content, 'page.njk').toString();
+
+        expect(page).toContain('<h1>500 Error rendering /b.html</h1>');
+        expect(page).toContain('<tr><th>Content file</th><td><code>/site/contents/&lt;b&gt;.md</code></td></tr>');
+        expect(page).toContain(`<tr><th>Template</th><td><code>${path.join('/site/templates', 'page.njk')}</code></td></tr>`);
+        expect(page).toContain('<pre>Error: Unexpected &lt;token&gt;\n    at ');
+    });
+
+    test('renderErrorPage() shows the plugin which generated content which was not loaded from a file', () => {
+        const env = new FakeEnvironment();
+        const content = new FakePlugin(undefined, undefined, undefined, '/generated.html');
+
+        const page = renderErrorPage(env, new Error('Failed'), content).toString();
+
+        expect(page).toContain('<tr><th>Generated by</th><td><code>FakePlugin</code></td></tr>');
+        expect(page).not.toContain('Template');
+    });
+});
@@ -4,28 +4,47 @@ import winston from 'winston';
 import { testLogger } from '../../testUtils';
 
 import { ContentPluginDef } from '../../../core/contentPlugin';
-import { GeneratorDef, GeneratorFunc, IConfig, IEnvironment, Indexable, PluginMap, ViewMap } from '../../../core/coreTypes';
+import { GeneratorDef, GeneratorFunc, GeneratorOptions, HandlebarsHelperDef, IConfig, IEnvironment, Indexable, MarkdownExtensionDef, NunjucksFilterDef, PluginMap, ViewMap } from '../../../core/coreTypes';
 import { defaultConfig } from '../../../core/config';
+import buildCollection, { CollectionDef } from '../../../core/collection';
+import { ConfigSchema } from '../../../core/configSchema';
+import { ShortcodeDef } from '../../../core/shortcodes';
 import { TemplatePluginDef } from '../../../core/templatePlugin';
 
 export class FakeEnvironment implements IEnvironment {
 
+    collections: Record<string, CollectionDef>;
+
     config: IConfig;
 
+    configSchemas: ConfigSchema;
+
     contentPlugins: ContentPluginDef[];
 
     contentsPath: string;
 
+    dataPath: string;
+
     generators: GeneratorDef[];
 
+    handlebarsHelpers: Record<string, HandlebarsHelperDef>;
+
     helpers: object;
 
+    locals: Indexable;
+
     logger: winston.Logger = testLogger;
 
+    markdownExtensions: MarkdownExtensionDef[];
+
     mode: string;
 
+    nunjucksFilters: Record<string, NunjucksFilterDef>;
+
     plugins: PluginMap;
 
+    shortcodes: Record<string, ShortcodeDef>;
+
     templatesPath: string;
 
     templatePlugins: TemplatePluginDef[];
@@ -34,11 +53,19 @@ export class FakeEnvironment implements IEnvironment {
 
     constructor(config?: Indexable) {
         this.config = { ...defaultConfig, ...config };
+        this.collections = {};
+        this.configSchemas = {};
         this.contentPlugins = [];
         this.contentsPath = this.config.contents;
+        this.dataPath = this.config.data;
         this.generators = [];
+        this.handlebarsHelpers = {};
         this.helpers = {};
+        this.locals = {};
+        this.markdownExtensions = [];
+        this.nunjucksFilters = {};
         this.plugins = {};
+        this.shortcodes = {};
         this.templatesPath = this.config.templates;
         this.templatePlugins = [];
         this.views = { none: () => Promise.resolve(null) }; 
@@ -64,10 +91,62 @@ export class FakeEnvironment implements IEnvironment {
         return Promise.resolve();
     }
 
+    watch() {
+        return Promise.resolve(() => Promise.resolve());
+    }
+
+    registerCollection(name, options) {
+        this.collections[name] = { name, options };
+    }
+
+    registerShortcode(name, handler) {
+        this.shortcodes[name] = { name, handler };
+    }
+
+    registerMarkdownExtension(name, extension, enabled = true) {
+        this.markdownExtensions.push({ name, extension, enabled });
+    }
+
+    registerNunjucksFilter(name, filter, async = false) {
+        this.nunjucksFilters[name] = { name, filter, async };
+    }
+
+    registerHandlebarsHelper(name, helper) {
+        this.handlebarsHelpers[name] = { name, helper };
+    }
+
+    loadModule(module: string) {
+        return import(module);
+    }
+
+    registerConfigSchema(section, schema) {
+        this.configSchemas[section] = schema;
+    }
+
+    getCollection(name, contents) {
+        return buildCollection(this, this.collections[name], contents);
+    }
+
+    check() {
+        return Promise.resolve([]);
+    }
+
     preview() {
         return Promise.resolve();
     }
 
+    serve() {
+        return Promise.resolve();
+    }
+
+    loadPlugins() {
+        return Promise.resolve();
+    }
+
+    loadViews() {
+        return Promise.resolve();
+    }
+
     registerTemplatePlugin(pattern, plugin) {
         this.plugins[plugin.name] = plugin;
         this.templatePlugins.push({
@@ -86,20 +165,22 @@ export class FakeEnvironment implements IEnvironment {
         });
     }
 
-    registerGenerator(name: string, generator: GeneratorFunc): void;
-    registerGenerator(name: string, group: string, generator: GeneratorFunc): void;
-    registerGenerator(name: string, groupOrGenerator: string | GeneratorFunc, generator?: GeneratorFunc) {
+    registerGenerator(name: string, generator: GeneratorFunc, options?: GeneratorOptions): void;
+    registerGenerator(name: string, group: string, generator: GeneratorFunc, options?: GeneratorOptions): void;
+    registerGenerator(name: string, groupOrGenerator: string | GeneratorFunc, generatorOrOptions?: GeneratorFunc | GeneratorOptions, options?: GeneratorOptions) {
         if (typeof groupOrGenerator === 'string') {
             this.generators.push({
                 name,
                 group: groupOrGenerator,
-                fn: generator || vi.fn(),
+                fn: (generatorOrOptions as GeneratorFunc) || vi.fn(),
+                ...options
             });
         } else {
             this.generators.push({
                 name,
                 group: name,
-                fn: groupOrGenerator
+                fn: groupOrGenerator,
+                ...generatorOrOptions as GeneratorOptions
             });
         }
     }
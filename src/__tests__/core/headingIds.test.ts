@@ -0,0 +1,28 @@
+import { describe, expect, test } from 'vitest';
+import { Marked } from 'marked';
+
+import { headingIds } from '../../core/headingIds';
+
+describe('headingIds() tests', () => {
+    test('Headings are given IDs made from their text, with the prefix', () => {
+        const marked = new Marked({ useNewRenderer: true }, headingIds({ prefix: 'x-' }));
+
+        expect(marked.parse('# Hello, *World*!\n\n## Fish &amp; chips')).toBe('<h1 id="x-hello-world">Hello, <em>World</em>!</h1>\n<h2 id="x-fish--chips">Fish &amp; chips</h2>\n');
+    });
+
+    test('Repeated headings are given unique IDs, which start again for each page', () => {
+        const marked = new Marked({ useNewRenderer: true }, headingIds());
+
+        expect(marked.parse('# Intro\n\n# Intro')).toBe('<h1 id="intro">Intro</h1>\n<h1 id="intro-1">Intro</h1>\n');
+        expect(marked.parse('# Intro')).toBe('<h1 id="intro">Intro</h1>\n');
+    });
+
+    test('Each instance of the extension has its own IDs', () => {
+        const first = new Marked({ useNewRenderer: true }, headingIds());
+        const second = new Marked({ useNewRenderer: true }, headingIds());
+
+        first.parse('# Intro');
+
+        expect(second.parse('# Intro')).toBe('<h1 id="intro">Intro</h1>\n');
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'vitest';
+
+import { fileEtag, isNotModified, parseRange, Validators } from '../../core/httpCache';
+
+const lastModified = new Date('2024-05-01T12:00:00.500Z');
+const validators: Validators = { etag: '"abc"', lastModified };
+
+describe('fileEtag() tests', () => {
+    test('fileEtag() makes an entity tag from the size and modification time', () => {
+        expect(fileEtag(255, 4096.7)).toBe('"ff-1000"');
+    });
+});
+
+describe('isNotModified() tests', () => {
+    test('isNotModified() returns false for an unconditional request', () => {
+        expect(isNotModified({}, validators)).toBe(false);
+    });
+
+    test('isNotModified() returns true if If-None-Match lists the entity tag, ignoring weakness', () => {
+        expect(isNotModified({ 'if-none-match': '"xyz", "abc"' }, validators)).toBe(true);
+        expect(isNotModified({ 'if-none-match': 'W/"abc"' }, validators)).toBe(true);
+        expect(isNotModified({ 'if-none-match': '*' }, validators)).toBe(true);
+    });
+
+    test('isNotModified() returns false if If-None-Match does not list the entity tag, whatever If-Modified-Since says', () => {
+        const headers = { 'if-none-match': '"xyz"', 'if-modified-since': 'Wed, 01 May 2024 12:00:00 GMT' };
+
+        expect(isNotModified(headers, validators)).toBe(false);
+    });
+
+    test('isNotModified() compares If-Modified-Since with the last modification time to the second', () => {
+        expect(isNotModified({ 'if-modified-since': 'Wed, 01 May 2024 12:00:00 GMT' }, validators)).toBe(true);
+        expect(isNotModified({ 'if-modified-since': 'Wed, 01 May 2024 11:59:59 GMT' }, validators)).toBe(false);
+        expect(isNotModified({ 'if-modified-since': 'not a date' }, validators)).toBe(false);
+    });
+});
+
+describe('parseRange() tests', () => {
+    test('parseRange() returns null if there is no Range header', () => {
+        expect(parseRange({}, 100, validators)).toBe(null);
+    });
+
+    test('parseRange() parses a range with a start and an end, limiting the end to the size', () => {
+        expect(parseRange({ range: 'bytes=10-19' }, 100, validators)).toStrictEqual({ start: 10, end: 19 });
+        expect(parseRange({ range: 'bytes=90-200' }, 100, validators)).toStrictEqual({ start: 90, end: 99 });
+    });
+
+    test('parseRange() parses open-ended and suffix ranges', () => {
+        expect(parseRange({ range: 'bytes=50-' }, 100, validators)).toStrictEqual({ start: 50, end: 99 });
+        expect(parseRange({ range: 'bytes=-10' }, 100, validators)).toStrictEqual({ start: 90, end: 99 });
+        expect(parseRange({ range: 'bytes=-500' }, 100, validators)).toStrictEqual({ start: 0, end: 99 });
+    });
+
+    test('parseRange() returns null for ranges which cannot be parsed or which ask for several ranges', () => {
+        expect(parseRange({ range: 'bytes=-' }, 100, validators)).toBe(null);
+        expect(parseRange({ range: 'bytes=20-10' }, 100, validators)).toBe(null);
+        expect(parseRange({ range: 'bytes=0-10, 20-30' }, 100, validators)).toBe(null);
+        expect(parseRange({ range: 'items=0-10' }, 100, validators)).toBe(null);
+    });
+
+    test('parseRange() returns unsatisfiable for a range starting after the end of the resource', () => {
+        expect(parseRange({ range: 'bytes=100-' }, 100, validators)).toBe('unsatisfiable');
+        expect(parseRange({ range: 'bytes=0-' }, 0, validators)).toBe('unsatisfiable');
+    });
+
+    test('parseRange() only returns the range if If-Range matches the current entity tag or modification time', () => {
+        expect(parseRange({ range: 'bytes=0-9', 'if-range': '"abc"' }, 100, validators)).toStrictEqual({ start: 0, end: 9 });
+        expect(parseRange({ range: 'bytes=0-9', 'if-range': '"xyz"' }, 100, validators)).toBe(null);
+        expect(parseRange({ range: 'bytes=0-9', 'if-range': 'W/"abc"' }, 100, validators)).toBe(null);
+        expect(parseRange({ range: 'bytes=0-9', 'if-range': 'Wed, 01 May 2024 12:00:00 GMT' }, 100, validators)).toStrictEqual({ start: 0, end: 9 });
+        expect(parseRange({ range: 'bytes=0-9', 'if-range': 'Wed, 01 May 2024 11:00:00 GMT' }, 100, validators)).toBe(null);
+    });
+});
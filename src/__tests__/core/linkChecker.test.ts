@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'vitest';
+
+import checkLinks from '../../core/linkChecker';
+import ContentTree from '../../core/contentTree';
+import { IContentTree } from '../../core/coreTypes';
+import { FakeEnvironment } from './fakes/fakeEnvironment';
+import { FakePlugin } from './fakes/fakePlugin';
+
+// A view which renders a fixed piece of HTML.
+const htmlView = (html: string) => async () => Buffer.from(html);
+
+// Build a tree containing an index page with the given HTML, an about page with a heading, and an image.
+const getTree = (indexHtml: string): IContentTree => {
+    const tree = new ContentTree('');
+    tree['index.html'] = new FakePlugin('index.html', htmlView(indexHtml), tree);
+    tree['articles'] = new ContentTree('articles');
+    tree['articles'].parent = tree;
+    tree['articles']['about.html'] = new FakePlugin('articles/about.html', htmlView('<h1 id="iceforge-about">About</h1><a name="old-anchor"></a>'), tree['articles']);
+    tree['image.png'] = new FakePlugin('image.png', htmlView('not html'), tree);
+    return tree;
+};
+
+const runCheck = async (indexHtml: string) => await checkLinks(new FakeEnvironment(), getTree(indexHtml), {}, {});
+
+describe('checkLinks() tests', () => {
+    test('checkLinks() returns no problems if all links resolve', async () => {
+        const testOutput = await runCheck('<a href="/articles/about.html">About</a> <img src="image.png"> <a href="articles/about.html#iceforge-about">Top</a>');
+
+        expect(testOutput).toStrictEqual([]);
+    });
+
+    test('checkLinks() ignores external links', async () => {
+        const testOutput = await runCheck('<a href="https://example.com/missing.html">x</a> <a href="mailto:x@example.com">y</a> <script src="//cdn.example.com/x.js"></script>');
+
+        expect(testOutput).toStrictEqual([]);
+    });
+
+    test('checkLinks() reports links to content which does not exist', async () => {
+        const testOutput = await runCheck('<a href="/articles/missing.html">Missing</a>');
+
+        expect(testOutput).toStrictEqual([{ page: '/index.html', source: 'index.html', link: '/articles/missing.html', reason: 'missing' }]);
+    });
+
+    test('checkLinks() reports images which do not exist', async () => {
+        const testOutput = await runCheck('<img alt="" src=\'missing.png\'>');
+
+        expect(testOutput).toStrictEqual([{ page: '/index.html', source: 'index.html', link: 'missing.png', reason: 'missing' }]);
+    });
+
+    test('checkLinks() reports links to anchors which do not exist', async () => {
+        const testOutput = await runCheck('<a href="/articles/about.html#iceforge-nowhere">About</a>');
+
+        expect(testOutput).toStrictEqual([{ page: '/index.html', source: 'index.html', link: '/articles/about.html#iceforge-nowhere', reason: 'anchor' }]);
+    });
+
+    test('checkLinks() reports links to anchors on the same page which do not exist', async () => {
+        const testOutput = await runCheck('<h2 id="here">Here</h2><a href="#here">Here</a><a href="#there">There</a>');
+
+        expect(testOutput).toStrictEqual([{ page: '/index.html', source: 'index.html', link: '#there', reason: 'anchor' }]);
+    });
+
+    test('checkLinks() accepts anchors defined by name attributes', async () => {
+        const testOutput = await runCheck('<a href="articles/about.html#old-anchor">Old</a>');
+
+        expect(testOutput).toStrictEqual([]);
+    });
+
+    test('checkLinks() reports each broken link only once per page', async () => {
+        const testOutput = await runCheck('<a href="missing.html">1</a><a href="missing.html">2</a>');
+
+        expect(testOutput.length).toBe(1);
+    });
+
+    test('checkLinks() decodes character references in links', async () => {
+        const testOutput = await runCheck('<a href="/articles/about.html?a=1&amp;b=2">About</a>');
+
+        expect(testOutput).toStrictEqual([]);
+    });
+
+    test('checkLinks() reports links with invalid percent-encoding as missing', async () => {
+        const testOutput = await runCheck('<a href="/a%zz">Bad</a><a href="/articles/missing.html">Missing</a>');
+
+        expect(testOutput).toStrictEqual([
+            { page: '/index.html', source: 'index.html', link: '/a%zz', reason: 'missing' },
+            { page: '/index.html', source: 'index.html', link: '/articles/missing.html', reason: 'missing' },
+        ]);
+    });
+
+    test('checkLinks() reports pages which fail to render, and checks the rest of the site', async () => {
+        const tree = getTree('<a href="/articles/missing.html">Missing</a>');
+        tree['broken.html'] = new FakePlugin('broken.html', async () => { throw new Error('Bad template'); }, tree);
+
+        const testOutput = await checkLinks(new FakeEnvironment(), tree, {}, {});
+
+        expect(testOutput).toStrictEqual([
+            { page: '/broken.html', source: 'broken.html', link: '', reason: 'render', message: 'Bad template' },
+            { page: '/index.html', source: 'index.html', link: '/articles/missing.html', reason: 'missing' },
+        ]);
+    });
+});
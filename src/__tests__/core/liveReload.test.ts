@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { EventEmitter } from 'node:events';
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+import LiveReloadChannel, { clientScript, hashOutput, injectClientScript, liveReloadPath } from '../../core/liveReload';
+
+class FakeResponse {
+    writeHead = vi.fn();
+
+    write = vi.fn();
+
+    end = vi.fn(() => { this.writableEnded = true; });
+
+    writableEnded = false;
+}
+
+const getFakeRequest = (url: string) => {
+    const request = new EventEmitter() as IncomingMessage;
+    request.url = url;
+    request.headers = { host: 'localhost' };
+    return request;
+};
+
+let testObject: LiveReloadChannel;
+
+afterEach(() => {
+    testObject?.close();
+});
+
+describe('liveReloadPath tests', () => {
+    test('liveReloadPath is a relative path', () => {
+        expect(liveReloadPath.startsWith('/')).toBeFalsy();
+    });
+});
+
+describe('hashOutput() tests', () => {
+    test('hashOutput() returns the same hash for identical buffers', () => {
+        expect(hashOutput(Buffer.from('Some page'))).toBe(hashOutput(Buffer.from('Some page')));
+    });
+
+    test('hashOutput() returns different hashes for different buffers', () => {
+        expect(hashOutput(Buffer.from('Some page'))).not.toBe(hashOutput(Buffer.from('Some other page')));
+    });
+});
+
+describe('clientScript() tests', () => {
+    test('clientScript() returns a script element which connects to the endpoint', () => {
+        const testOutput = clientScript('/blog/__iceforge/livereload');
+
+        expect(testOutput.startsWith('<script>')).toBeTruthy();
+        expect(testOutput).toContain('new EventSource(\'/blog/__iceforge/livereload?page=\'');
+    });
+});
+
+describe('injectClientScript() tests', () => {
+    test('injectClientScript() inserts the script before the closing body tag', () => {
+        const testInput = Buffer.from('<html><body><p>Hello</p></body></html>');
+
+        const testOutput = injectClientScript(testInput, '/endpoint').toString();
+
+        expect(testOutput).toBe(`<html><body><p>Hello</p>${clientScript('/endpoint')}</body></html>`);
+    });
+
+    test('injectClientScript() inserts the script before the last closing body tag, ignoring case', () => {
+        const testInput = Buffer.from('<html><BODY><pre>&lt;/body&gt;</body></pre></BODY></html>');
+
+        const testOutput = injectClientScript(testInput, '/endpoint').toString();
+
+        expect(testOutput).toBe(`<html><BODY><pre>&lt;/body&gt;</body></pre>${clientScript('/endpoint')}</BODY></html>`);
+    });
+
+    test('injectClientScript() appends the script if there is no closing body tag', () => {
+        const testInput = Buffer.from('<p>Hello</p>');
+
+        const testOutput = injectClientScript(testInput, '/endpoint').toString();
+
+        expect(testOutput).toBe(`<p>Hello</p>${clientScript('/endpoint')}`);
+    });
+});
+
+describe('LiveReloadChannel tests', () => {
+    test('connect() opens an event stream and records the page', () => {
+        testObject = new LiveReloadChannel();
+        const response = new FakeResponse();
+
+        const testOutput = testObject.connect(getFakeRequest('/__iceforge/livereload?page=%2Farticles%2F'), response as unknown as ServerResponse);
+
+        expect(testOutput.page).toBe('/articles/');
+        expect(testObject.clients.has(testOutput)).toBeTruthy();
+        expect(response.writeHead.mock.lastCall?.[0]).toBe(200);
+        expect(response.writeHead.mock.lastCall?.[1]['Content-Type']).toBe('text/event-stream');
+    });
+
+    test('connect() defaults the page to the site root if it is not given', () => {
+        testObject = new LiveReloadChannel();
+
+        const testOutput = testObject.connect(getFakeRequest('/__iceforge/livereload'), new FakeResponse() as unknown as ServerResponse);
+
+        expect(testOutput.page).toBe('/');
+    });
+
+    test('Clients are removed when their request closes', () => {
+        testObject = new LiveReloadChannel();
+        const request = getFakeRequest('/__iceforge/livereload?page=%2F');
+        testObject.connect(request, new FakeResponse() as unknown as ServerResponse);
+
+        request.emit('close');
+
+        expect(testObject.clients.size).toBe(0);
+    });
+
+    test('reload() sends a reload event to the client', () => {
+        testObject = new LiveReloadChannel();
+        const response = new FakeResponse();
+        const client = testObject.connect(getFakeRequest('/__iceforge/livereload?page=%2Fabout.html'), response as unknown as ServerResponse);
+
+        testObject.reload(client);
+
+        expect(response.write).toHaveBeenLastCalledWith('event: reload\ndata: /about.html\n\n');
+    });
+
+    test('reloadAll() sends a reload event to every client', () => {
+        testObject = new LiveReloadChannel();
+        const firstResponse = new FakeResponse();
+        const secondResponse = new FakeResponse();
+        testObject.connect(getFakeRequest('/__iceforge/livereload?page=%2Fone'), firstResponse as unknown as ServerResponse);
+        testObject.connect(getFakeRequest('/__iceforge/livereload?page=%2Ftwo'), secondResponse as unknown as ServerResponse);
+
+        testObject.reloadAll();
+
+        expect(firstResponse.write).toHaveBeenLastCalledWith('event: reload\ndata: /one\n\n');
+        expect(secondResponse.write).toHaveBeenLastCalledWith('event: reload\ndata: /two\n\n');
+    });
+
+    test('close() ends every event stream and removes every client', () => {
+        testObject = new LiveReloadChannel();
+        const response = new FakeResponse();
+        testObject.connect(getFakeRequest('/__iceforge/livereload?page=%2F'), response as unknown as ServerResponse);
+
+        testObject.close();
+
+        expect(response.end).toHaveBeenCalledOnce();
+        expect(testObject.clients.size).toBe(0);
+    });
+});
@@ -1,7 +1,9 @@
 import { describe, expect, test, vi } from 'vitest';
 
-import { readDirRecursive } from '../../core/utils';
-import loadTemplates from '../../core/loadTemplates';
+import * as path from 'node:path';
+
+import { fileExists, readDirRecursive } from '../../core/utils';
+import loadTemplates, { reloadTemplates } from '../../core/loadTemplates';
 import FakeTemplate from './fakes/fakeTemplate';
 import SpecialFakeTemplate from './fakes/specialFakeTemplate';
 import BrokenFakeTemplate from './fakes/brokenFakeTemplate';
@@ -65,3 +67,63 @@ describe('loadTemplates() tests', () => {
         await expect(async () => await loadTemplates(fakeEnvironment)).rejects.toThrowError();
     });
 });
+
+describe('reloadTemplates() tests', () => {
+    // Get an environment and templates for a layout and a page which includes it.
+    const getTemplates = async () => {
+        const fakeEnvironment = new FakeEnvironment();
+        fakeEnvironment.templatesPath = 'testTemplates';
+        fakeEnvironment.templatePlugins.push({ pattern: '*.test', class: FakeTemplate });
+        vi.mocked(readDirRecursive).mockImplementation(async () => ['layout.test', 'page.test', 'other.test']);
+        const templates = await loadTemplates(fakeEnvironment);
+        for (const template of Object.values(templates)) {
+            template.dependencies = [];
+        }
+        templates['page.test'].dependencies = [path.join('testTemplates', 'layout.test')];
+        return { fakeEnvironment, templates };
+    };
+
+    test('Reloads the template loaded from a changed file and the templates which depend on it, in a new template map', async () => {
+        const { fakeEnvironment, templates } = await getTemplates();
+        vi.mocked(fileExists).mockResolvedValue(true);
+
+        const testOutput = await reloadTemplates(fakeEnvironment, templates, 'layout.test');
+
+        expect(testOutput.changed).toStrictEqual(['layout.test', 'page.test']);
+        expect(testOutput.templates).not.toBe(templates);
+        expect(Object.keys(testOutput.templates).sort()).toStrictEqual(['layout.test', 'other.test', 'page.test']);
+        expect(testOutput.templates['layout.test']).not.toBe(templates['layout.test']);
+        expect(testOutput.templates['page.test']).not.toBe(templates['page.test']);
+        expect(testOutput.templates['other.test']).toBe(templates['other.test']);
+    });
+
+    test('Loads a template from a new file', async () => {
+        const { fakeEnvironment, templates } = await getTemplates();
+        vi.mocked(fileExists).mockResolvedValue(true);
+
+        const testOutput = await reloadTemplates(fakeEnvironment, templates, 'new.test');
+
+        expect(testOutput.changed).toStrictEqual(['new.test']);
+        expect((testOutput.templates['new.test'] as FakeTemplate).__filepath).toStrictEqual({ full: path.join('testTemplates', 'new.test'), relative: 'new.test' });
+    });
+
+    test('Removes the template loaded from a deleted file', async () => {
+        const { fakeEnvironment, templates } = await getTemplates();
+        vi.mocked(fileExists).mockImplementation(async (filename: string) => filename !== path.join('testTemplates', 'other.test'));
+
+        const testOutput = await reloadTemplates(fakeEnvironment, templates, 'other.test');
+
+        expect(testOutput.changed).toStrictEqual(['other.test']);
+        expect(Object.keys(testOutput.templates).sort()).toStrictEqual(['layout.test', 'page.test']);
+    });
+
+    test('Changes to files which no template uses or is loaded from do not change any templates', async () => {
+        const { fakeEnvironment, templates } = await getTemplates();
+        vi.mocked(fileExists).mockResolvedValue(true);
+
+        const testOutput = await reloadTemplates(fakeEnvironment, templates, 'notes.txt');
+
+        expect(testOutput.changed).toStrictEqual([]);
+        expect(testOutput.templates).toStrictEqual(templates);
+    });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import { resolveOutputPath, run } from '../../core/outputServer';
+import { FakeEnvironment } from './fakes/fakeEnvironment';
+
+let outputDir: string;
+let server: Server = null;
+
+beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-serve-test-'));
+    await fs.mkdir(path.join(outputDir, 'about'));
+    await fs.writeFile(path.join(outputDir, 'index.html'), '<p>Home</p>');
+    await fs.writeFile(path.join(outputDir, 'about', 'index.html'), '<p>About</p>');
+    await fs.writeFile(path.join(outputDir, 'style.css'), 'p { color: red; }');
+});
+
+afterEach(async () => {
+    if (server) {
+        await new Promise(resolve => server.close(resolve));
+        server = null;
+    }
+    await fs.rm(outputDir, { recursive: true, force: true });
+});
+
+// Start a server for the output directory on a free port, and return its URL.
+const startServer = async (baseUrl = '/') => {
+    const env = new FakeEnvironment({ output: outputDir, port: 0, hostname: 'localhost', baseUrl });
+    server = await run(env);
+    return `http://localhost:${(server.address() as AddressInfo).port}`;
+};
+
+describe('resolveOutputPath() tests', () => {
+    test('resolveOutputPath() resolves directory index files and pretty URLs', () => {
+        const env = new FakeEnvironment({ baseUrl: '/' });
+
+        expect(resolveOutputPath(env, outputDir, '/')).toBe(path.join(outputDir, 'index.html'));
+        expect(resolveOutputPath(env, outputDir, '/about/')).toBe(path.join(outputDir, 'about', 'index.html'));
+        expect(resolveOutputPath(env, outputDir, '/about')).toBe(path.join(outputDir, 'about', 'index.html'));
+        expect(resolveOutputPath(env, outputDir, '/style.css')).toBe(path.join(outputDir, 'style.css'));
+        expect(resolveOutputPath(env, outputDir, '/my%20file.txt')).toBe(path.join(outputDir, 'my file.txt'));
+    });
+
+    test('resolveOutputPath() removes the base URL, and returns null for paths outside it', () => {
+        const env = new FakeEnvironment({ baseUrl: '/blog/' });
+
+        expect(resolveOutputPath(env, outputDir, '/blog')).toBe(path.join(outputDir, 'index.html'));
+        expect(resolveOutputPath(env, outputDir, '/blog/about/')).toBe(path.join(outputDir, 'about', 'index.html'));
+        expect(resolveOutputPath(env, outputDir, '/about/')).toBe(null);
+        expect(resolveOutputPath(env, outputDir, '/blogroll/')).toBe(null);
+    });
+
+    test('resolveOutputPath() returns null for paths outside the output directory or which cannot be decoded', () => {
+        const env = new FakeEnvironment({ baseUrl: '/' });
+
+        expect(resolveOutputPath(env, outputDir, '/%2e%2e/secret.txt')).toBe(null);
+        expect(resolveOutputPath(env, outputDir, '/%E0%A4%A.html')).toBe(null);
+    });
+});
+
+describe('run() tests', () => {
+    test('run() throws an error if the output directory does not exist', async () => {
+        const env = new FakeEnvironment({ output: path.join(outputDir, 'missing'), port: 0 });
+
+        await expect(run(env)).rejects.toThrow('does not exist');
+    });
+
+    test('The server serves files from the output directory with their content types', async () => {
+        const url = await startServer();
+
+        const page = await fetch(`${url}/about`);
+        const style = await fetch(`${url}/style.css`);
+
+        expect(page.status).toBe(200);
+        expect(page.headers.get('content-type')).toBe('text/html; charset=UTF_8');
+        expect(await page.text()).toBe('<p>About</p>');
+        expect(style.headers.get('content-type')).toBe('text/css; charset=UTF_8');
+        expect(await style.text()).toBe('p { color: red; }');
+    });
+
+    test('The server honours the base URL', async () => {
+        const url = await startServer('/blog/');
+
+        const inside = await fetch(`${url}/blog/`);
+        const outside = await fetch(`${url}/`);
+
+        expect(await inside.text()).toBe('<p>Home</p>');
+        expect(outside.status).toBe(404);
+    });
+
+    test('The server returns 404 for missing files, and 405 for methods other than GET and HEAD', async () => {
+        const url = await startServer();
+
+        const missing = await fetch(`${url}/missing.html`);
+        const post = await fetch(`${url}/`, { method: 'POST' });
+        const head = await fetch(`${url}/`, { method: 'HEAD' });
+
+        expect(missing.status).toBe(404);
+        expect(post.status).toBe(405);
+        expect(post.headers.get('allow')).toBe('GET, HEAD');
+        expect(head.status).toBe(200);
+        expect(head.headers.get('content-length')).toBe('11');
+    });
+
+    test('The server sends the site\'s 404.html for missing files, if it has one', async () => {
+        await fs.writeFile(path.join(outputDir, '404.html'), '<p>Lost</p>');
+        const url = await startServer();
+
+        const missing = await fetch(`${url}/missing.html`);
+
+        expect(missing.status).toBe(404);
+        expect(missing.headers.get('content-type')).toBe('text/html; charset=UTF_8');
+        expect(await missing.text()).toBe('<p>Lost</p>');
+    });
+});
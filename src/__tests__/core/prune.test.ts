@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import prune from '../../core/prune';
+import { fileExists } from '../../core/utils';
+import { FakeEnvironment } from './fakes/fakeEnvironment';
+
+let outputDir: string;
+
+beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-prune-test-'));
+    for (const filename of ['index.html', 'CNAME', '.git/HEAD', 'articles/kept/index.html', 'articles/renamed/index.html', 'articles/renamed/image.png']) {
+        await fs.mkdir(path.dirname(path.join(outputDir, filename)), { recursive: true });
+        await fs.writeFile(path.join(outputDir, filename), filename);
+    }
+});
+
+afterEach(async () => {
+    await fs.rm(outputDir, { recursive: true, force: true });
+});
+
+const produced = ['index.html', 'articles/kept/index.html'];
+
+describe('prune() tests', () => {
+    test('prune() deletes files which were not produced and returns their names', async () => {
+        const testOutput = await prune(new FakeEnvironment(), outputDir, produced);
+
+        expect(testOutput.sort()).toStrictEqual([path.join('articles', 'renamed', 'image.png'), path.join('articles', 'renamed', 'index.html')]);
+        expect(await fileExists(path.join(outputDir, 'articles', 'renamed', 'index.html'))).toBe(false);
+        expect(await fileExists(path.join(outputDir, 'articles', 'renamed', 'image.png'))).toBe(false);
+    });
+
+    test('prune() does not delete files which were produced', async () => {
+        await prune(new FakeEnvironment(), outputDir, produced);
+
+        expect(await fileExists(path.join(outputDir, 'index.html'))).toBe(true);
+        expect(await fileExists(path.join(outputDir, 'articles', 'kept', 'index.html'))).toBe(true);
+    });
+
+    test('prune() removes directories which it leaves empty', async () => {
+        await prune(new FakeEnvironment(), outputDir, produced);
+
+        expect(await fileExists(path.join(outputDir, 'articles', 'renamed'))).toBe(false);
+        expect(await fileExists(path.join(outputDir, 'articles'))).toBe(true);
+    });
+
+    test('prune() does not delete files which match the default ignore list', async () => {
+        await prune(new FakeEnvironment(), outputDir, produced);
+
+        expect(await fileExists(path.join(outputDir, 'CNAME'))).toBe(true);
+        expect(await fileExists(path.join(outputDir, '.git', 'HEAD'))).toBe(true);
+    });
+
+    test('prune() does not delete files which match config.pruneIgnore', async () => {
+        const testOutput = await prune(new FakeEnvironment({ pruneIgnore: ['**/*.png'] }), outputDir, produced);
+
+        expect(testOutput.sort()).toStrictEqual([path.join('.git', 'HEAD'), 'CNAME', path.join('articles', 'renamed', 'index.html')]);
+        expect(await fileExists(path.join(outputDir, 'articles', 'renamed', 'image.png'))).toBe(true);
+    });
+
+    test('prune() removes directories which it leaves empty if the output directory ends with a separator', async () => {
+        await prune(new FakeEnvironment(), outputDir + path.sep, produced);
+
+        expect(await fileExists(path.join(outputDir, 'articles', 'renamed'))).toBe(false);
+        expect(await fileExists(path.join(outputDir, 'articles'))).toBe(true);
+    });
+
+    test('prune() does not delete the build cache if it is in the output directory', async () => {
+        const buildCache = path.join(outputDir, '.iceforge-cache.json');
+        await fs.writeFile(buildCache, '{}');
+
+        const testOutput = await prune(new FakeEnvironment({ buildCache }), outputDir, produced);
+
+        expect(testOutput).not.toContain('.iceforge-cache.json');
+        expect(await fileExists(buildCache)).toBe(true);
+    });
+
+    test('prune() returns an empty array if the output directory does not exist', async () => {
+        const testOutput = await prune(new FakeEnvironment(), path.join(outputDir, 'missing'), produced);
+
+        expect(testOutput).toStrictEqual([]);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'vitest';
+
+import removeUnpublished, { isDraft, isFutureDated } from '../../core/publishing';
+import ContentTree from '../../core/contentTree';
+import { IContentTree, Indexable } from '../../core/coreTypes';
+import { FakeEnvironment } from './fakes/fakeEnvironment';
+import { FakePlugin } from './fakes/fakePlugin';
+
+// Create a fake plugin with metadata.
+const withMetadata = (filename: string, metadata?: Indexable): FakePlugin => {
+    const plugin = new FakePlugin(filename);
+    if (metadata) {
+        Object.assign(plugin, { metadata });
+    }
+    return plugin;
+};
+
+// A tree containing a published page, a draft, a future-dated page, a future-dated draft and a static file.
+const getTree = (): IContentTree => {
+    const tree = new ContentTree('');
+    tree['published.md'] = withMetadata('published.html', { date: '2024-01-01' });
+    tree['draft.md'] = withMetadata('draft.html', { draft: true });
+    tree['future.md'] = withMetadata('future.html', { date: '2999-01-01' });
+    tree['both.md'] = withMetadata('both.html', { draft: true, date: '2999-01-01' });
+    tree['image.png'] = withMetadata('image.png');
+    return tree as IContentTree;
+};
+
+describe('isDraft() tests', () => {
+    test('isDraft() returns true if the metadata has draft: true', () => {
+        expect(isDraft(withMetadata('a.html', { draft: true }))).toBe(true);
+    });
+
+    test('isDraft() returns false if draft is not true', () => {
+        expect(isDraft(withMetadata('a.html', { draft: 'yes' }))).toBe(false);
+        expect(isDraft(withMetadata('a.html', {}))).toBe(false);
+    });
+
+    test('isDraft() returns false if the item has no metadata', () => {
+        expect(isDraft(withMetadata('a.png'))).toBe(false);
+    });
+});
+
+describe('isFutureDated() tests', () => {
+    const now = new Date('2024-06-01T12:00:00Z');
+
+    test('isFutureDated() returns true if the date in the metadata is later than now', () => {
+        expect(isFutureDated(withMetadata('a.html', { date: '2024-06-01T12:00:01Z' }), now)).toBe(true);
+    });
+
+    test('isFutureDated() returns false if the date in the metadata is not later than now', () => {
+        expect(isFutureDated(withMetadata('a.html', { date: '2024-06-01T12:00:00Z' }), now)).toBe(false);
+        expect(isFutureDated(withMetadata('a.html', { date: new Date('2023-01-01') }), now)).toBe(false);
+    });
+
+    test('isFutureDated() returns false if the item has no date', () => {
+        expect(isFutureDated(withMetadata('a.html', {}), now)).toBe(false);
+        expect(isFutureDated(withMetadata('a.png'), now)).toBe(false);
+    });
+});
+
+describe('removeUnpublished() tests', () => {
+    test('removeUnpublished() removes drafts and future-dated pages in build mode', () => {
+        const env = new FakeEnvironment();
+        env.mode = 'build';
+        const tree = getTree();
+
+        const testOutput = removeUnpublished(env, tree);
+
+        expect(testOutput.map(p => p.filename)).toStrictEqual(['draft.html', 'future.html', 'both.html']);
+        expect(Object.keys(tree)).toStrictEqual(['published.md', 'image.png']);
+    });
+
+    test('removeUnpublished() removes nothing in preview mode', () => {
+        const env = new FakeEnvironment();
+        env.mode = 'preview';
+        const tree = getTree();
+
+        const testOutput = removeUnpublished(env, tree);
+
+        expect(testOutput).toStrictEqual([]);
+        expect(Object.keys(tree).length).toBe(5);
+    });
+
+    test('removeUnpublished() keeps drafts if config.drafts is set', () => {
+        const env = new FakeEnvironment({ drafts: true });
+        const tree = getTree();
+
+        removeUnpublished(env, tree);
+
+        expect(Object.keys(tree)).toStrictEqual(['published.md', 'draft.md', 'image.png']);
+    });
+
+    test('removeUnpublished() keeps future-dated pages if config.future is set', () => {
+        const env = new FakeEnvironment({ future: true });
+        const tree = getTree();
+
+        removeUnpublished(env, tree);
+
+        expect(Object.keys(tree)).toStrictEqual(['published.md', 'future.md', 'image.png']);
+    });
+
+    test('removeUnpublished() keeps future-dated drafts if both config.drafts and config.future are set', () => {
+        const env = new FakeEnvironment({ drafts: true, future: true });
+        const tree = getTree();
+
+        const testOutput = removeUnpublished(env, tree);
+
+        expect(testOutput).toStrictEqual([]);
+    });
+});
@@ -2,7 +2,10 @@ import { afterEach, describe, expect, test, vi } from 'vitest';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 
-import render, { renderView } from '../../core/render';
+import render, { prepareContents, preparedTemplates, renderView } from '../../core/render';
+import BuildCache from '../../core/buildCache';
+import { TemplateTracker } from '../../core/templateDependencies';
+import FakeTemplate from './fakes/fakeTemplate';
 import { FakePlugin } from './fakes/fakePlugin';
 import ContentTree from '../../core/contentTree';
 import { FakeEnvironment } from './fakes/fakeEnvironment';
@@ -120,6 +123,64 @@ describe('renderView() tests', () => {
 
         await expect(async () => await renderView(fakeEnvironment, testContent, testLocals, testTree, testTemplateMap)).rejects.toThrowError();
     });
+
+    test('If a template tracker is passed, it records the templates the view looks up', async () => {
+        const fakeEnvironment = new FakeEnvironment();
+        const testTemplate = new FakeTemplate();
+        const testContent = new FakePlugin('testContent', async (env, locals, tree, templates) => templates['page.pug'] ? Buffer.from('') : null);
+        const testTracker = new TemplateTracker();
+
+        await renderView(fakeEnvironment, testContent, {}, new ContentTree('testRoot'), { 'page.pug': testTemplate, 'other.pug': testTemplate }, testTracker);
+
+        expect([...testTracker.names]).toStrictEqual(['page.pug']);
+    });
+});
+
+describe('prepareContents() tests', () => {
+    test('prepareContents() prepares every item in the content tree', async () => {
+        const testTree = getFakeTree('testRoot');
+        const testTemplateMap = {};
+        const items = ContentTree.flatten(testTree);
+        const spies = items.map(item => vi.spyOn(item, 'prepare'));
+
+        await prepareContents(testTree, testTemplateMap);
+
+        for (const spy of spies) {
+            expect(spy).toHaveBeenCalledWith(testTree, testTemplateMap);
+        }
+    });
+
+    test('renderView() prepares the content tree only once for the same templates', async () => {
+        const fakeEnvironment = new FakeEnvironment();
+        const testContent = new FakePlugin('testContent', vi.fn());
+        const testTree = new ContentTree('testRoot');
+        testTree['testContent'] = testContent;
+        const prepareSpy = vi.spyOn(testContent, 'prepare');
+        const testTemplateMap = {};
+
+        await renderView(fakeEnvironment, testContent, {}, testTree, testTemplateMap);
+        await renderView(fakeEnvironment, testContent, {}, testTree, testTemplateMap);
+        expect(prepareSpy).toHaveBeenCalledTimes(1);
+
+        await renderView(fakeEnvironment, testContent, {}, testTree, {});
+        expect(prepareSpy).toHaveBeenCalledTimes(2);
+    });
+
+    test('preparedTemplates() returns a tracker of the templates used while preparing the content tree', async () => {
+        const testTree = getFakeTree('testRoot');
+        const item = ContentTree.flatten(testTree)[0];
+        vi.spyOn(item, 'prepare').mockImplementation(async (contents, templates) => {
+            void templates['shortcodes/note.pug'];
+        });
+
+        await prepareContents(testTree, {});
+
+        expect(preparedTemplates(testTree).map(tracker => [...tracker.names])).toStrictEqual([['shortcodes/note.pug']]);
+    });
+
+    test('preparedTemplates() returns no trackers for a content tree which has not been prepared', () => {
+        expect(preparedTemplates(new ContentTree('testRoot'))).toStrictEqual([]);
+    });
 });
 
 describe('render() tests', () => {
@@ -202,4 +263,51 @@ describe('render() tests', () => {
             expect(fakeWriteables).toSatisfy((fw: FakeWriteable[]) => fw.some(w => (vi.mocked(w.end).mock.lastCall?.[0] as Buffer).toString() === 'index.md'));
         });
     });
+
+    test('render() records the template files used to render each item in the build cache', async () => {
+        vi.mocked(fs.open).mockImplementation(async () => new FakeFileHandle() as unknown as fs.FileHandle);
+        const tree = getFakeTree('test');
+        const fakeEnvironment = new FakeEnvironment();
+        fakeEnvironment.views.FakeView = (a, b, c, templates) => Promise.resolve(templates['page.pug'] ? Buffer.from('page') : null);
+        const testCache = new BuildCache('cache.json');
+        vi.spyOn(testCache, 'canSkip').mockResolvedValue(false);
+        vi.spyOn(testCache, 'record');
+
+        await render(fakeEnvironment, 'testDir', tree, { 'page.pug': new FakeTemplate() }, {}, testCache);
+
+        expect(testCache.record).toHaveBeenCalledTimes(9);
+        expect(vi.mocked(testCache.record).mock.calls.every(call => call[2] === null)).toBe(true);
+
+        vi.mocked(testCache.record).mockClear();
+        const template = new FakeTemplate();
+        template.dependencies = [path.join(fakeEnvironment.templatesPath, 'layout.pug')];
+        await render(fakeEnvironment, 'testDir', tree, { 'page.pug': template }, {}, testCache);
+
+        expect(vi.mocked(testCache.record).mock.lastCall?.[2]).toStrictEqual(['layout.pug', 'page.pug']);
+    });
+
+    describe('render() returns the files produced...', () => {
+        test('...listing every file written', async () => {
+            vi.mocked(fs.open).mockImplementation(async () => new FakeFileHandle() as unknown as fs.FileHandle);
+            const tree = getFakeTree('test');
+            const fakeEnvironment = new FakeEnvironment();
+            fakeEnvironment.views.FakeView = (a, b, c, d, plugin) => Promise.resolve(Buffer.from(plugin?.__filename || 'no content'));
+
+            const testOutput = await render(fakeEnvironment, 'testDir', tree, {}, {});
+
+            expect(testOutput.written.length).toBe(9);
+            expect(testOutput.written).toContain('index.md');
+            expect(testOutput.unchanged).toStrictEqual([]);
+        });
+
+        test('...not listing items which return no output', async () => {
+            const tree = getFakeTree('test');
+            const fakeEnvironment = new FakeEnvironment();
+            fakeEnvironment.views.FakeView = () => Promise.resolve(null);
+
+            const testOutput = await render(fakeEnvironment, 'testDir', tree, {}, {});
+
+            expect(testOutput).toStrictEqual({ written: [], unchanged: [] });
+        });
+    });
 });
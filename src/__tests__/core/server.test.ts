@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import chokidar, { FSWatcher } from 'chokidar';
+
+import { run } from '../../core/server';
+import Environment from '../../core/environment';
+import { testLogger } from '../testUtils';
+
+vi.mock('chokidar');
+
+// A fake chokidar watcher, which records its listeners so that tests can trigger them.
+type FakeWatcher = {
+    path: string;
+    listeners: Record<string, (...args: string[]) => unknown>;
+    on: (event: string, listener: (...args: string[]) => unknown) => FakeWatcher;
+    close: () => Promise<void>;
+}
+
+let watchers: FakeWatcher[];
+let siteDir: string;
+let server: Server & { destroy?: () => void } = null;
+
+const config = { contents: './contents', templates: './templates', hostname: 'localhost', port: 0, liveReload: false };
+
+beforeEach(async () => {
+    watchers = [];
+    vi.mocked(chokidar.watch).mockImplementation((pathname) => {
+        const watcher: FakeWatcher = {
+            path: pathname as string,
+            listeners: {},
+            on: (event, listener) => {
+                watcher.listeners[event] = listener;
+                return watcher;
+            },
+            close: vi.fn(() => Promise.resolve()),
+        };
+        watchers.push(watcher);
+        return watcher as unknown as FSWatcher;
+    });
+    siteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-server-test-'));
+    await fs.mkdir(path.join(siteDir, 'contents'));
+    await fs.mkdir(path.join(siteDir, 'templates'));
+    await fs.writeFile(path.join(siteDir, 'contents', 'hello.txt'), 'Hello');
+    await fs.writeFile(path.join(siteDir, 'config.json'), JSON.stringify(config));
+});
+
+afterEach(async () => {
+    if (server) {
+        server.destroy();
+        server = null;
+    }
+    vi.restoreAllMocks();
+    await fs.rm(siteDir, { recursive: true, force: true });
+});
+
+// Start a preview server for the test site, and return the environment and the server's URL.
+const startServer = async () => {
+    const env = await Environment.create(path.join(siteDir, 'config.json'), siteDir, testLogger);
+    server = await run(env);
+    return { env, url: `http://localhost:${(server.address() as AddressInfo).port}` };
+};
+
+// Change the config file, and call the config watcher's listener.
+const changeConfig = async (content: string) => {
+    const filename = path.join(siteDir, 'config.json');
+    await fs.writeFile(filename, content);
+    await watchers.find(w => w.path === filename).listeners.change(filename);
+};
+
+describe('run() tests', () => {
+    test('An invalid config edit is logged, and the server keeps running with the previous config', async () => {
+        const { env, url } = await startServer();
+        const errorSpy = vi.spyOn(env.logger, 'error');
+
+        await changeConfig(JSON.stringify({ ...config, prune: 'yes' }));
+        const response = await fetch(`${url}/hello.txt`);
+
+        expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('prune: '));
+        expect(env.config.prune).toBe(false);
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe('Hello');
+    });
+
+    test('A config file which cannot be parsed is logged, and the server keeps running', async () => {
+        const { env, url } = await startServer();
+        const errorSpy = vi.spyOn(env.logger, 'error');
+
+        await changeConfig('{ "port": ');
+        const response = await fetch(`${url}/hello.txt`);
+
+        expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Error reloading config'));
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe('Hello');
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import { expandShortcodes, insertShortcodeOutput, parseArgs } from '../../core/shortcodes';
+import ContentTree from '../../core/contentTree';
+import { FakeEnvironment } from './fakes/fakeEnvironment';
+import { FakePlugin } from './fakes/fakePlugin';
+import FakeTemplate from './fakes/fakeTemplate';
+
+// Expand the shortcodes in some Markdown, and insert the HTML output, to see the Markdown that would be rendered.
+const expandAll = async (env: FakeEnvironment, markdown: string, templates = {}): Promise<string> => {
+    const tree = new ContentTree('');
+    const page = new FakePlugin('page.md', undefined, tree);
+    const expanded = await expandShortcodes(env, page, markdown, tree, templates);
+    return insertShortcodeOutput(expanded.markdown, expanded.outputs);
+};
+
+// Get a fake environment with shortcodes which show their arguments and inner content.
+const getEnv = () => {
+    const env = new FakeEnvironment();
+    env.registerShortcode('show', (env, context) => `<show ${JSON.stringify(context.args)}>${context.inner ?? ''}</show>`);
+    env.registerShortcode('md', (env, context) => `*${context.args[0] ?? ''}*${context.inner ?? ''}`);
+    return env;
+};
+
+describe('parseArgs() tests', () => {
+    test('parseArgs() parses named arguments with double, single or no quotes', () => {
+        expect(parseArgs(' src="a b.jpg" alt=\'An image\' width=200')).toStrictEqual({ src: 'a b.jpg', alt: 'An image', width: '200' });
+    });
+
+    test('parseArgs() indexes positional arguments by position', () => {
+        expect(parseArgs(' "first one" second key=value third')).toStrictEqual({ 0: 'first one', 1: 'second', key: 'value', 2: 'third' });
+    });
+
+    test('parseArgs() returns an empty object if there are no arguments', () => {
+        expect(parseArgs('')).toStrictEqual({});
+    });
+});
+
+describe('expandShortcodes() tests', () => {
+    test('Text without shortcodes is unchanged', async () => {
+        const testOutput = await expandShortcodes(getEnv(), new FakePlugin('page.md'), '# Title\n\nSome {text}.', new ContentTree(''), {});
+
+        expect(testOutput).toStrictEqual({ markdown: '# Title\n\nSome {text}.', outputs: [] });
+    });
+
+    test('HTML shortcodes are replaced with placeholders, and their output is stored', async () => {
+        const testOutput = await expandShortcodes(getEnv(), new FakePlugin('page.md'), 'A {{< show x=1 >}} B', new ContentTree(''), {});
+
+        expect(testOutput.markdown).not.toContain('{{<');
+        expect(testOutput.outputs).toStrictEqual(['<show {"x":"1"}></show>']);
+        expect(insertShortcodeOutput(testOutput.markdown, testOutput.outputs)).toBe('A <show {"x":"1"}></show> B');
+    });
+
+    test('Markdown shortcodes are replaced with their output', async () => {
+        const testOutput = await expandShortcodes(getEnv(), new FakePlugin('page.md'), 'A {{% md hello %}} B', new ContentTree(''), {});
+
+        expect(testOutput).toStrictEqual({ markdown: 'A *hello* B', outputs: [] });
+    });
+
+    test('Paired shortcodes are passed their inner content', async () => {
+        const testOutput = await expandAll(getEnv(), '{{< show >}}inner\n\ntext{{< /show >}}');
+
+        expect(testOutput).toBe('<show {}>inner\n\ntext</show>');
+    });
+
+    test('Shortcodes in inner content are expanded first', async () => {
+        const testOutput = await expandAll(getEnv(), '{{% md %}} {{% md a /%}} {{< show >}}{{% md b /%}}{{< /show >}} {{% /md %}}');
+
+        expect(testOutput).toBe('** *a* <show {}>*b*</show> ');
+    });
+
+    test('Nested paired shortcodes with the same name are matched correctly', async () => {
+        const testOutput = await expandAll(getEnv(), '{{< show a >}}1{{< show b >}}2{{< /show >}}3{{< /show >}}');
+
+        expect(testOutput).toBe('<show {"0":"a"}>1<show {"0":"b"}>2</show>3</show>');
+    });
+
+    test('An opening tag without a closing tag, or a self-closing tag, is a standalone shortcode', async () => {
+        const testOutput = await expandAll(getEnv(), '{{< show a >}} {{< show b />}} {{< show c >}}');
+
+        expect(testOutput).toBe('<show {"0":"a"}></show> <show {"0":"b"}></show> <show {"0":"c"}></show>');
+    });
+
+    test('Shortcodes in code blocks and code spans are not expanded', async () => {
+        const testMarkdown = '```\n{{< show >}}\n```\n\n`{{< show >}}` and ``{{% md %}}``\n\n~~~md\n{{% md %}}\n~~~';
+
+        const testOutput = await expandAll(getEnv(), testMarkdown);
+
+        expect(testOutput).toBe(testMarkdown);
+    });
+
+    test('Escaped shortcodes are output as text', async () => {
+        const testOutput = await expandAll(getEnv(), 'Use {{</* show x="1" */>}} or {{%/* md */%}}');
+
+        expect(testOutput).toBe('Use {{&lt; show x=&quot;1&quot; &gt;}} or {{% md %}}');
+    });
+
+    test('Shortcodes with mismatched delimiters are left unchanged', async () => {
+        const testOutput = await expandAll(getEnv(), 'A {{< show %}} B');
+
+        expect(testOutput).toBe('A {{< show %}} B');
+    });
+
+    test('Shortcodes can be rendered with templates', async () => {
+        const env = getEnv();
+        env.locals = { site: 'Test site' };
+        env.registerShortcode('templated', 'shortcodes/templated.pug');
+        const template = new FakeTemplate();
+        vi.spyOn(template, 'render').mockResolvedValue(Buffer.from('<templated/>'));
+
+        const testOutput = await expandAll(env, '{{< templated a=1 >}}inner{{< /templated >}}', { 'shortcodes/templated.pug': template });
+
+        expect(testOutput).toBe('<templated/>');
+        expect(template.render).toHaveBeenCalledWith(expect.objectContaining({ env, site: 'Test site', name: 'templated', args: { a: '1' }, inner: 'inner' }));
+    });
+
+    test('Throws an error for an unknown shortcode', async () => {
+        await expect(() => expandAll(getEnv(), '{{< missing >}}')).rejects.toThrowError('Unknown shortcode missing');
+    });
+
+    test('Throws an error for a shortcode using an unknown template', async () => {
+        const env = getEnv();
+        env.registerShortcode('templated', 'missing.pug');
+
+        await expect(() => expandAll(env, '{{< templated >}}')).rejects.toThrowError('Shortcode templated uses unknown template missing.pug');
+    });
+
+    test('Throws an error for a closing tag without an opening tag', async () => {
+        await expect(() => expandAll(getEnv(), 'text {{< /show >}}')).rejects.toThrowError('has no opening tag');
+    });
+
+    test('Throws an error if Markdown shortcode output expands forever', async () => {
+        const env = getEnv();
+        env.registerShortcode('recurse', () => '{{% recurse %}}');
+
+        await expect(() => expandAll(env, '{{% recurse %}}')).rejects.toThrowError('nested more than 20 deep');
+    });
+});
+
+describe('insertShortcodeOutput() tests', () => {
+    test('Placeholders in paragraphs of their own are replaced along with the paragraph tags', async () => {
+        const expanded = await expandShortcodes(getEnv(), new FakePlugin('page.md'), '{{< show >}}', new ContentTree(''), {});
+
+        const testOutput = insertShortcodeOutput(`<p>${expanded.markdown}</p>\n<p>Text</p>`, expanded.outputs);
+
+        expect(testOutput).toBe('<show {}></show>\n<p>Text</p>');
+    });
+});
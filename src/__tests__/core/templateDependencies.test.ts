@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'vitest';
+import * as path from 'node:path';
+
+import { TemplateTracker, affectedTemplates, templateFiles } from '../../core/templateDependencies';
+import { TemplateMap } from '../../core/coreTypes';
+import { FakeEnvironment } from './fakes/fakeEnvironment';
+import FakeTemplate from './fakes/fakeTemplate';
+
+const templatesPath = path.resolve('/site/templates');
+
+// Get a fake environment, and templates for a page and an article which include a layout and a partial.  The "unknown"
+// template's dependencies are not known.
+const getTemplates = (): [FakeEnvironment, TemplateMap] => {
+    const env = new FakeEnvironment();
+    env.templatesPath = templatesPath;
+    const templates: TemplateMap = {};
+    for (const name of ['layout.pug', 'page.pug', 'article.pug', 'unknown.njk']) {
+        templates[name] = new FakeTemplate();
+    }
+    templates['layout.pug'].dependencies = [];
+    templates['page.pug'].dependencies = [path.join(templatesPath, 'layout.pug')];
+    templates['article.pug'].dependencies = [path.join(templatesPath, 'layout.pug'), path.join(templatesPath, 'partials', 'byline.pug')];
+    return [env, templates];
+};
+
+describe('TemplateTracker tests', () => {
+    test('track() records the templates looked up in the template map, including missing ones', () => {
+        const [, templates] = getTemplates();
+        const testObject = new TemplateTracker();
+        const tracked = testObject.track(templates);
+
+        const testOutput = [tracked['page.pug'], 'missing.pug' in tracked, tracked['other.pug']];
+
+        expect(testOutput).toStrictEqual([templates['page.pug'], false, undefined]);
+        expect([...testObject.names]).toStrictEqual(['page.pug', 'missing.pug', 'other.pug']);
+        expect(testObject.all).toBe(false);
+    });
+
+    test('track() records that every template could have been used if the template map is enumerated', () => {
+        const [, templates] = getTemplates();
+        const testObject = new TemplateTracker();
+
+        const testOutput = Object.keys(testObject.track(templates));
+
+        expect(testOutput).toStrictEqual(Object.keys(templates));
+        expect(testObject.all).toBe(true);
+    });
+
+    test('track() returns a missing template map unchanged', () => {
+        expect(new TemplateTracker().track(null)).toBe(null);
+    });
+});
+
+describe('templateFiles() tests', () => {
+    test('templateFiles() returns the templates used and their dependencies, relative to the templates directory', () => {
+        const [env, templates] = getTemplates();
+        const tracker1 = new TemplateTracker();
+        tracker1.names.add('article.pug');
+        const tracker2 = new TemplateTracker();
+        tracker2.names.add('page.pug');
+        tracker2.names.add('missing.pug');
+
+        const testOutput = templateFiles(env, templates, [tracker1, tracker2]);
+
+        expect(testOutput).toStrictEqual(['article.pug', 'layout.pug', 'missing.pug', 'page.pug', path.join('partials', 'byline.pug')]);
+    });
+
+    test('templateFiles() returns an empty list if no templates were used', () => {
+        const [env, templates] = getTemplates();
+
+        expect(templateFiles(env, templates, [new TemplateTracker()])).toStrictEqual([]);
+    });
+
+    test('templateFiles() returns null if a template used has unknown dependencies', () => {
+        const [env, templates] = getTemplates();
+        const tracker = new TemplateTracker();
+        tracker.names.add('page.pug');
+        tracker.names.add('unknown.njk');
+
+        expect(templateFiles(env, templates, [tracker])).toBe(null);
+    });
+
+    test('templateFiles() returns null if the template map was enumerated', () => {
+        const [env, templates] = getTemplates();
+        const tracker = new TemplateTracker();
+        tracker.all = true;
+
+        expect(templateFiles(env, templates, [tracker])).toBe(null);
+    });
+});
+
+describe('affectedTemplates() tests', () => {
+    test('affectedTemplates() returns the template loaded from a file, the templates depending on it, and templates with unknown dependencies', () => {
+        const [env, templates] = getTemplates();
+
+        expect(affectedTemplates(env, templates, 'layout.pug')).toStrictEqual(['layout.pug', 'page.pug', 'article.pug', 'unknown.njk']);
+        expect(affectedTemplates(env, templates, path.join('partials', 'byline.pug'))).toStrictEqual(['article.pug', 'unknown.njk']);
+        expect(affectedTemplates(env, templates, 'page.pug')).toStrictEqual(['page.pug', 'unknown.njk']);
+    });
+});
@@ -3,7 +3,7 @@ import { access, constants, readdir, readFile, stat } from 'node:fs/promises';
 import { BigIntStats, Dirent, PathLike, Stats } from 'node:fs';
 import * as path from 'node:path';
 
-import { fileExists, readDirRecursive, readJson, rfc2822, rfc822, stripExtension } from '../../core/utils';
+import { escapeXml, fileExists, normaliseUrl, readDirRecursive, readJson, rfc2822, rfc822, stripExtension } from '../../core/utils';
 
 vi.mock('node:fs/promises');
 
@@ -155,3 +155,31 @@ describe('rfc822() tests', () => {
         expect(testOutput).toBe('Sun, 30 Jun 2024 14:56:32 +0000');
     });
 });
+
+describe('normaliseUrl() tests', () => {
+    test('Appends index.html to URLs ending in a slash', () => {
+        expect(normaliseUrl('/articles/')).toBe('/articles/index.html');
+    });
+
+    test('Appends /index.html to URLs ending in a directory name', () => {
+        expect(normaliseUrl('/articles/first')).toBe('/articles/first/index.html');
+    });
+
+    test('Does not change URLs ending in a file name', () => {
+        expect(normaliseUrl('/articles/first.html')).toBe('/articles/first.html');
+    });
+
+    test('Decodes URLs', () => {
+        expect(normaliseUrl('/some%20file.html')).toBe('/some file.html');
+    });
+});
+
+describe('escapeXml() tests', () => {
+    test('escapeXml() escapes XML special characters', () => {
+        expect(escapeXml('a<b>&"c\'')).toBe('a&lt;b&gt;&amp;&quot;c&apos;');
+    });
+
+    test('escapeXml() leaves other text unchanged', () => {
+        expect(escapeXml('Plain text')).toBe('Plain text');
+    });
+});
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import chokidar, { FSWatcher } from 'chokidar';
+
+import { isIgnored, reloadConfig, run, watchSources } from '../../core/watch';
+import Environment from '../../core/environment';
+import { defaultConfig } from '../../core/config';
+import { FakeEnvironment } from './fakes/fakeEnvironment';
+import { testLogger } from '../testUtils';
+
+vi.mock('chokidar');
+
+// A fake chokidar watcher, which records its listeners so that tests can trigger them.
+type FakeWatcher = {
+    path: string;
+    listeners: Record<string, (...args: string[]) => unknown>;
+    on: (event: string, listener: (...args: string[]) => unknown) => FakeWatcher;
+    close: () => Promise<void>;
+}
+
+let watchers: FakeWatcher[];
+let siteDir: string;
+
+beforeEach(async () => {
+    watchers = [];
+    vi.mocked(chokidar.watch).mockImplementation((pathname) => {
+        const watcher: FakeWatcher = {
+            path: pathname as string,
+            listeners: {},
+            on: (event, listener) => {
+                watcher.listeners[event] = listener;
+                return watcher;
+            },
+            close: vi.fn(() => Promise.resolve()),
+        };
+        watchers.push(watcher);
+        return watcher as unknown as FSWatcher;
+    });
+    siteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-watch-test-'));
+});
+
+afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(siteDir, { recursive: true, force: true });
+});
+
+const writeFiles = async (files: Record<string, string>) => {
+    for (const [filename, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(siteDir, filename)), { recursive: true });
+        await fs.writeFile(path.join(siteDir, filename), content);
+    }
+};
+
+const getWatcher = (pathname: string) => watchers.find(w => w.path === pathname);
+
+// Wait for long enough for a watched build to start and finish.
+const waitForBuild = () => new Promise(resolve => setTimeout(resolve, 500));
+
+describe('watchSources() tests', () => {
+    test('watchSources() only watches the kinds of file which have a handler', () => {
+        const env = new FakeEnvironment({ views: 'views' });
+        env.contentsPath = 'contents';
+        env.templatesPath = 'templates';
+        env.dataPath = 'data';
+
+        watchSources(env, { contents: vi.fn(), data: vi.fn() });
+
+        expect(watchers.map(w => w.path)).toStrictEqual(['contents', 'data']);
+    });
+
+    test('watchSources() calls the handler with the name of the file which changed', () => {
+        const env = new FakeEnvironment({ views: 'views', filename: 'config.json' });
+        env.templatesPath = 'templates';
+        const templatesHandler = vi.fn();
+        const configHandler = vi.fn();
+
+        watchSources(env, { templates: templatesHandler, config: configHandler });
+        getWatcher('templates').listeners.all('change', 'templates/page.pug');
+        getWatcher('config.json').listeners.change('config.json');
+
+        expect(templatesHandler).toHaveBeenCalledWith('templates/page.pug');
+        expect(configHandler).toHaveBeenCalledWith('config.json');
+    });
+
+    test('watchSources() does not watch the views directory or the config file if they are not set', () => {
+        const env = new FakeEnvironment({ views: null, filename: undefined });
+
+        watchSources(env, { views: vi.fn(), config: vi.fn() });
+
+        expect(watchers).toStrictEqual([]);
+    });
+
+    test('watchSources() returns a function which closes the watchers', async () => {
+        const env = new FakeEnvironment();
+        env.contentsPath = 'contents';
+        env.templatesPath = 'templates';
+
+        const close = watchSources(env, { contents: vi.fn(), templates: vi.fn() });
+        await close();
+
+        expect(watchers.every(w => vi.mocked(w.close).mock.calls.length === 1)).toBeTruthy();
+    });
+});
+
+describe('isIgnored() tests', () => {
+    test('isIgnored() checks the file against the ignore patterns', () => {
+        const env = new FakeEnvironment({ ignore: ['**/*.tmp'] });
+
+        expect(isIgnored(env, 'articles/draft.tmp')).toBe(true);
+        expect(isIgnored(env, 'articles/draft.md')).toBe(false);
+    });
+});
+
+describe('reloadConfig() tests', () => {
+    test('reloadConfig() loads the config file again, keeping settings given on the command line', async () => {
+        await writeFiles({ 'config.json': '{ "output": "public", "baseUrl": "/blog/" }' });
+        const env = await Environment.factory({ ...defaultConfig, filename: path.join(siteDir, 'config.json'), output: 'elsewhere', _cliopts: { output: 'elsewhere', _: [] } }, siteDir, testLogger);
+
+        expect(await reloadConfig(env)).toBe(true);
+
+        expect(env.config.baseUrl).toBe('/blog/');
+        expect(env.config.output).toBe('elsewhere');
+        expect(env.config._cliopts).toStrictEqual({ output: 'elsewhere', _: [] });
+    });
+
+    test('reloadConfig() leaves the config unchanged if the file cannot be loaded', async () => {
+        await writeFiles({ 'config.json': '{ "baseUrl": ' });
+        const config = { ...defaultConfig, filename: path.join(siteDir, 'config.json') };
+        const env = await Environment.factory(config, siteDir, testLogger);
+
+        expect(await reloadConfig(env)).toBe(false);
+
+        expect(env.config).toBe(config);
+    });
+});
+
+describe('run() tests', () => {
+    // Create a site with two pages rendered with different templates.
+    const getEnvironment = async () => {
+        await writeFiles({
+            'contents/one.md': '---\ntitle: One\ntemplate: one.pug\n---\nFirst page',
+            'contents/two.md': '---\ntitle: Two\ntemplate: two.pug\n---\nSecond page',
+            'templates/one.pug': 'p one: #{page.title}',
+            'templates/two.pug': 'p two: #{page.title}',
+        });
+        return await Environment.factory({ ...defaultConfig, views: null }, siteDir, testLogger);
+    };
+
+    const readOutput = (filename: string) => fs.readFile(path.join(siteDir, 'build', filename), 'utf-8');
+
+    test('run() builds the site in watch mode, and logs a summary', async () => {
+        const env = await getEnvironment();
+        const info = vi.spyOn(testLogger, 'info');
+
+        const close = await run(env);
+        await close();
+
+        expect(env.mode).toBe('watch');
+        expect(await readOutput('one.html')).toBe('<p>one: One</p>');
+        expect(await readOutput('two.html')).toBe('<p>two: Two</p>');
+        expect(info.mock.calls.some(([message]) => /^Built in .*ms: 2 written, 0 unchanged$/.test(message as unknown as string))).toBeTruthy();
+    });
+
+    test('When a template changes, run() only rewrites the output which used it', async () => {
+        const env = await getEnvironment();
+        const close = await run(env);
+        const info = vi.spyOn(testLogger, 'info');
+        await writeFiles({ 'templates/two.pug': 'p changed: #{page.title}' });
+
+        getWatcher(env.templatesPath).listeners.all('change', path.join(env.templatesPath, 'two.pug'));
+        await waitForBuild();
+        await close();
+
+        expect(await readOutput('one.html')).toBe('<p>one: One</p>');
+        expect(await readOutput('two.html')).toBe('<p>changed: Two</p>');
+        const summary = info.mock.calls.map(([message]) => message as unknown as string).find(m => m.startsWith('Built after'));
+        expect(summary).toMatch(/^Built after changes to templates.two\.pug in .*ms: 1 written, 1 unchanged$/);
+    });
+
+    test('When a content file changes, run() rebuilds the site', async () => {
+        const env = await getEnvironment();
+        const close = await run(env);
+        await writeFiles({ 'contents/three.md': '---\ntitle: Three\ntemplate: one.pug\n---\nThird page' });
+
+        getWatcher(env.contentsPath).listeners.all('add', path.join(env.contentsPath, 'three.md'));
+        await waitForBuild();
+        await close();
+
+        expect(await readOutput('three.html')).toBe('<p>one: Three</p>');
+    });
+
+    test('run() logs build errors and keeps watching', async () => {
+        const env = await getEnvironment();
+        const close = await run(env);
+        const error = vi.spyOn(testLogger, 'error');
+        await writeFiles({ 'templates/one.pug': 'p(' });
+
+        getWatcher(env.templatesPath).listeners.all('change', path.join(env.templatesPath, 'one.pug'));
+        await waitForBuild();
+        await writeFiles({ 'templates/one.pug': 'p fixed: #{page.title}' });
+        getWatcher(env.templatesPath).listeners.all('change', path.join(env.templatesPath, 'one.pug'));
+        await waitForBuild();
+        await close();
+
+        expect(error.mock.calls[0][0]).toMatch(/^Build failed: template one\.pug/);
+        expect(await readOutput('one.html')).toBe('<p>fixed: One</p>');
+    });
+});
@@ -0,0 +1,286 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import registerPlugin, { FeedFile, selectEntries } from '../../plugins/feed';
+import { Page } from '../../plugins/page';
+import ContentTree from '../../core/contentTree';
+import StaticFile from '../../core/staticFile';
+import { IContentTree, Indexable } from '../../core/coreTypes';
+import { FakeEnvironment } from '../core/fakes/fakeEnvironment';
+import { findConfigProblems } from '../../core/configSchema';
+
+const absoluteBaseUrl = 'https://example.com';
+
+// A page whose HTML contains a link relative to the base URL it is rendered with, and an intro.
+class HtmlPage extends Page {
+    getHtml(base: string = this.__env.config.baseUrl): string {
+        return `<p>Intro & <a href="${base}other.html">link</a></p><h2>More</h2>`;
+    }
+}
+
+// Create a page in a content tree.
+const addPage = (env: FakeEnvironment, tree: IContentTree, name: string, metadata: Indexable = {}): Page => {
+    const page = new HtmlPage({ full: `/site/contents/articles/${name}.md`, relative: `articles/${name}.md` }, { template: 'article.pug', ...metadata });
+    page.__env = env;
+    page.__filename = page.filepath.full;
+    page.parent = tree;
+    tree[`${name}.md`] = page;
+    return page;
+};
+
+// Create a tree with three articles, an image, an about page and an author page.
+const getTree = (env: FakeEnvironment): IContentTree => {
+    const tree = new ContentTree('');
+    const articles = new ContentTree('articles');
+    articles.parent = tree;
+    tree['articles'] = articles;
+    addPage(env, articles, 'first', { title: 'First', date: '2024-01-10', author: 'jo', categories: ['News', 'Tips & Tricks'] });
+    addPage(env, articles, 'second', { title: 'Second <b>', date: '2024-03-02', author: 'sam', categories: 'News' });
+    addPage(env, articles, 'third', { title: 'Third', date: '2024-03-20', author: 'jo' });
+    articles['image.png'] = new StaticFile({ full: '/site/contents/articles/image.png', relative: 'articles/image.png' });
+    const about = new HtmlPage({ full: '/site/contents/about.md', relative: 'about.md' }, { title: 'About', template: 'page.pug' });
+    about.__env = env;
+    tree['about.md'] = about;
+    const authors = new ContentTree('authors');
+    authors.parent = tree;
+    tree['authors'] = authors;
+    const jo = new Page({ full: '/site/contents/authors/jo.json', relative: 'authors/jo.json' }, { name: 'Jo Bloggs', email: 'jo@example.com' });
+    authors['jo.json'] = jo;
+    return tree as IContentTree;
+};
+
+// Run the feed generator, and return the feeds it generates.
+const runGenerator = async (env: FakeEnvironment, tree: IContentTree): Promise<Record<string, FeedFile>> => {
+    await registerPlugin(env);
+    const output = await env.generators[0].fn(tree) as Indexable;
+    return output.feeds ?? {};
+};
+
+// Render a feed file.
+const renderFeed = async (env: FakeEnvironment, file: FeedFile): Promise<string> => {
+    file.__env = env;
+    const output = await (file.view as CallableFunction)(env, {}, {}, {});
+    return output.toString();
+};
+
+const titles = (file: FeedFile) => file.feed.entries.map(e => e.page.title);
+
+describe('selectEntries() tests', () => {
+    test('selectEntries() returns the pages below path, newest first', () => {
+        const env = new FakeEnvironment();
+
+        const testOutput = selectEntries(env, { path: 'articles', authorKey: 'author', categoryKey: 'categories' } as never, getTree(env));
+
+        expect(testOutput.map(e => e.page.title)).toStrictEqual(['Third', 'Second <b>', 'First']);
+    });
+
+    test('selectEntries() leaves out pages with feed: false in their metadata', () => {
+        const env = new FakeEnvironment();
+        const tree = getTree(env);
+        addPage(env, tree['articles'] as IContentTree, 'hidden', { title: 'Hidden', feed: false });
+
+        const testOutput = selectEntries(env, { path: 'articles', authorKey: 'author', categoryKey: 'categories' } as never, tree);
+
+        expect(testOutput.map(e => e.page.title)).not.toContain('Hidden');
+    });
+
+    test('selectEntries() looks up authors in the authors directory', () => {
+        const env = new FakeEnvironment();
+
+        const testOutput = selectEntries(env, { path: 'articles', authorKey: 'author', categoryKey: 'categories', authors: 'authors' } as never, getTree(env));
+
+        expect(testOutput[0].authors).toStrictEqual([{ key: 'jo', name: 'Jo Bloggs', email: 'jo@example.com', url: undefined }]);
+        expect(testOutput[1].authors).toStrictEqual([{ key: 'sam', name: 'sam' }]);
+        expect(testOutput[1].categories).toStrictEqual(['News']);
+    });
+});
+
+describe('Generator tests', () => {
+    test('The plugin registers a schema for the feed config section', async () => {
+        const env = new FakeEnvironment({ feed: { content: 'summary', byAuthor: true } });
+
+        await registerPlugin(env);
+
+        expect(findConfigProblems(env.config, env.configSchemas)).toStrictEqual([
+            { level: 'error', key: 'feed.content', message: 'expected one of "full", "intro", but found the string "summary".' }
+        ]);
+    });
+
+    test('The generator generates nothing if config.feed is not set', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl });
+
+        const testOutput = await runGenerator(env, getTree(env));
+
+        expect(testOutput).toStrictEqual({});
+    });
+
+    test('The generator generates nothing if absoluteBaseUrl is not set', async () => {
+        const env = new FakeEnvironment({ feed: true });
+
+        const testOutput = await runGenerator(env, getTree(env));
+
+        expect(testOutput).toStrictEqual({});
+    });
+
+    test('The generator generates feeds in all three formats by default', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, feed: true });
+
+        const testOutput = await runGenerator(env, getTree(env));
+
+        expect(Object.values(testOutput).map(f => f.filename)).toStrictEqual(['feed.xml', 'atom.xml', 'feed.json']);
+        expect(titles(testOutput['rss.feed'])).toStrictEqual(['Third', 'Second <b>', 'First']);
+    });
+
+    test('The generator does not generate formats whose filename is set to false', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, feed: { rss: false, json: 'feeds/all.json' } });
+
+        const testOutput = await runGenerator(env, getTree(env));
+
+        expect(Object.values(testOutput).map(f => f.filename)).toStrictEqual(['atom.xml', 'feeds/all.json']);
+    });
+
+    test('The generator limits the number of entries in each feed', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, feed: { limit: 2 } });
+
+        const testOutput = await runGenerator(env, getTree(env));
+
+        expect(titles(testOutput['atom.feed'])).toStrictEqual(['Third', 'Second <b>']);
+    });
+
+    test('The generator uses the items of a named collection', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, feed: { collection: 'posts' } });
+        const tree = getTree(env);
+        env.getCollection = () => ({ name: 'posts', items: [tree['about.md'] as unknown as Page], pages: [], groups: [] });
+
+        const testOutput = await runGenerator(env, tree);
+
+        expect(titles(testOutput['rss.feed'])).toStrictEqual(['About']);
+    });
+
+    test('The generator generates a set of feeds for each author if byAuthor is set', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, feed: { byAuthor: true, authors: 'authors', title: 'Blog', rss: false, json: false } });
+
+        const testOutput = await runGenerator(env, getTree(env));
+
+        expect(testOutput['authors.jo.atom.feed'].filename).toBe('authors/jo/atom.xml');
+        expect(testOutput['authors.jo.atom.feed'].feed.title).toBe('Blog: Jo Bloggs');
+        expect(titles(testOutput['authors.jo.atom.feed'])).toStrictEqual(['Third', 'First']);
+        expect(titles(testOutput['authors.sam.atom.feed'])).toStrictEqual(['Second <b>']);
+    });
+
+    test('The generator generates a set of feeds for each category in the configured directory if byCategory is set', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, feed: { byCategory: 'topics/%k', title: 'Blog', atom: false, json: false } });
+
+        const testOutput = await runGenerator(env, getTree(env));
+
+        expect(testOutput['categories.tips--tricks.rss.feed'].filename).toBe('topics/tips--tricks/feed.xml');
+        expect(testOutput['categories.tips--tricks.rss.feed'].feed.title).toBe('Blog: Tips & Tricks');
+        expect(titles(testOutput['categories.news.rss.feed'])).toStrictEqual(['Second <b>', 'First']);
+    });
+});
+
+describe('Feed rendering tests', () => {
+    const getFeeds = async (feed: Indexable = {}) => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, baseUrl: '/blog/', feed: { title: 'A & B', description: 'Thoughts', language: 'en', authors: 'authors', ...feed } });
+        return { env, feeds: await runGenerator(env, getTree(env)) };
+    };
+
+    test('The RSS feed contains escaped channel and item data', async () => {
+        const { env, feeds } = await getFeeds();
+
+        const testOutput = await renderFeed(env, feeds['rss.feed']);
+
+        expect(testOutput).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<rss version="2.0"/);
+        expect(testOutput).toContain('<title>A &amp; B</title>');
+        expect(testOutput).toContain('<link>https://example.com/blog/</link>');
+        expect(testOutput).toContain('<atom:link href="https://example.com/blog/feed.xml" rel="self" type="application/rss+xml"/>');
+        expect(testOutput).toContain('<language>en</language>');
+        expect(testOutput).toContain('<title>Second &lt;b&gt;</title>');
+        expect(testOutput).toContain('<guid isPermaLink="true">https://example.com/blog/articles/third.html</guid>');
+        expect(testOutput).toContain('<author>jo@example.com (Jo Bloggs)</author>');
+        expect(testOutput).toContain('<category>Tips &amp; Tricks</category>');
+    });
+
+    test('Feed content is rendered with absolute links', async () => {
+        const { env, feeds } = await getFeeds();
+
+        const testOutput = await renderFeed(env, feeds['rss.feed']);
+
+        expect(testOutput).toContain('<description>&lt;p&gt;Intro &amp; &lt;a href=&quot;https://example.com/blog/other.html&quot;&gt;link&lt;/a&gt;&lt;/p&gt;&lt;h2&gt;More&lt;/h2&gt;</description>');
+    });
+
+    test('Feed content of pages which render their HTML asynchronously is rendered before use', async () => {
+        const { env, feeds } = await getFeeds();
+        const page = feeds['json.feed'].feed.entries[0].page;
+        let rendered = '';
+        page.getHtml = (base: string) => rendered || `unrendered ${base}`;
+        page.renderHtml = async (base: string) => rendered = `<p>Rendered with ${base}</p>`;
+
+        const testOutput = JSON.parse(await renderFeed(env, feeds['json.feed']));
+
+        expect(testOutput.items[0].content_html).toBe('<p>Rendered with https://example.com/blog/</p>');
+    });
+
+    test('Feed content is just the intro if content is set to intro', async () => {
+        const { env, feeds } = await getFeeds({ content: 'intro' });
+
+        const testOutput = await renderFeed(env, feeds['atom.feed']);
+
+        expect(testOutput).toContain('<content type="html">&lt;p&gt;Intro &amp; &lt;a href=&quot;https://example.com/blog/other.html&quot;&gt;link&lt;/a&gt;&lt;/p&gt;</content>');
+    });
+
+    test('The Atom feed contains escaped feed and entry data', async () => {
+        const { env, feeds } = await getFeeds({ author: { name: 'Site Owner', url: 'https://example.com/owner' } });
+
+        const testOutput = await renderFeed(env, feeds['atom.feed']);
+
+        expect(testOutput).toContain('<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">');
+        expect(testOutput).toContain('<subtitle>Thoughts</subtitle>');
+        expect(testOutput).toContain('<link rel="self" type="application/atom+xml" href="https://example.com/blog/atom.xml"/>');
+        expect(testOutput).toContain(`<updated>${new Date('2024-03-20').toISOString()}</updated>`);
+        expect(testOutput).toContain('  <author>\n    <name>Site Owner</name>\n    <uri>https://example.com/owner</uri>\n  </author>');
+        expect(testOutput).toContain('<id>https://example.com/blog/articles/first.html</id>');
+        expect(testOutput).toContain(`<published>${new Date('2024-01-10').toISOString()}</published>`);
+        expect(testOutput).toContain('    <author>\n      <name>Jo Bloggs</name>\n      <email>jo@example.com</email>\n    </author>');
+        expect(testOutput).toContain('<category term="Tips &amp; Tricks"/>');
+    });
+
+    test('The JSON feed follows the JSON Feed 1.1 format', async () => {
+        const { env, feeds } = await getFeeds();
+
+        const testOutput = JSON.parse(await renderFeed(env, feeds['json.feed']));
+
+        expect(testOutput.version).toBe('https://jsonfeed.org/version/1.1');
+        expect(testOutput.title).toBe('A & B');
+        expect(testOutput.home_page_url).toBe('https://example.com/blog/');
+        expect(testOutput.feed_url).toBe('https://example.com/blog/feed.json');
+        expect(testOutput.language).toBe('en');
+        expect(testOutput.items.length).toBe(3);
+        expect(testOutput.items[2]).toStrictEqual({
+            id: 'https://example.com/blog/articles/first.html',
+            url: 'https://example.com/blog/articles/first.html',
+            title: 'First',
+            content_html: '<p>Intro & <a href="https://example.com/blog/other.html">link</a></p><h2>More</h2>',
+            date_published: new Date('2024-01-10').toISOString(),
+            authors: [{ name: 'Jo Bloggs' }],
+            tags: ['News', 'Tips & Tricks'],
+        });
+    });
+
+    test('Feeds use the updated date in page metadata, or the page date if it is not a valid date', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, feed: true });
+        const tree = getTree(env);
+        Object.assign((tree['articles']['third.md'] as Page).metadata, { updated: '2024-04-01' });
+        Object.assign((tree['articles']['second.md'] as Page).metadata, { updated: 'last Tuesday' });
+        const feeds = await runGenerator(env, tree);
+        const warn = vi.spyOn(env.logger, 'warn');
+
+        const atom = await renderFeed(env, feeds['atom.feed']);
+        const json = JSON.parse(await renderFeed(env, feeds['json.feed']));
+
+        expect(atom).toContain(`<updated>${new Date('2024-04-01').toISOString()}</updated>`);
+        expect(atom).toContain(`<updated>${new Date('2024-03-02').toISOString()}</updated>`);
+        expect(json.items[0].date_modified).toBe(new Date('2024-04-01').toISOString());
+        expect(json.items[1].date_modified).toBe(new Date('2024-03-02').toISOString());
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('"last Tuesday" of articles/second.md'));
+    });
+});
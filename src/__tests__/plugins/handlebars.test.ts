@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import registerPlugin, { HandlebarsTemplate } from '../../plugins/handlebars';
+import { FakeEnvironment } from '../core/fakes/fakeEnvironment';
+
+let templatesDir: string;
+
+beforeEach(async () => {
+    templatesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-handlebars-test-'));
+});
+
+afterEach(async () => {
+    await fs.rm(templatesDir, { recursive: true, force: true });
+});
+
+// Write a template file to the templates directory, and return its file path.
+const writeTemplate = async (relative: string, source: string) => {
+    const full = path.join(templatesDir, relative);
+    await fs.mkdir(path.dirname(full), { recursive: true });
+    await fs.writeFile(full, source);
+    return { full, relative };
+};
+
+// Get a fake environment whose templates directory is the test directory.
+const getEnv = (config = {}) => {
+    const env = new FakeEnvironment(config);
+    env.templatesPath = templatesDir;
+    return env;
+};
+
+// Load a template with the plugin registered in an environment, and render it.
+const renderTemplate = async (env: FakeEnvironment, relative: string, source: string, locals = {}) => {
+    await registerPlugin(env);
+    const template = await HandlebarsTemplate.fromFile(await writeTemplate(relative, source));
+    return (await template.render(locals)).toString();
+};
+
+describe('HandlebarsTemplate tests', () => {
+    test('name returns handlebars', async () => {
+        await registerPlugin(getEnv());
+        const testObject = await HandlebarsTemplate.fromFile(await writeTemplate('page.hbs', ''));
+
+        expect(testObject.name).toBe('handlebars');
+    });
+
+    test('render() returns a buffer containing the rendered template', async () => {
+        await registerPlugin(getEnv());
+        const testObject = await HandlebarsTemplate.fromFile(await writeTemplate('page.hbs', '<h1>{{page.title}}</h1>'));
+
+        const testOutput = await testObject.render({ page: { title: 'A & B' } });
+
+        expect(testOutput).toBeInstanceOf(Buffer);
+        expect(testOutput.toString()).toBe('<h1>A &amp; B</h1>');
+    });
+
+    test('Templates can read properties which are getters on a class', async () => {
+        class TestPage {
+            get title() {
+                return 'Title';
+            }
+        }
+
+        const testOutput = await renderTemplate(getEnv(), 'page.hbs', '{{page.title}}', { page: new TestPage() });
+
+        expect(testOutput).toBe('Title');
+    });
+
+    test('Templates in the partials directory are registered as partials, named after their paths', async () => {
+        await writeTemplate('partials/header.hbs', '<header>{{title}}</header>');
+        await writeTemplate('partials/blog/card.hbs', '<div>{{name}}</div>');
+
+        const testOutput = await renderTemplate(getEnv(), 'page.hbs', '{{> header}}{{> blog/card name="Card"}}', { title: 'Title' });
+
+        expect(testOutput).toBe('<header>Title</header><div>Card</div>');
+    });
+
+    test('The dependencies of a template are all of the partials', async () => {
+        await writeTemplate('partials/header.hbs', '<header/>');
+        await writeTemplate('partials/blog/card.hbs', '<div/>');
+        await registerPlugin(getEnv());
+
+        const testOutput = await HandlebarsTemplate.fromFile(await writeTemplate('page.hbs', '{{> header}}'));
+
+        expect(testOutput.dependencies.sort()).toStrictEqual([path.join(templatesDir, 'partials', 'blog', 'card.hbs'), path.join(templatesDir, 'partials', 'header.hbs')]);
+    });
+
+    test('The partials directory can be set in the handlebars config section', async () => {
+        await writeTemplate('shared/footer.hbs', '<footer/>');
+
+        const testOutput = await renderTemplate(getEnv({ handlebars: { partials: 'shared' } }), 'page.hbs', '{{> footer}}');
+
+        expect(testOutput).toBe('<footer/>');
+    });
+
+    test('Templates can be loaded if there is no partials directory', async () => {
+        const testOutput = await renderTemplate(getEnv(), 'page.hbs', 'Text');
+
+        expect(testOutput).toBe('Text');
+    });
+
+    test('The rest of the handlebars config section is passed to the compiler', async () => {
+        const testOutput = await renderTemplate(getEnv({ handlebars: { partials: 'partials', noEscape: true } }), 'page.hbs', '{{html}}', { html: '<b>Bold</b>' });
+
+        expect(testOutput).toBe('<b>Bold</b>');
+    });
+
+    test('Templates can use functions in the helpers object as helpers', async () => {
+        const env = getEnv();
+        env.helpers = { shout: (value: string) => value.toUpperCase(), name: 'Not a helper' };
+
+        const testOutput = await renderTemplate(env, 'page.hbs', '{{shout "hello"}}');
+
+        expect(testOutput).toBe('HELLO');
+    });
+
+    test('Templates can use helpers registered by plugins, which replace those in the helpers object', async () => {
+        const env = getEnv();
+        env.helpers = { shout: (value: string) => value.toUpperCase() };
+        env.registerHandlebarsHelper('shout', (value: string) => `${value.toUpperCase()}!`);
+        env.registerHandlebarsHelper('list', function (items: string[], options) {
+            return items.map(item => options.fn(item)).join(',');
+        });
+
+        const testOutput = await renderTemplate(env, 'page.hbs', '{{shout "hi"}} {{#list items}}<{{this}}>{{/list}}', { items: ['a', 'b'] });
+
+        expect(testOutput).toBe('HI! <a>,<b>');
+    });
+
+    test('fromFile() throws an error if the template has a syntax error', async () => {
+        await registerPlugin(getEnv());
+        const testFilepath = await writeTemplate('page.hbs', '{{#if}}');
+
+        await expect(() => HandlebarsTemplate.fromFile(testFilepath)).rejects.toThrowError();
+    });
+
+    test('render() throws an error if a partial is missing', async () => {
+        await registerPlugin(getEnv());
+        const testObject = await HandlebarsTemplate.fromFile(await writeTemplate('page.hbs', '{{> missing}}'));
+
+        await expect(() => testObject.render({})).rejects.toThrowError('The partial missing could not be found');
+    });
+
+    test('In preview mode, changes to partials are picked up when templates are loaded again', async () => {
+        const env = getEnv();
+        env.mode = 'preview';
+        await writeTemplate('partials/header.hbs', 'Old');
+        await renderTemplate(env, 'page.hbs', '{{> header}}');
+        await writeTemplate('partials/header.hbs', 'New');
+
+        const testObject = await HandlebarsTemplate.fromFile({ full: path.join(templatesDir, 'page.hbs'), relative: 'page.hbs' });
+
+        expect((await testObject.render({})).toString()).toBe('New');
+    });
+
+    test('Registering the plugin again uses the new environment', async () => {
+        await renderTemplate(getEnv(), 'first.hbs', '');
+        const env = getEnv();
+        env.registerHandlebarsHelper('double', (value: string) => value + value);
+
+        const testOutput = await renderTemplate(env, 'second.hbs', '{{double "a"}}');
+
+        expect(testOutput).toBe('aa');
+    });
+});
+
+describe('Plugin registration tests', () => {
+    test('Plugin registration calls environment.registerTemplatePlugin() with correct arguments', async () => {
+        const fakeEnvironment = new FakeEnvironment();
+        vi.spyOn(fakeEnvironment, 'registerTemplatePlugin');
+
+        await registerPlugin(fakeEnvironment);
+
+        expect(fakeEnvironment.registerTemplatePlugin).toHaveBeenCalledOnce();
+        expect(fakeEnvironment.registerTemplatePlugin).toHaveBeenLastCalledWith('**/*.hbs', HandlebarsTemplate);
+    });
+
+    test('Plugin registration registers the handlebars config schema', async () => {
+        const fakeEnvironment = new FakeEnvironment();
+
+        await registerPlugin(fakeEnvironment);
+
+        expect(fakeEnvironment.configSchemas.handlebars).toStrictEqual({ type: 'object' });
+    });
+});
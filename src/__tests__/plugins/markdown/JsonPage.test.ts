@@ -4,7 +4,7 @@ import { Marked, MarkedExtension } from 'marked';
 import { markedHighlight } from 'marked-highlight';
 import { mangle } from 'marked-mangle';
 import { markedSmartypants } from 'marked-smartypants';
-import { gfmHeadingId } from 'marked-gfm-heading-id';
+import { headingIds } from '../../../core/headingIds';
 
 import { JsonPage } from '../../../plugins/markdown';
 import Environment from '../../../core/environment';
@@ -17,7 +17,7 @@ vi.mock('marked');
 vi.mock('marked-highlight');
 vi.mock('marked-mangle');
 vi.mock('marked-smartypants');
-vi.mock('marked-gfm-heading-id');
+vi.mock('../../../core/headingIds');
 
 vi.mock('../../../core/utils', async (imp) => {
     const orig = await imp<typeof import('../../../core/utils')>();
@@ -180,7 +180,7 @@ describe('JsonPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment();
@@ -203,7 +203,7 @@ describe('JsonPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -254,7 +254,7 @@ describe('JsonPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -278,7 +278,7 @@ describe('JsonPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -331,7 +331,7 @@ describe('JsonPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment();
@@ -354,7 +354,7 @@ describe('JsonPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -405,7 +405,7 @@ describe('JsonPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -429,7 +429,7 @@ describe('JsonPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -482,7 +482,7 @@ describe('JsonPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment();
@@ -506,7 +506,7 @@ describe('JsonPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -558,7 +558,7 @@ describe('JsonPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -583,7 +583,7 @@ describe('JsonPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -639,7 +639,7 @@ describe('JsonPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment();
@@ -663,7 +663,7 @@ describe('JsonPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -787,7 +787,7 @@ describe('JsonPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -812,7 +812,7 @@ describe('JsonPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -938,7 +938,7 @@ describe('JsonPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment();
@@ -962,7 +962,7 @@ describe('JsonPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -1086,7 +1086,7 @@ describe('JsonPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -1111,7 +1111,7 @@ describe('JsonPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -1237,7 +1237,7 @@ describe('JsonPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment();
@@ -1261,7 +1261,7 @@ describe('JsonPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -1386,7 +1386,7 @@ describe('JsonPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -1411,7 +1411,7 @@ describe('JsonPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -1539,7 +1539,7 @@ describe('JsonPage tests', () => {
                 const mockTypographer = vi.fn() as MarkedExtension;
                 vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                 const mockHeadingExtension = vi.fn() as MarkedExtension;
-                vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                 const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                 const testMetadata = {};
                 const fakeEnvironment = new FakeEnvironment();
@@ -1565,7 +1565,7 @@ describe('JsonPage tests', () => {
                     expect(call[3]).toBe(mockTypographer);
                     expect(call[4]).toBe(mockHeadingExtension);
                 }
-                expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                expect(headingIds).toHaveBeenLastCalledWith({
                     prefix: 'iceforge-'
                 });
             });
@@ -1692,7 +1692,7 @@ describe('JsonPage tests', () => {
                 const mockTypographer = vi.fn() as MarkedExtension;
                 vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                 const mockHeadingExtension = vi.fn() as MarkedExtension;
-                vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                 const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                 const testMetadata = {};
                 const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -1719,7 +1719,7 @@ describe('JsonPage tests', () => {
                     expect(call[3]).toBe(mockTypographer);
                     expect(call[4]).toBe(mockHeadingExtension);
                 }
-                expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                expect(headingIds).toHaveBeenLastCalledWith({
                     prefix: 'iceforge-'
                 });
             });
@@ -1,6 +1,8 @@
 import { describe, expect, test } from 'vitest';
 import { FakeEnvironment } from '../../core/fakes/fakeEnvironment';
 import { MarkdownPage } from '../../../plugins/markdown';
+import ContentTree from '../../../core/contentTree';
+import registerShortcodes from '../../../plugins/shortcodes';
 
 describe('MarkdownPage integration tests', () => {
     describe('getHtml() tests', () => {
@@ -19,4 +21,135 @@ describe('MarkdownPage integration tests', () => {
             expect(testOutput).toMatchSnapshot();
         });
     });
+
+    describe('toc tests', () => {
+        const testMarkdown = '# Title\n\n[[toc]]\n\n## First *part*\n\n### Detail\n\n## Second part\n\n`[[toc]]`';
+
+        test('toc returns the headings with the IDs used in the HTML', () => {
+            const testObject = new MarkdownPage({ full: '/www/content/file.md', relative: 'file.md' }, {}, testMarkdown);
+            testObject.__env = new FakeEnvironment();
+
+            const testOutput = testObject.toc;
+
+            expect(testOutput).toStrictEqual([
+                { level: 1, text: 'Title', id: 'iceforge-title', children: [
+                    { level: 2, text: 'First part', id: 'iceforge-first-part', children: [
+                        { level: 3, text: 'Detail', id: 'iceforge-detail', children: [] },
+                    ] },
+                    { level: 2, text: 'Second part', id: 'iceforge-second-part', children: [] },
+                ] },
+            ]);
+            expect(testObject.getHtml('/')).toContain('<h2 id="iceforge-first-part">First <em>part</em></h2>');
+        });
+
+        test('The [[toc]] marker is replaced with the table of contents, except in code', () => {
+            const testObject = new MarkdownPage({ full: '/www/content/file.md', relative: 'file.md' }, {}, testMarkdown);
+            testObject.__env = new FakeEnvironment({ markdown: { headingIdPrefix: '', toc: { minLevel: 2, maxLevel: 2 } } });
+
+            const testOutput = testObject.getHtml('/');
+
+            expect(testOutput).toContain('<nav class="toc"><ul><li><a href="#first-part">First part</a></li><li><a href="#second-part">Second part</a></li></ul></nav>\n');
+            expect(testOutput).toContain('<code>[[toc]]</code>');
+        });
+    });
+
+    describe('Asynchronous rendering tests', () => {
+        test('Pages using asynchronous extensions are rendered by renderHtml()', async () => {
+            const fakeEnvironment = new FakeEnvironment();
+            fakeEnvironment.registerMarkdownExtension('slow', {
+                async: true,
+                walkTokens: async (token) => {
+                    if (token.type === 'text') {
+                        await new Promise(resolve => setTimeout(resolve, 1));
+                        token.text = token.text.toUpperCase();
+                    }
+                }
+            });
+            const testObject = new MarkdownPage({ full: '/www/content/file.md', relative: 'file.md' }, {}, '## Heading\n\n[[toc]]\n\nSome text');
+            testObject.__env = fakeEnvironment;
+
+            const testOutput = await testObject.renderHtml('/');
+
+            expect(testOutput).toBe('<h2 id="iceforge-heading">HEADING</h2>\n<nav class="toc"><ul><li><a href="#iceforge-heading">HEADING</a></li></ul></nav>\n<p>SOME TEXT</p>\n');
+            expect(testObject.getHtml('/')).toBe(testOutput);
+        });
+
+        test('Pages rendered at the same time get the same heading IDs as when they are rendered alone', async () => {
+            const fakeEnvironment = new FakeEnvironment();
+            fakeEnvironment.registerMarkdownExtension('slow', {
+                async: true,
+                walkTokens: async () => {
+                    await new Promise(resolve => setTimeout(resolve, 1));
+                }
+            });
+            const testObjects = ['a.md', 'b.md'].map((filename) => {
+                const testObject = new MarkdownPage({ full: `/www/content/${filename}`, relative: filename }, {}, '# Intro\n\n[[toc]]\n\n## Intro');
+                testObject.__env = fakeEnvironment;
+                return testObject;
+            });
+
+            const testOutputs = await Promise.all(testObjects.map(testObject => testObject.renderHtml('/')));
+
+            for (const testOutput of testOutputs) {
+                expect(testOutput).toBe('<h1 id="iceforge-intro">Intro</h1>\n' +
+                    '<nav class="toc"><ul><li><a href="#iceforge-intro">Intro</a><ul><li><a href="#iceforge-intro-1">Intro</a></li></ul></li></ul></nav>\n' +
+                    '<h2 id="iceforge-intro-1">Intro</h2>\n');
+            }
+        });
+
+        test('Turning off the headingId extension leaves the page without a table of contents', () => {
+            const testObject = new MarkdownPage({ full: '/www/content/file.md', relative: 'file.md' }, { markdownExtensions: { headingId: false } }, '# Title');
+            testObject.__env = new FakeEnvironment();
+
+            expect(testObject.toc).toStrictEqual([]);
+        });
+    });
+
+    describe('prepare() tests', () => {
+        const getPage = async (markdown: string) => {
+            const fakeEnvironment = new FakeEnvironment();
+            await registerShortcodes(fakeEnvironment);
+            const testObject = new MarkdownPage({ full: '/www/content/file.md', relative: 'file.md' }, {}, markdown);
+            testObject.__env = fakeEnvironment;
+            return testObject;
+        };
+
+        test('Shortcodes are left unexpanded if the page has not been prepared', async () => {
+            const testObject = await getPage('{{< youtube abc >}}');
+
+            expect(testObject.getHtml('/')).toBe('<p>{{< youtube abc >}}</p>\n');
+        });
+
+        test('HTML shortcode output is inserted without being wrapped in a paragraph', async () => {
+            const testObject = await getPage('Text\n\n{{< figure src="https://example.com/a.jpg" caption="A *caption*" >}}\n\nMore text');
+
+            await testObject.prepare(new ContentTree(''), {});
+            const testOutput = testObject.getHtml('/');
+
+            expect(testOutput).toBe('<p>Text</p>\n<figure><img src="https://example.com/a.jpg" alt=""/><figcaption>A *caption*</figcaption></figure>\n<p>More text</p>\n');
+        });
+
+        test('Markdown shortcode output is rendered as Markdown', async () => {
+            const testObject = await getPage('{{% callout warning %}}Some *emphasis*{{% /callout %}}');
+
+            await testObject.prepare(new ContentTree(''), {});
+            const testOutput = testObject.getHtml('/');
+
+            expect(testOutput).toBe('<div class="callout callout-warning">\n\n<p>Some <em>emphasis</em></p>\n</div>');
+        });
+
+        test('prepare() renders the page\'s HTML', async () => {
+            const testObject = await getPage('Some text');
+
+            await testObject.prepare(new ContentTree(''), {});
+
+            expect(testObject.htmlCache).toStrictEqual({ '/': '<p>Some text</p>\n' });
+        });
+
+        test('Errors are prefixed with the page filename', async () => {
+            const testObject = await getPage('{{< missing >}}');
+
+            await expect(() => testObject.prepare(new ContentTree(''), {})).rejects.toThrowError('file.md: Unknown shortcode missing');
+        });
+    });
 });
@@ -1,13 +1,13 @@
 import { afterEach, beforeAll, describe, expect, test, vi } from 'vitest';
 import * as path from 'node:path';
-import { readFile } from 'node:fs/promises';
+import { readFile, readdir } from 'node:fs/promises';
 import { Marked, MarkedExtension } from 'marked';
 import { markedHighlight } from 'marked-highlight';
 import { mangle } from 'marked-mangle';
 import { markedSmartypants } from 'marked-smartypants';
-import { gfmHeadingId } from 'marked-gfm-heading-id';
+import { headingIds } from '../../../core/headingIds';
 
-import registerPlugin, { MarkdownPage, JsonPage, linkRenderer, imageRenderer } from '../../../plugins/markdown';
+import registerPlugin, { MarkdownPage, JsonPage, linkRenderer, imageRenderer, buildToc, extractHeadings, renderToc } from '../../../plugins/markdown';
 import Environment from '../../../core/environment';
 import { defaultConfig } from '../../../core/config';
 import { testLogger } from '../../testUtils';
@@ -20,11 +20,12 @@ vi.mock('marked');
 vi.mock('marked-highlight');
 vi.mock('marked-mangle');
 vi.mock('marked-smartypants');
-vi.mock('marked-gfm-heading-id');
+vi.mock('../../../core/headingIds');
 
 beforeAll(() => {
     Marked.prototype.parse = vi.fn(() => '' as string & Promise<string>);
     vi.mocked(readFile).mockImplementation(async () => Buffer.from(''));
+    vi.mocked(readdir).mockImplementation(async () => []);
 });
 
 afterEach(() => {
@@ -176,7 +177,7 @@ describe('MarkdownPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment();
@@ -199,7 +200,7 @@ describe('MarkdownPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -250,7 +251,7 @@ describe('MarkdownPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -274,7 +275,7 @@ describe('MarkdownPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -327,7 +328,7 @@ describe('MarkdownPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment();
@@ -350,7 +351,7 @@ describe('MarkdownPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -401,7 +402,7 @@ describe('MarkdownPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -425,7 +426,7 @@ describe('MarkdownPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -478,7 +479,7 @@ describe('MarkdownPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment();
@@ -502,7 +503,7 @@ describe('MarkdownPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -554,7 +555,7 @@ describe('MarkdownPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -579,7 +580,7 @@ describe('MarkdownPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -624,6 +625,175 @@ describe('MarkdownPage tests', () => {
         });
     });
 
+    describe('toc tests', () => {
+        const testHtml = '<h1 id="iceforge-title">Title</h1>\n<h2 id="iceforge-first">First</h2>\n<h3 id="iceforge-detail">Detail</h3>\n'
+            + '<p>Text</p>\n<h2 id="iceforge-second">Second</h2>\n';
+
+        test('toc returns the headings of the page, nested by level', () => {
+            vi.mocked(Marked).mockImplementation(() => ({ parse: vi.fn(() => testHtml) }) as unknown as Marked);
+            const testObject = new MarkdownPage({ full: '/www/content/file.page', relative: 'content/index.html' }, {}, '');
+            testObject.__env = new FakeEnvironment();
+
+            const testOutput = testObject.toc;
+
+            expect(testOutput).toStrictEqual([
+                { level: 1, text: 'Title', id: 'iceforge-title', children: [
+                    { level: 2, text: 'First', id: 'iceforge-first', children: [
+                        { level: 3, text: 'Detail', id: 'iceforge-detail', children: [] },
+                    ] },
+                    { level: 2, text: 'Second', id: 'iceforge-second', children: [] },
+                ] },
+            ]);
+        });
+
+        test('toc uses the range of levels from the Markdown config', () => {
+            vi.mocked(Marked).mockImplementation(() => ({ parse: vi.fn(() => testHtml) }) as unknown as Marked);
+            const testObject = new MarkdownPage({ full: '/www/content/file.page', relative: 'content/index.html' }, {}, '');
+            testObject.__env = new FakeEnvironment({ markdown: { toc: { minLevel: 2, maxLevel: 2 } } });
+
+            const testOutput = testObject.toc;
+
+            expect(testOutput.map(e => e.id)).toStrictEqual(['iceforge-first', 'iceforge-second']);
+        });
+
+        test('The headingIdPrefix and toc settings are used, and not passed to Marked', () => {
+            const testObject = new MarkdownPage({ full: '/www/content/file.page', relative: 'content/index.html' }, {}, '');
+            testObject.__env = new FakeEnvironment({ markdown: { someSetting: 'value', headingIdPrefix: 'h-', toc: { minLevel: 2 } } });
+
+            testObject.getHtml('/testBase');
+
+            expect(headingIds).toHaveBeenLastCalledWith({ prefix: 'h-' });
+            expect(vi.mocked(Marked).mock.lastCall?.[0]).toEqual({
+                someSetting: 'value',
+                renderer: { link: expect.any(Function), image: expect.any(Function) },
+                useNewRenderer: true
+            });
+        });
+    });
+
+    describe('renderHtml() tests', () => {
+        const getTestObject = () => {
+            const testObject = new MarkdownPage({ full: '/www/content/file.page', relative: 'content/file.page' }, {}, '# Title');
+            testObject.__env = new FakeEnvironment();
+            return testObject;
+        };
+
+        test('renderHtml() waits for asynchronous rendering, and caches the result for getHtml()', async () => {
+            const mockMarked = { parse: vi.fn(() => Promise.resolve('<h1 id="iceforge-title">Title</h1>\n')) };
+            vi.mocked(Marked).mockImplementation(() => mockMarked as unknown as Marked);
+            const testObject = getTestObject();
+
+            const testOutput = await testObject.renderHtml('/testBase/');
+
+            expect(testOutput).toBe('<h1 id="iceforge-title">Title</h1>\n');
+            expect(testObject.getHtml('/testBase/')).toBe(testOutput);
+            expect(testObject.toc.map(e => e.id)).toStrictEqual(['iceforge-title']);
+            expect(mockMarked.parse).toHaveBeenCalledOnce();
+        });
+
+        test('renderHtml() returns HTML already rendered for the same base URL', async () => {
+            const mockMarked = { parse: vi.fn(() => '<p>Rendered</p>') };
+            vi.mocked(Marked).mockImplementation(() => mockMarked as unknown as Marked);
+            const testObject = getTestObject();
+            testObject.getHtml('/testBase/');
+
+            const testOutput = await testObject.renderHtml('/testBase/');
+
+            expect(testOutput).toBe('<p>Rendered</p>');
+            expect(mockMarked.parse).toHaveBeenCalledOnce();
+        });
+
+        test('getHtml() throws an error if rendering is asynchronous and renderHtml() has not been called', () => {
+            const mockMarked = { parse: vi.fn(() => Promise.resolve('<p>Rendered</p>')) };
+            vi.mocked(Marked).mockImplementation(() => mockMarked as unknown as Marked);
+            const testObject = getTestObject();
+
+            expect(() => testObject.getHtml('/testBase/')).toThrowError('content/file.page: the page uses asynchronous Markdown extensions');
+        });
+    });
+
+    describe('Markdown extension tests', () => {
+        const mockHighlighter = { name: 'highlight' } as MarkedExtension;
+        const mockMangler = { name: 'mangle' } as MarkedExtension;
+        const mockTypographer = { name: 'smartypants' } as MarkedExtension;
+        const mockHeadingExtension = { name: 'headingId' } as MarkedExtension;
+
+        // Render a page and return the extensions passed to Marked.
+        const getExtensionsUsed = (fakeEnvironment: FakeEnvironment, testMetadata = {}) => {
+            vi.mocked(markedHighlight).mockReturnValue(mockHighlighter);
+            vi.mocked(mangle).mockReturnValue(mockMangler);
+            vi.mocked(markedSmartypants).mockReturnValue(mockTypographer);
+            vi.mocked(headingIds).mockReturnValue(mockHeadingExtension);
+            vi.mocked(Marked).mockImplementation(() => ({ parse: vi.fn(() => '') }) as unknown as Marked);
+            const testObject = new MarkdownPage({ full: '/www/content/file.page', relative: 'content/index.html' }, testMetadata, '');
+            testObject.__env = fakeEnvironment;
+            testObject.getHtml('/testBase');
+            return vi.mocked(Marked).mock.lastCall?.slice(1);
+        };
+
+        test('Registered extensions are used after the built-in extensions, in registration order', () => {
+            const fakeEnvironment = new FakeEnvironment();
+            const testExtension1 = { gfm: true };
+            const testExtension2 = { breaks: true };
+            fakeEnvironment.registerMarkdownExtension('one', testExtension1);
+            fakeEnvironment.registerMarkdownExtension('two', testExtension2);
+
+            const testOutput = getExtensionsUsed(fakeEnvironment);
+
+            expect(testOutput).toStrictEqual([mockHighlighter, mockMangler, mockTypographer, mockHeadingExtension, testExtension1, testExtension2]);
+        });
+
+        test('Extension functions are called with the page to create the extension', () => {
+            const fakeEnvironment = new FakeEnvironment();
+            const testExtension = { gfm: true };
+            const testFunction = vi.fn(() => testExtension);
+            fakeEnvironment.registerMarkdownExtension('one', testFunction);
+
+            const testOutput = getExtensionsUsed(fakeEnvironment);
+
+            expect(testOutput?.[4]).toBe(testExtension);
+            expect(testFunction).toHaveBeenCalledWith(expect.any(MarkdownPage));
+        });
+
+        test('Registered extensions with the name of a built-in extension replace it', () => {
+            const fakeEnvironment = new FakeEnvironment();
+            const testExtension = { gfm: true };
+            fakeEnvironment.registerMarkdownExtension('smartypants', testExtension);
+
+            const testOutput = getExtensionsUsed(fakeEnvironment);
+
+            expect(testOutput).toStrictEqual([mockHighlighter, mockMangler, testExtension, mockHeadingExtension]);
+        });
+
+        test('Extensions can be turned off in the config, and on or off in page metadata', () => {
+            const fakeEnvironment = new FakeEnvironment({ markdown: { enable: { smartypants: false, one: true } } });
+            const testExtension1 = { gfm: true };
+            const testExtension2 = { breaks: true };
+            fakeEnvironment.registerMarkdownExtension('one', testExtension1, false);
+            fakeEnvironment.registerMarkdownExtension('two', testExtension2, false);
+
+            expect(getExtensionsUsed(fakeEnvironment)).toStrictEqual([mockHighlighter, mockMangler, mockHeadingExtension, testExtension1]);
+            expect(getExtensionsUsed(fakeEnvironment, { markdownExtensions: { smartypants: true, one: false, two: true } }))
+                .toStrictEqual([mockHighlighter, mockMangler, mockTypographer, mockHeadingExtension, testExtension2]);
+        });
+
+        test('The enable setting is not passed to Marked', () => {
+            const fakeEnvironment = new FakeEnvironment({ markdown: { enable: { smartypants: false }, use: [] } });
+
+            getExtensionsUsed(fakeEnvironment);
+
+            expect(vi.mocked(Marked).mock.lastCall?.[0]).toEqual({
+                renderer: { link: expect.any(Function), image: expect.any(Function) },
+                useNewRenderer: true
+            });
+        });
+
+        test('Turning unknown extensions on or off throws an error', () => {
+            expect(() => getExtensionsUsed(new FakeEnvironment(), { markdownExtensions: { footnote: true } }))
+                .toThrowError('content/index.html: unknown Markdown extension footnote');
+        });
+    });
+
     describe('getIntro() and intro tests', () => {
         describe('When getIntro() is called with parameter...', () => {
             describe('...and Markdown config is not set...', () => {
@@ -635,7 +805,7 @@ describe('MarkdownPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment();
@@ -659,7 +829,7 @@ describe('MarkdownPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -783,7 +953,7 @@ describe('MarkdownPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -808,7 +978,7 @@ describe('MarkdownPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -934,7 +1104,7 @@ describe('MarkdownPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment();
@@ -958,7 +1128,7 @@ describe('MarkdownPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -1082,7 +1252,7 @@ describe('MarkdownPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -1107,7 +1277,7 @@ describe('MarkdownPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -1233,7 +1403,7 @@ describe('MarkdownPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment();
@@ -1257,7 +1427,7 @@ describe('MarkdownPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -1382,7 +1552,7 @@ describe('MarkdownPage tests', () => {
                     const mockTypographer = vi.fn() as MarkedExtension;
                     vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                     const mockHeadingExtension = vi.fn() as MarkedExtension;
-                    vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                    vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                     const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                     const testMetadata = {};
                     const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -1407,7 +1577,7 @@ describe('MarkdownPage tests', () => {
                     expect(vi.mocked(Marked).mock.lastCall?.[2]).toBe(mockMangler);
                     expect(vi.mocked(Marked).mock.lastCall?.[3]).toBe(mockTypographer);
                     expect(vi.mocked(Marked).mock.lastCall?.[4]).toBe(mockHeadingExtension);
-                    expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                    expect(headingIds).toHaveBeenLastCalledWith({
                         prefix: 'iceforge-'
                     });
                 });
@@ -1535,7 +1705,7 @@ describe('MarkdownPage tests', () => {
                 const mockTypographer = vi.fn() as MarkedExtension;
                 vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                 const mockHeadingExtension = vi.fn() as MarkedExtension;
-                vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                 const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                 const testMetadata = {};
                 const fakeEnvironment = new FakeEnvironment();
@@ -1561,7 +1731,7 @@ describe('MarkdownPage tests', () => {
                     expect(call[3]).toBe(mockTypographer);
                     expect(call[4]).toBe(mockHeadingExtension);
                 }
-                expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                expect(headingIds).toHaveBeenLastCalledWith({
                     prefix: 'iceforge-'
                 });
             });
@@ -1688,7 +1858,7 @@ describe('MarkdownPage tests', () => {
                 const mockTypographer = vi.fn() as MarkedExtension;
                 vi.mocked(markedSmartypants).mockImplementation(() => mockTypographer);
                 const mockHeadingExtension = vi.fn() as MarkedExtension;
-                vi.mocked(gfmHeadingId).mockImplementation(() => mockHeadingExtension);
+                vi.mocked(headingIds).mockImplementation(() => mockHeadingExtension);
                 const testFilepath = { full: '/www/content/file.page', relative: 'content/index.html' };
                 const testMetadata = {};
                 const fakeEnvironment = new FakeEnvironment({ markdown: { someSetting: 'value' }});
@@ -1715,7 +1885,7 @@ describe('MarkdownPage tests', () => {
                     expect(call[3]).toBe(mockTypographer);
                     expect(call[4]).toBe(mockHeadingExtension);
                 }
-                expect(gfmHeadingId).toHaveBeenLastCalledWith({
+                expect(headingIds).toHaveBeenLastCalledWith({
                     prefix: 'iceforge-'
                 });
             });
@@ -2920,6 +3090,39 @@ describe('Plugin registration tests', () => {
 
         expect(fakeEnvironment.registerContentPlugin).toHaveBeenCalledWith('pages', '**/*.json', JsonPage);
     });
+
+    test('Registration function loads and registers the extensions in the use setting of the Markdown config', async () => {
+        const testExtension = { gfm: true };
+        const testFactory = vi.fn(() => testExtension);
+        const fakeEnvironment = new FakeEnvironment({ markdown: { use: [
+            'marked-footnote',
+            { module: './lib/emoji.js', export: 'emoji', options: { emojis: {} }, enabled: false },
+            { module: 'custom-extension', name: 'custom' },
+        ] } });
+        vi.spyOn(fakeEnvironment, 'loadModule').mockImplementation(async (module: string) => ({
+            'marked-footnote': { default: testFactory },
+            './lib/emoji.js': { emoji: testFactory },
+            'custom-extension': { default: testExtension },
+        })[module]);
+
+        await registerPlugin(fakeEnvironment);
+
+        expect(fakeEnvironment.markdownExtensions).toStrictEqual([
+            { name: 'footnote', extension: expect.any(Function), enabled: true },
+            { name: 'emoji', extension: expect.any(Function), enabled: false },
+            { name: 'custom', extension: testExtension, enabled: true },
+        ]);
+        const factory = fakeEnvironment.markdownExtensions[1].extension as () => MarkedExtension;
+        expect(factory()).toBe(testExtension);
+        expect(testFactory).toHaveBeenLastCalledWith({ emojis: {} });
+    });
+
+    test('Registration function throws an error if an extension module does not have the export', async () => {
+        const fakeEnvironment = new FakeEnvironment({ markdown: { use: [{ module: 'marked-emoji', export: 'markedEmoji' }] } });
+        vi.spyOn(fakeEnvironment, 'loadModule').mockResolvedValue({ default: {} });
+
+        await expect(() => registerPlugin(fakeEnvironment)).rejects.toThrowError('Error loading Markdown extension \'marked-emoji\': the module has no export named markedEmoji');
+    });
 });
 
 describe('linkRenderer() tests', () => {
@@ -3106,7 +3309,7 @@ describe('linkRenderer() tests', () => {
         expect(testOutput).toMatch(/<a [^>]*href="#somewhere"[^>]*>.*<\/a>/);
     });
 
-    describe('Returns link pointing to URL of an item in the content tree...', () => {
+    describe('Returns link pointing to URL of an item in the content tree, resolved against the second parameter...', () => {
         test('...if the third parameter is the filename of an item in the same node of the tree as the first parmeter', () => {
             const expectedOutput = '/finaltarget';
             const rootTree = new ContentTree('testDir');
@@ -3122,7 +3325,7 @@ describe('linkRenderer() tests', () => {
 
             const testOutput = linkRenderer(fakeMarkdownPage, testBaseUrl, testHref, testTitle, testText);
 
-            expect(testOutput).toMatch(/<a [^>]*href="\/finaltarget" [^>]*>.*<\/a>/);
+            expect(testOutput).toMatch(/<a [^>]*href="https:\/\/example.com\/finaltarget" [^>]*>.*<\/a>/);
         });
 
         test('...if the third parameter is the filename of an item in an ancestral node of the tree compared to the first parameter', () => {
@@ -3143,7 +3346,7 @@ describe('linkRenderer() tests', () => {
 
             const testOutput = linkRenderer(fakeMarkdownPage, testBaseUrl, testHref, testTitle, testText);
 
-            expect(testOutput).toMatch(/<a [^>]*href="\/finaltarget" [^>]*>.*<\/a>/);
+            expect(testOutput).toMatch(/<a [^>]*href="https:\/\/example.com\/finaltarget" [^>]*>.*<\/a>/);
         });
 
         test('...if the third parameter is the filename of an item in a descendent node of the tree compared to the node containing the first parameter', () => {
@@ -3164,7 +3367,7 @@ describe('linkRenderer() tests', () => {
 
             const testOutput = linkRenderer(fakeMarkdownPage, testBaseUrl, testHref, testTitle, testText);
 
-            expect(testOutput).toMatch(/<a [^>]*href="\/finaltarget" [^>]*>.*<\/a>/);
+            expect(testOutput).toMatch(/<a [^>]*href="https:\/\/example.com\/finaltarget" [^>]*>.*<\/a>/);
         });
 
         test('...if the third parameter is the filename of an item in a "cousin" node of the tree compared to the node containing the first parameter', () => {
@@ -3188,7 +3391,25 @@ describe('linkRenderer() tests', () => {
 
             const testOutput = linkRenderer(fakeMarkdownPage, testBaseUrl, testHref, testTitle, testText);
 
-            expect(testOutput).toMatch(/<a [^>]*href="\/finaltarget" [^>]*>.*<\/a>/);
+            expect(testOutput).toMatch(/<a [^>]*href="https:\/\/example.com\/finaltarget" [^>]*>.*<\/a>/);
+        });
+
+        test('...which is the URL of the item unchanged if the second parameter is a relative URL', () => {
+            const expectedOutput = '/finaltarget';
+            const rootTree = new ContentTree('testDir');
+            const fakeMarkdownPage = getFakeMarkdownPage();
+            fakeMarkdownPage.parent = rootTree;
+            rootTree['test.file'] = fakeMarkdownPage;
+            const targetPlugin = new FakePlugin('target.file', undefined, rootTree, expectedOutput);
+            rootTree['target.file'] = targetPlugin;
+            const testBaseUrl = '/testBase';
+            const testHref = 'target.file#anchor';
+            const testTitle = 'Title of the test link';
+            const testText = 'Content to display as text in the page';
+
+            const testOutput = linkRenderer(fakeMarkdownPage, testBaseUrl, testHref, testTitle, testText);
+
+            expect(testOutput).toMatch(/<a [^>]*href="\/finaltarget#anchor" [^>]*>.*<\/a>/);
         });
     });
 
@@ -3376,7 +3597,7 @@ describe('imageRenderer() tests', () => {
         expect(testOutput).toMatch(/<img [^>]*src="#onThePage"[^>]*\/>/);
     });
 
-    describe('Returns img element pointing to URL of an item in the content tree...', () => {
+    describe('Returns img element pointing to URL of an item in the content tree, resolved against the second parameter...', () => {
         test('...if the third parameter is the filename of an item in the same node of the tree as the first parmeter', () => {
             const expectedOutput = '/finaltarget';
             const rootTree = new ContentTree('testDir');
@@ -3391,7 +3612,7 @@ describe('imageRenderer() tests', () => {
 
             const testOutput = imageRenderer(fakePlugin, testBaseUrl, testHref, testTitle, testText);
 
-            expect(testOutput).toMatch(/<img [^>]*src="\/finaltarget"[^>]*\/>/);
+            expect(testOutput).toMatch(/<img [^>]*src="https:\/\/example.com\/finaltarget"[^>]*\/>/);
         });
 
         test('...if the third parameter is the filename of an item in an ancestral node of the tree compared to the first parameter', () => {
@@ -3411,7 +3632,7 @@ describe('imageRenderer() tests', () => {
 
             const testOutput = imageRenderer(fakePlugin, testBaseUrl, testHref, testTitle, testText);
 
-            expect(testOutput).toMatch(/<img [^>]*src="\/finaltarget"[^>]*\/>/);
+            expect(testOutput).toMatch(/<img [^>]*src="https:\/\/example.com\/finaltarget"[^>]*\/>/);
         });
 
         test('...if the third parameter is the filename of an item in a descendent node of the tree compared to the node containing the first parameter', () => {
@@ -3431,7 +3652,7 @@ describe('imageRenderer() tests', () => {
 
             const testOutput = imageRenderer(fakePlugin, testBaseUrl, testHref, testTitle, testText);
 
-            expect(testOutput).toMatch(/<img [^>]*src="\/finaltarget"[^>]*\/>/);
+            expect(testOutput).toMatch(/<img [^>]*src="https:\/\/example.com\/finaltarget"[^>]*\/>/);
         });
 
         test('...if the third parameter is the filename of an item in a "cousin" node of the tree compared to the node containing the first parameter', () => {
@@ -3454,7 +3675,7 @@ describe('imageRenderer() tests', () => {
 
             const testOutput = imageRenderer(fakePlugin, testBaseUrl, testHref, testTitle, testText);
 
-            expect(testOutput).toMatch(/<img [^>]*src="\/finaltarget"[^>]*\/>/);
+            expect(testOutput).toMatch(/<img [^>]*src="https:\/\/example.com\/finaltarget"[^>]*\/>/);
         });
     });
 
@@ -3472,3 +3693,60 @@ describe('imageRenderer() tests', () => {
         expect(testOutput).toMatch(/<img [^>]*src="https:\/\/example.com\/target.file"[^>]*\/>/);
     });
 });
+
+describe('buildToc() tests', () => {
+    test('buildToc() nests headings under the closest preceding heading of a higher level', () => {
+        const testHeadings = [
+            { level: 3, text: 'A', raw: 'A', id: 'a' },
+            { level: 2, text: 'B', raw: 'B', id: 'b' },
+            { level: 4, text: 'C', raw: 'C', id: 'c' },
+            { level: 3, text: 'D', raw: 'D', id: 'd' },
+        ];
+
+        const testOutput = buildToc(testHeadings);
+
+        expect(testOutput).toStrictEqual([
+            { level: 3, text: 'A', id: 'a', children: [] },
+            { level: 2, text: 'B', id: 'b', children: [
+                { level: 4, text: 'C', id: 'c', children: [] },
+                { level: 3, text: 'D', id: 'd', children: [] },
+            ] },
+        ]);
+    });
+
+    test('buildToc() uses the text of headings without markup', () => {
+        const testOutput = buildToc([{ level: 2, text: 'Some <em>text</em>', raw: 'Some text', id: 'some-text' }]);
+
+        expect(testOutput[0].text).toBe('Some text');
+    });
+});
+
+describe('renderToc() tests', () => {
+    test('renderToc() renders nested lists of links', () => {
+        const testToc = [
+            { level: 2, text: 'A & B', id: 'a--b', children: [{ level: 3, text: 'C', id: 'c', children: [] }] },
+            { level: 2, text: 'D', id: 'd', children: [] },
+        ];
+
+        const testOutput = renderToc(testToc);
+
+        expect(testOutput).toBe('<ul><li><a href="#a--b">A &amp; B</a><ul><li><a href="#c">C</a></li></ul></li><li><a href="#d">D</a></li></ul>');
+    });
+
+    test('renderToc() renders an empty table of contents as an empty string', () => {
+        expect(renderToc([])).toBe('');
+    });
+});
+
+describe('extractHeadings() tests', () => {
+    test('extractHeadings() returns the headings with IDs, with their text without markup', () => {
+        const testHtml = '<h1>No ID</h1>\n<h2 id="a">Some <em>text</em> &amp; more</h2>\n<p>Text</p>\n<h3 id="b">&quot;Quoted&#39; &#x3C;tag&#x3E;</h3>\n';
+
+        const testOutput = extractHeadings(testHtml);
+
+        expect(testOutput).toStrictEqual([
+            { level: 2, text: 'Some <em>text</em> &amp; more', raw: 'Some text & more', id: 'a' },
+            { level: 3, text: '&quot;Quoted&#39; &#x3C;tag&#x3E;', raw: '"Quoted\' <tag>', id: 'b' },
+        ]);
+    });
+});
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import registerPlugin, { NunjucksTemplate } from '../../plugins/nunjucks';
+import { FakeEnvironment } from '../core/fakes/fakeEnvironment';
+
+let templatesDir: string;
+
+beforeEach(async () => {
+    templatesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iceforge-nunjucks-test-'));
+});
+
+afterEach(async () => {
+    await fs.rm(templatesDir, { recursive: true, force: true });
+});
+
+// Write a template file to the templates directory, and return its file path.
+const writeTemplate = async (relative: string, source: string) => {
+    const full = path.join(templatesDir, relative);
+    await fs.mkdir(path.dirname(full), { recursive: true });
+    await fs.writeFile(full, source);
+    return { full, relative };
+};
+
+// Get a fake environment whose templates directory is the test directory.
+const getEnv = (config = {}) => {
+    const env = new FakeEnvironment(config);
+    env.templatesPath = templatesDir;
+    return env;
+};
+
+// Load a template with the plugin registered in an environment, and render it.
+const renderTemplate = async (env: FakeEnvironment, relative: string, source: string, locals = {}) => {
+    await registerPlugin(env);
+    const template = await NunjucksTemplate.fromFile(await writeTemplate(relative, source));
+    return (await template.render(locals)).toString();
+};
+
+describe('NunjucksTemplate tests', () => {
+    test('name returns nunjucks', async () => {
+        await registerPlugin(getEnv());
+        const testObject = await NunjucksTemplate.fromFile(await writeTemplate('page.njk', ''));
+
+        expect(testObject.name).toBe('nunjucks');
+    });
+
+    test('render() returns a buffer containing the rendered template', async () => {
+        await registerPlugin(getEnv());
+        const testObject = await NunjucksTemplate.fromFile(await writeTemplate('page.njk', '<h1>{{ page.title }}</h1>'));
+
+        const testOutput = await testObject.render({ page: { title: 'A & B' } });
+
+        expect(testOutput).toBeInstanceOf(Buffer);
+        expect(testOutput.toString()).toBe('<h1>A &amp; B</h1>');
+    });
+
+    test('Templates can extend templates in the templates directory', async () => {
+        await writeTemplate('layouts/base.njk', '<title>{% block title %}Site{% endblock %}</title><main>{% block content %}{% endblock %}</main>');
+
+        const testOutput = await renderTemplate(getEnv(), 'article.njk',
+            '{% extends "layouts/base.njk" %}{% block title %}{{ title }} - {{ super() }}{% endblock %}{% block content %}Text{% endblock %}',
+            { title: 'Article' });
+
+        expect(testOutput).toBe('<title>Article - Site</title><main>Text</main>');
+    });
+
+    test('Templates can include templates in the templates directory', async () => {
+        await writeTemplate('partials/header.njk', '<header>{{ title }}</header>');
+
+        const testOutput = await renderTemplate(getEnv(), 'page.njk', '{% include "partials/header.njk" %}<p>Body</p>', { title: 'Title' });
+
+        expect(testOutput).toBe('<header>Title</header><p>Body</p>');
+    });
+
+    test('The nunjucks config section is passed to the Nunjucks environment', async () => {
+        const testOutput = await renderTemplate(getEnv({ nunjucks: { autoescape: false } }), 'page.njk', '{{ html }}', { html: '<b>Bold</b>' });
+
+        expect(testOutput).toBe('<b>Bold</b>');
+    });
+
+    test('Templates can use filters registered by plugins', async () => {
+        const env = getEnv();
+        env.registerNunjucksFilter('shout', (value: string, suffix = '!') => `${value.toUpperCase()}${suffix}`);
+
+        const testOutput = await renderTemplate(env, 'page.njk', '{{ "hello" | shout }} {{ "bye" | shout("?") }}');
+
+        expect(testOutput).toBe('HELLO! BYE?');
+    });
+
+    test('Templates can use asynchronous filters registered by plugins', async () => {
+        const env = getEnv();
+        env.registerNunjucksFilter('later', (value: string, callback: (error: Error, result: string) => void) => {
+            setTimeout(() => callback(null, `${value} later`), 0);
+        }, true);
+
+        const testOutput = await renderTemplate(env, 'page.njk', '{{ "now" | later }}');
+
+        expect(testOutput).toBe('now later');
+    });
+
+    test('fromFile() throws an error if the template does not compile', async () => {
+        await registerPlugin(getEnv());
+        const testFilepath = await writeTemplate('page.njk', '{% if %}');
+
+        await expect(() => NunjucksTemplate.fromFile(testFilepath)).rejects.toThrowError();
+    });
+
+    test('render() rejects if rendering fails', async () => {
+        await registerPlugin(getEnv());
+        const testObject = await NunjucksTemplate.fromFile(await writeTemplate('page.njk', '{% include "missing.njk" %}'));
+
+        await expect(() => testObject.render({})).rejects.toThrowError('template not found');
+    });
+
+    test('Registering the plugin again uses the new environment', async () => {
+        await renderTemplate(getEnv(), 'first.njk', '');
+        const env = getEnv();
+        env.registerNunjucksFilter('double', (value: string) => value + value);
+
+        const testOutput = await renderTemplate(env, 'second.njk', '{{ "a" | double }}');
+
+        expect(testOutput).toBe('aa');
+    });
+});
+
+describe('Plugin registration tests', () => {
+    test('Plugin registration calls environment.registerTemplatePlugin() with correct arguments', async () => {
+        const fakeEnvironment = new FakeEnvironment();
+        vi.spyOn(fakeEnvironment, 'registerTemplatePlugin');
+
+        await registerPlugin(fakeEnvironment);
+
+        expect(fakeEnvironment.registerTemplatePlugin).toHaveBeenCalledOnce();
+        expect(fakeEnvironment.registerTemplatePlugin).toHaveBeenLastCalledWith('**/*.njk', NunjucksTemplate);
+    });
+
+    test('Plugin registration registers the nunjucks config schema', async () => {
+        const fakeEnvironment = new FakeEnvironment();
+
+        await registerPlugin(fakeEnvironment);
+
+        expect(fakeEnvironment.configSchemas.nunjucks).toStrictEqual({ type: 'object' });
+    });
+});
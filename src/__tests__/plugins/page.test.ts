@@ -803,6 +803,15 @@ describe('Page tests', () => {
             expect(() => testObject.getHtml(testBase)).toThrowError();
         });
 
+        test('renderHtml() returns the result of getHtml() by default', async () => {
+            const testObject = new Page({ full: '/www/content/file.page', relative: 'content/file.page' }, {});
+            testObject.__env = new FakeEnvironment({ baseUrl: '/testBase/' });
+            testObject.getHtml = vi.fn((base: string) => `<p>${base}</p>`);
+
+            expect(await testObject.renderHtml()).toBe('<p>/testBase/</p>');
+            expect(await testObject.renderHtml('/other/')).toBe('<p>/other/</p>');
+        });
+
         test('html throws error', () => {
             const testFilepath = { full: '/www/content/file.page', relative: 'content/file.page' };
             const testMetadata = {};
@@ -1020,6 +1029,27 @@ describe('Template view function tests', () => {
         expect(testResult?.[0].someLocalsKey).toBe('value');
     });
 
+    test('templateView() waits for pages which render their HTML asynchronously to render it', async () => {
+        class AsyncPage extends Page {
+            rendered = false;
+
+            async renderHtml() {
+                await new Promise(resolve => setTimeout(resolve, 1));
+                this.rendered = true;
+                return '<p>Rendered</p>';
+            }
+        }
+        const testTemplate = new FakeTemplate();
+        const fakeEnvironment = new FakeEnvironment({ defaultTemplate: undefined });
+        const testContent = new AsyncPage({ full: '/www/content/file.page', relative: 'content/file.page' }, { template: 'testTemplate' });
+        testContent.__env = fakeEnvironment;
+        testTemplate.render = vi.fn(() => Promise.resolve(Buffer.from(String(testContent.rendered))));
+
+        const testOutput = await templateView(fakeEnvironment, {}, new ContentTree('testDir'), { testTemplate }, testContent);
+
+        expect((testOutput as Buffer).toString()).toBe('true');
+    });
+
     test('templateView() returns value returned by render function', async () => {
         const expectedOutput = 'This is the rendered content';
         const testTemplate = new FakeTemplate();
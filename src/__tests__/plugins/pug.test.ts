@@ -1,4 +1,4 @@
-import { afterEach, describe, expect, test, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 
 import registerPlugin, { PugTemplate } from '../../plugins/pug';
 import { readFile } from 'fs/promises';
@@ -8,6 +8,10 @@ import { FakeEnvironment } from '../core/fakes/fakeEnvironment';
 vi.mock('node:fs/promises');
 vi.mock('pug');
 
+beforeEach(() => {
+    vi.mocked(compile).mockReturnValue(vi.fn());
+});
+
 afterEach(() => {
     vi.resetAllMocks();
 });
@@ -112,6 +116,18 @@ describe('PugTemplate tests', () => {
 
         expect(testOutput.template).toBe(expectedResult);
     });
+
+    test('fromFile() sets the dependencies to the files the compiled template includes or extends', async () => {
+        const testFilepath = { full: '/www/templates/testTemplate', relative: 'templates/testTemplate' };
+        vi.mocked(readFile).mockImplementation(async () => Buffer.from('The template content'));
+        const compiled = Object.assign(vi.fn(), { dependencies: ['/www/templates/layout.pug'] });
+        vi.mocked(compile).mockReturnValue(compiled);
+        await registerPlugin(new FakeEnvironment);
+
+        const testOutput = await PugTemplate.fromFile(testFilepath);
+
+        expect(testOutput.dependencies).toStrictEqual(['/www/templates/layout.pug']);
+    });
 });
 
 describe('Plugin registration tests', () => {
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { readFile } from 'node:fs/promises';
+
+import registerPlugin, { callout, figure, include, youtube } from '../../plugins/shortcodes';
+import { MarkdownPage } from '../../plugins/markdown';
+import ContentTree from '../../core/contentTree';
+import StaticFile from '../../core/staticFile';
+import { ShortcodeContext } from '../../core/shortcodes';
+import { IContentTree } from '../../core/coreTypes';
+import { FakeEnvironment } from '../core/fakes/fakeEnvironment';
+
+vi.mock('node:fs/promises');
+
+afterEach(() => {
+    vi.resetAllMocks();
+});
+
+// Create a tree containing articles/page.md, articles/other.md and snippet.html.
+const getTree = (env: FakeEnvironment): IContentTree => {
+    const tree = new ContentTree('');
+    const articles = new ContentTree('articles');
+    articles.parent = tree;
+    tree['articles'] = articles;
+    for (const name of ['page', 'other']) {
+        const page = new MarkdownPage({ full: `/site/contents/articles/${name}.md`, relative: `articles/${name}.md` }, {}, `# The ${name} page`);
+        page.__env = env;
+        page.parent = articles;
+        articles[`${name}.md`] = page;
+    }
+    const snippet = new StaticFile({ full: '/site/contents/snippet.html', relative: 'snippet.html' });
+    snippet.__filename = snippet.filepath.full;
+    snippet.parent = tree;
+    tree['snippet.html'] = snippet;
+    return tree;
+};
+
+// Get the context for a shortcode in articles/page.md.
+const getContext = (name: string, args: Record<string, string>, inner: string = null): [FakeEnvironment, ShortcodeContext] => {
+    const env = new FakeEnvironment();
+    env.config.baseUrl = '/';
+    const contents = getTree(env);
+    const page = (contents['articles'] as IContentTree)['page.md'] as MarkdownPage;
+    return [env, { name, args, inner, page, contents, templates: {} }];
+};
+
+describe('Shortcodes plugin tests', () => {
+    test('registerPlugin() registers the built-in shortcodes', async () => {
+        const env = new FakeEnvironment();
+
+        await registerPlugin(env);
+
+        expect(env.shortcodes).toStrictEqual({
+            figure: { name: 'figure', handler: figure },
+            youtube: { name: 'youtube', handler: youtube },
+            callout: { name: 'callout', handler: callout },
+            include: { name: 'include', handler: include },
+        });
+    });
+
+    describe('figure tests', () => {
+        test('figure outputs an image with a caption', () => {
+            const testOutput = figure(...getContext('figure', { src: 'https://example.com/a.jpg', alt: 'A & B', caption: '<Caption>' }));
+
+            expect(testOutput).toBe('<figure><img src="https://example.com/a.jpg" alt="A &amp; B"/><figcaption>&lt;Caption&gt;</figcaption></figure>');
+        });
+
+        test('figure accepts the source as a positional argument, and sets the title and class', () => {
+            const testOutput = figure(...getContext('figure', { 0: 'https://example.com/a.jpg', title: 'Title', class: 'wide' }));
+
+            expect(testOutput).toBe('<figure class="wide"><img src="https://example.com/a.jpg" alt="" title="Title"/></figure>');
+        });
+
+        test('figure resolves links to content in the same way as Markdown links', () => {
+            const testOutput = figure(...getContext('figure', { src: '/snippet.html' }));
+
+            expect(testOutput).toBe('<figure><img src="/snippet.html" alt=""/></figure>');
+        });
+
+        test('figure throws an error if there is no source', () => {
+            expect(() => figure(...getContext('figure', { alt: 'Alt' }))).toThrowError('Shortcode figure requires a src argument');
+        });
+    });
+
+    describe('youtube tests', () => {
+        test('youtube outputs a thumbnail linked to the video', () => {
+            const testOutput = youtube(...getContext('youtube', { 0: 'dQw4w9WgXcQ', title: 'A video' }));
+
+            expect(testOutput).toBe('<a class="youtube" href="https://www.youtube.com/watch?v=dQw4w9WgXcQ" title="A video">'
+                + '<img src="https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg" alt="A video" loading="lazy"/></a>');
+        });
+
+        test('youtube throws an error for an invalid video ID', () => {
+            expect(() => youtube(...getContext('youtube', { id: 'abc"><script>' }))).toThrowError('Invalid YouTube video ID');
+        });
+    });
+
+    describe('callout tests', () => {
+        test('callout wraps its inner content in a note by default', () => {
+            const testOutput = callout(...getContext('callout', {}, 'Some *text*'));
+
+            expect(testOutput).toBe('<div class="callout callout-note">\n\nSome *text*\n\n</div>');
+        });
+
+        test('callout sets the type and title', () => {
+            const testOutput = callout(...getContext('callout', { type: 'warning', title: 'Be careful' }, 'Text'));
+
+            expect(testOutput).toBe('<div class="callout callout-warning">\n<p class="callout-title">Be careful</p>\n\nText\n\n</div>');
+        });
+    });
+
+    describe('include tests', () => {
+        test('include returns the Markdown of a Markdown page, relative to the page', async () => {
+            const testOutput = await include(...getContext('include', { 0: 'other.md' }));
+
+            expect(testOutput).toBe('# The other page');
+        });
+
+        test('include reads other files, relative to the contents directory', async () => {
+            vi.mocked(readFile).mockResolvedValue(Buffer.from('<p>Snippet</p>'));
+
+            const testOutput = await include(...getContext('include', { file: '/snippet.html' }));
+
+            expect(testOutput).toBe('<p>Snippet</p>');
+            expect(readFile).toHaveBeenCalledWith('/site/contents/snippet.html');
+        });
+
+        test('include throws an error if the file is not found', async () => {
+            await expect(() => include(...getContext('include', { file: 'missing.md' }))).rejects.toThrowError('Included file missing.md not found');
+        });
+    });
+});
@@ -0,0 +1,242 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { stat } from 'node:fs/promises';
+import { Stats } from 'node:fs';
+
+import registerPlugin, { SitemapFile } from '../../plugins/sitemap';
+import { Page } from '../../plugins/page';
+import ContentTree from '../../core/contentTree';
+import StaticFile from '../../core/staticFile';
+import { IContentTree, Indexable } from '../../core/coreTypes';
+import { FakeEnvironment } from '../core/fakes/fakeEnvironment';
+import { findConfigProblems } from '../../core/configSchema';
+
+vi.mock('node:fs/promises');
+
+afterEach(() => {
+    vi.resetAllMocks();
+});
+
+const absoluteBaseUrl = 'https://example.com';
+
+// Create a page in a content tree.
+const addPage = (env: FakeEnvironment, tree: IContentTree, name: string, metadata: Indexable = {}): Page => {
+    const page = new Page({ full: `/site/contents/${name}.md`, relative: `${name}.md` }, { template: 'page.pug', ...metadata });
+    page.__env = env;
+    page.__filename = page.filepath.full;
+    page.parent = tree;
+    tree[`${name}.md`] = page;
+    return page;
+};
+
+// Create a tree of pages called a, b, c... and an image.
+const getTree = (env: FakeEnvironment, pageCount = 3): IContentTree => {
+    const tree = new ContentTree('');
+    for (let i = 0; i < pageCount; ++i) {
+        addPage(env, tree, String.fromCharCode(97 + i), { date: `2024-05-0${i + 1}` });
+    }
+    const image = new StaticFile({ full: '/site/contents/image.png', relative: 'image.png' });
+    image.parent = tree;
+    tree['image.png'] = image;
+    return tree;
+};
+
+// Run the sitemap generator, and return the tree it generates.
+const runGenerator = async (env: FakeEnvironment, tree: IContentTree): Promise<Indexable> => {
+    await registerPlugin(env);
+    return await env.generators[0].fn(tree);
+};
+
+// Render a sitemap file against a content tree.
+const renderSitemap = async (env: FakeEnvironment, file: SitemapFile, tree: IContentTree): Promise<string> => {
+    file.__env = env;
+    const output = await (file.view as CallableFunction)(env, {}, tree, {});
+    return output.toString();
+};
+
+describe('Generator tests', () => {
+    test('The plugin registers a schema for the sitemap config section', async () => {
+        const env = new FakeEnvironment({ sitemap: { maxUrls: 'lots' } });
+
+        await registerPlugin(env);
+
+        expect(findConfigProblems(env.config, env.configSchemas)).toStrictEqual([
+            { level: 'error', key: 'sitemap.maxUrls', message: 'expected number, but found the string "lots".' }
+        ]);
+    });
+
+    test('The generator runs after the other generators, so that it is given the pages they generate', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl });
+
+        await registerPlugin(env);
+
+        expect(env.generators[0].runLast).toBe(true);
+    });
+
+    test('The generator generates nothing if absoluteBaseUrl is not set', async () => {
+        const env = new FakeEnvironment();
+
+        const testOutput = await runGenerator(env, getTree(env));
+
+        expect(testOutput).toStrictEqual({});
+    });
+
+    test('The generator generates nothing if config.sitemap is false', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, sitemap: false });
+
+        const testOutput = await runGenerator(env, getTree(env));
+
+        expect(testOutput).toStrictEqual({});
+    });
+
+    test('The generator generates a single sitemap.xml for a small site', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl });
+
+        const testOutput = await runGenerator(env, getTree(env));
+
+        expect(Object.keys(testOutput)).toStrictEqual(['sitemap.xml']);
+        expect(testOutput['sitemap.xml']).toBeInstanceOf(SitemapFile);
+        expect(testOutput['sitemap.xml'].chunkCount).toBe(1);
+    });
+
+    test('The generator generates a sitemap index and chunks if the site has more than maxUrls pages', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, sitemap: { maxUrls: 2 } });
+
+        const testOutput = await runGenerator(env, getTree(env, 5));
+
+        expect(Object.keys(testOutput)).toStrictEqual(['sitemap.xml', 'sitemap-1.xml', 'sitemap-2.xml', 'sitemap-3.xml']);
+        expect(testOutput['sitemap-3.xml'].chunk).toBe(3);
+    });
+
+    test('The generator uses the configured filenames', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, sitemap: { maxUrls: 2, filename: 'map.xml', chunkFilename: 'maps/%d.xml' } });
+
+        const testOutput = await runGenerator(env, getTree(env, 3));
+
+        expect(Object.values(testOutput).map(f => f.filename)).toStrictEqual(['map.xml', 'maps/1.xml', 'maps/2.xml']);
+    });
+});
+
+describe('Sitemap rendering tests', () => {
+    test('The sitemap lists every HTML page with absolute URLs and dates', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl });
+        const tree = getTree(env);
+        const generated = await runGenerator(env, tree);
+
+        const testOutput = await renderSitemap(env, generated['sitemap.xml'], tree);
+
+        expect(testOutput).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<urlset xmlns="http:\/\/www.sitemaps.org\/schemas\/sitemap\/0.9">/);
+        expect(testOutput).toContain('<loc>https://example.com/a.html</loc>');
+        expect(testOutput).toContain('<loc>https://example.com/c.html</loc>');
+        expect(testOutput).toContain(`<lastmod>${new Date('2024-05-01').toISOString()}</lastmod>`);
+        expect(testOutput).not.toContain('image.png');
+        expect(testOutput).not.toContain('sitemap.xml');
+    });
+
+    test('The sitemap includes pages added to the tree after the generator ran', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl });
+        const tree = getTree(env);
+        const generated = await runGenerator(env, tree);
+        addPage(env, tree, 'later');
+
+        const testOutput = await renderSitemap(env, generated['sitemap.xml'], tree);
+
+        expect(testOutput).toContain('<loc>https://example.com/later.html</loc>');
+    });
+
+    test('The sitemap lists each URL only once', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl });
+        const tree = getTree(env);
+        tree['alias.md'] = tree['a.md'];
+
+        const testOutput = await renderSitemap(env, new SitemapFile({ filename: 'sitemap.xml', chunkFilename: '', maxUrls: 10 }, 0, 1), tree);
+
+        expect(testOutput.match(/https:\/\/example.com\/a.html/g)?.length).toBe(1);
+    });
+
+    test('The sitemap uses the source file modification time for undated pages', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl });
+        const tree = new ContentTree('');
+        addPage(env, tree, 'undated');
+        const mtime = new Date('2024-02-03T04:05:06Z');
+        vi.mocked(stat).mockResolvedValue({ mtime } as Stats);
+
+        const testOutput = await renderSitemap(env, new SitemapFile({ filename: 'sitemap.xml', chunkFilename: '', maxUrls: 10 }, 0, 1), tree);
+
+        expect(stat).toHaveBeenLastCalledWith('/site/contents/undated.md');
+        expect(testOutput).toContain('<lastmod>2024-02-03T04:05:06.000Z</lastmod>');
+    });
+
+    test('The sitemap leaves out pages with sitemap: false in their metadata', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl });
+        const tree = getTree(env);
+        addPage(env, tree, 'hidden', { sitemap: false });
+
+        const testOutput = await renderSitemap(env, new SitemapFile({ filename: 'sitemap.xml', chunkFilename: '', maxUrls: 10 }, 0, 1), tree);
+
+        expect(testOutput).not.toContain('hidden');
+    });
+
+    test('The sitemap leaves out the not found page, and does not count it', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, notFound: '404.md', sitemap: { maxUrls: 3 } });
+        vi.spyOn(env, 'relativeContentsPath').mockImplementation(filename => filename.replace('/site/contents/', ''));
+        const tree = getTree(env);
+        addPage(env, tree, '404');
+        const generated = await runGenerator(env, tree);
+
+        const testOutput = await renderSitemap(env, generated['sitemap.xml'], tree);
+
+        expect(Object.keys(generated)).toStrictEqual(['sitemap.xml']);
+        expect(testOutput).not.toContain('404');
+        expect(testOutput.match(/<url>/g)?.length).toBe(3);
+    });
+
+    test('The sitemap leaves out pages which have no template', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl });
+        const tree = getTree(env);
+        addPage(env, tree, 'untemplated', { template: 'none' });
+
+        const testOutput = await renderSitemap(env, new SitemapFile({ filename: 'sitemap.xml', chunkFilename: '', maxUrls: 10 }, 0, 1), tree);
+
+        expect(testOutput).not.toContain('untemplated');
+    });
+
+    test('The sitemap includes priority and changefreq from page metadata', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl });
+        const tree = new ContentTree('');
+        addPage(env, tree, 'important', { date: '2024-01-01', sitemap: { priority: 0.9, changefreq: 'daily' } });
+
+        const testOutput = await renderSitemap(env, new SitemapFile({ filename: 'sitemap.xml', chunkFilename: '', maxUrls: 10 }, 0, 1), tree);
+
+        expect(testOutput).toContain('<changefreq>daily</changefreq>');
+        expect(testOutput).toContain('<priority>0.9</priority>');
+    });
+
+    test('The sitemap index links to each sitemap chunk', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl, baseUrl: '/blog/', sitemap: { maxUrls: 2 } });
+        const tree = getTree(env, 5);
+        const generated = await runGenerator(env, tree);
+
+        const testOutput = await renderSitemap(env, generated['sitemap.xml'], tree);
+
+        expect(testOutput).toContain('<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+        expect(testOutput).toContain('<loc>https://example.com/blog/sitemap-1.xml</loc>');
+        expect(testOutput).toContain('<loc>https://example.com/blog/sitemap-2.xml</loc>');
+        expect(testOutput).not.toContain('<url>');
+    });
+
+    test('Each sitemap chunk lists its share of the pages, and the last chunk lists the rest', async () => {
+        const env = new FakeEnvironment({ absoluteBaseUrl });
+        const tree = getTree(env, 5);
+        const generated = await runGenerator(env, new ContentTree(''));
+        const options = generated['sitemap.xml'].options;
+        addPage(env, tree, 'z');
+
+        const first = await renderSitemap(env, new SitemapFile({ ...options, maxUrls: 2 }, 1, 2), tree);
+        const last = await renderSitemap(env, new SitemapFile({ ...options, maxUrls: 2 }, 2, 2), tree);
+
+        expect(first.match(/<url>/g)?.length).toBe(2);
+        expect(first).toContain('https://example.com/a.html');
+        expect(last.match(/<url>/g)?.length).toBe(4);
+        expect(last).toContain('https://example.com/z.html');
+    });
+});
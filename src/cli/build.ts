@@ -17,6 +17,13 @@ Options:
   -o, --output [path]           Directory to write build output to (defaults to ./build).
   -X, --clean                   Clear output directory before building.
   --parallelRender={true/false} Run renderers in parallel (defaults to true).
+  --incremental                 Only render and write files which have changed since the previous incremental build.
+  --buildCache [path]           Path to the build cache file used by incremental builds (defaults to ./.iceforge-cache.json).
+  --prune                       Delete files in the output directory which are no longer produced by the site.
+  --compress                    Write gzip and Brotli compressed copies of text output files, for web servers which serve them.
+  --drafts                      Include pages with "draft: true" in their metadata.
+  --future                      Include pages whose date is in the future.
+  -w, --watch                   Keep running, and rebuild the site whenever its contents, templates, views, data or config change.
   ${commonUsage}
 
   All options can also be set in the config file.
@@ -31,14 +38,38 @@ Examples:
 
   Build using custom config file, into a clean build directory:
   $ iceforge build --config alt-config.json --clean
+
+  Build only what has changed since the last incremental build:
+  $ iceforge build --incremental
+
+  Build, removing output files for content which has been deleted or renamed:
+  $ iceforge build --prune
+
+  Build with precompressed copies of pages and assets, for nginx with gzip_static and brotli_static:
+  $ iceforge build --compress
+
+  Build including draft and future-dated pages, to check them before publishing:
+  $ iceforge build --drafts --future
+
+  Build, then rebuild whatever is affected each time a file changes:
+  $ iceforge build --watch
 `;
 
+// Flags which are not given default to null, rather than to false, so that they do not override the config file.
 export const options = {
-    boolean: ['clean', 'parallelRender'],
-    string: ['output'],
+    boolean: ['clean', 'parallelRender', 'incremental', 'prune', 'drafts', 'future', 'watch', 'compress'],
+    string: ['output', 'buildCache'],
     alias: {
         output: 'o',
-        clean: 'X'
+        clean: 'X',
+        watch: 'w'
+    },
+    default: {
+        incremental: null as boolean,
+        prune: null as boolean,
+        drafts: null as boolean,
+        future: null as boolean,
+        compress: null as boolean
     },
     defaults: {
         parallelRender: true
@@ -49,12 +80,14 @@ interface BuildOpts extends CommonOptions {
     clean: boolean;
     output: string;
     parallelRender: boolean;
+    watch?: boolean;
 }
 
 extendOptions(options, commonOptions);
 
 // Load the environment; clear or create the output directory; and build the site.
-// Finally, print the elapsed time.
+// Finally, print the elapsed time.  With the watch option, the site is rebuilt whenever it changes instead, and the
+// watcher prints a summary of each build.
 const build = async (options: BuildOpts) : Promise<void> => {
     const start = Date.now();
     logger.info('Building site...');
@@ -75,6 +108,10 @@ const build = async (options: BuildOpts) : Promise<void> => {
 
     const env = await loadEnv(options);
     await prepareOutputDir(env);
+    if (options.watch) {
+        await env.watch();
+        return;
+    }
     await env.build();
     const stop = Date.now();
     const delta = stop.valueOf() - start.valueOf();
@@ -0,0 +1,60 @@
+import chalk from 'chalk';
+
+import { commonOptions, commonUsage, extendOptions, loadEnv } from './common.js';
+
+import logger from '../core/logger.js';
+import { CommonOptions } from '../core/coreTypes.js';
+
+// Module implementing the "check" verb.
+
+export const usage = `
+Usage: iceforge check [options]
+
+Options:
+
+  ${commonUsage}
+
+  Renders every page of the site in memory and reports internal links and images which do not point to any
+  content, links to anchors which do not exist on the target page, and pages which fail to render.  Exits with a
+  non-zero status if any problems are found.
+
+Examples:
+
+  Check the site using the config file config.json in the current directory:
+  $ iceforge check
+`;
+
+export const options = {};
+
+extendOptions(options, commonOptions);
+
+// Load the environment, check the site's links, and print out any problems.
+const check = async (options: CommonOptions): Promise<void> => {
+    logger.info('Checking links...');
+    const env = await loadEnv(options);
+    const problems = await env.check();
+    for (const problem of problems) {
+        const where = problem.source ? `${problem.page} (${env.relativeContentsPath(problem.source)})` : problem.page;
+        if (problem.reason === 'render') {
+            logger.error(`${chalk.bold(where)} could not be rendered: ${problem.message}`);
+            continue;
+        }
+        const what = problem.reason === 'anchor' ? 'links to a missing anchor' : 'links to missing content';
+        logger.error(`${chalk.bold(where)} ${what}: ${problem.link}`);
+    }
+    const failed = problems.filter(p => p.reason === 'render').length;
+    const broken = problems.length - failed;
+    if (broken) {
+        logger.error(`Found ${broken} broken link${broken === 1 ? '' : 's'}`);
+    }
+    if (failed) {
+        logger.error(`Failed to render ${failed} page${failed === 1 ? '' : 's'}`);
+    }
+    if (problems.length) {
+        process.exit(1);
+        return;
+    }
+    logger.info('No broken links found');
+};
+
+export default check;
@@ -4,7 +4,7 @@ import path from 'node:path';
 import { CommonOptions, IEnvironment, Indexable } from '../core/coreTypes.js';
 import logger from '../core/logger.js';
 import { fileExists } from '../core/utils.js';
-import Config, { defaultConfig } from '../core/config.js';
+import Config, { configFilenames, defaultConfig, findConfigFile } from '../core/config.js';
 import Environment from '../core/environment.js';
 
 // Module containing utility functions, mostly those used by multiple command verbs.
@@ -14,6 +14,7 @@ export const commonOptions = {
     string: [
         'chdir',
         'config',
+        'env',
         'contents',
         'templates',
         'locals',
@@ -24,12 +25,12 @@ export const commonOptions = {
     ],
     default: {
         chdir: '',
-        config: './config.json',
         contents: defaultConfig.contents,
         templates: defaultConfig.templates
     },
     alias: {
         config: 'c',
+        env: 'e',
         chdir: 'C',
         contents: 'i',
         templates: 't',
@@ -44,7 +45,8 @@ export const commonOptions = {
 // A standard usage message for the common options shared across multiple verbs, to be inserted into those verbs' usage messages at the appropriate point
 export const commonUsage = 
 `-C, --chdir [path]            Change the working directory to [path].
-  -c, --config [path]           Path to config (defaults to ${commonOptions.default.config}).
+  -c, --config [path]           Path to config file (defaults to the first of ${configFilenames.join(', ')} which exists).
+  -e, --env [name]              Config file profile to apply (defaults to the value of $ICEFORGE_ENV, if set).
   -i, --contents [path]         Path to contents location (defaults to ${commonOptions.default.contents}).
   -t, --templates [path]        Path to template location (defaults to ${commonOptions.default.templates}).
   -L, --locals [path]           Optional path to JSON file containing template context data.
@@ -81,22 +83,26 @@ export const extendOptions = (base: Opts, extra: Opts) => {
 export const loadEnv = async (options: CommonOptions) : Promise<IEnvironment> => {
     const workDir = path.resolve(options.chdir || process.cwd());
     logger.verbose(`Creating environment.  Work directory is ${workDir}`);
-    const configPath = path.join(workDir, options.config);
+    const configPath = options.config ? path.join(workDir, options.config) : await findConfigFile(workDir);
+    const profile = options.env || process.env['ICEFORGE_ENV'];
     let config;
-    if (await fileExists(configPath)) {
-        logger.info(`Using config file ${configPath}`);
-        config = await Config.fromFile(configPath);
+    if (configPath && await fileExists(configPath)) {
+        logger.info(`Using config file ${configPath}` + (profile ? ` with profile ${profile}` : ''));
+        config = await Config.fromFile(configPath, profile);
     } else {
         logger.verbose('No config file found');
+        if (profile) {
+            logger.warn(`Ignoring profile ${profile} because there is no config file`);
+        }
         config = new Config();
     }
 
-    // Override config file with command line options
-    const exclude = ['_', 'chdir', 'config', 'clean'];
+    // Override config file with command line options.  Flags which were not given are null, and are left out.
+    const exclude = ['_', 'chdir', 'config', 'env', 'clean', 'watch'];
     let key: keyof CommonOptions;
     for (key in options) {
         let value;
-        if (exclude.includes(key)) {
+        if (exclude.includes(key) || options[key] === null) {
             continue;
         }
         if (['port', 'minRegenerationDelay'].includes(key)) {
@@ -120,6 +126,9 @@ export const loadEnv = async (options: CommonOptions) : Promise<IEnvironment> =>
         }
         config[key] = value;
     }
+    // Watch mode applies the options in _cliopts to the config again whenever the config file is reloaded, so flags which
+    // were not given are left out of it too.
+    config._cliopts = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== null));
 
     return await Environment.create(config, workDir, logger);
 };
@@ -12,8 +12,10 @@ Commands:
 
   ${chalk.bold('build')} [options]      Build a site.
   ${chalk.bold('preview')} [options]    Run local preview server.
+  ${chalk.bold('serve')} [options]      Serve the built site from the output directory.
+  ${chalk.bold('check')} [options]      Check the site for broken links.
   ${chalk.bold('new')} <location>       Create a new site.
-  ${chalk.bold('plugin')}               Manage plugins.
+  ${chalk.bold('plugin')} <command>     Manage plugins.
 
   Each command has a --help option for further information.
 
@@ -70,7 +72,7 @@ const main = async (argv: string[]) => {
     };
 
     const validateAndRunCommand = async (cmd: string) => {
-        const validCommands = ['build', 'new', 'preview'];
+        const validCommands = ['build', 'check', 'new', 'plugin', 'preview', 'serve'];
 
         if (!cmd) {
             console.log(usage);
@@ -0,0 +1,144 @@
+import * as fs from 'node:fs/promises';
+import path from 'node:path';
+import chalk from 'chalk';
+
+import { commonOptions, commonUsage, extendOptions, loadEnv } from './common.js';
+
+import logger from '../core/logger.js';
+import { CommonOptions, IEnvironment } from '../core/coreTypes.js';
+import { fileExists, readJson } from '../core/utils.js';
+import { findConfigFile } from '../core/config.js';
+
+// Module implementing the "plugin" verb.
+
+export const usage = `
+Usage: iceforge plugin [options] <command> [module]
+
+Commands:
+
+  list                          List the loaded content plugins, template plugins, views and generators.
+  add <module>                  Add a plugin module to the plugins list in the config file.
+  remove <module>               Remove a plugin module from the plugins list in the config file.
+
+Options:
+
+  ${commonUsage}
+
+Examples:
+
+  List the plugins loaded by the site in the current directory:
+  $ iceforge plugin list
+
+  Add a plugin installed with npm to the site:
+  $ iceforge plugin add iceforge-some-plugin
+
+  Remove a local plugin module from the site:
+  $ iceforge plugin remove ./plugins/paginator.js
+`;
+
+export const options = {};
+
+extendOptions(options, commonOptions);
+
+// Column width used to line up the output of the list command.
+const columnWidth = 24;
+
+const pad = (s: string) => s.padEnd(columnWidth);
+
+// Load the environment and its plugins, and print out what has been registered.
+const listPlugins = async (argv: CommonOptions): Promise<void> => {
+    const env: IEnvironment = await loadEnv(argv);
+    await env.loadPlugins();
+    await env.loadViews();
+
+    const lines: string[] = [chalk.bold('Content plugins:')];
+    for (const plugin of env.contentPlugins) {
+        lines.push(`  ${pad(plugin.name)}${pad(chalk.grey(plugin.group))}${plugin.pattern}`);
+    }
+    lines.push(chalk.bold('Template plugins:'));
+    for (const plugin of env.templatePlugins) {
+        lines.push(`  ${pad(plugin.class.name)}${plugin.pattern}`);
+    }
+    lines.push(chalk.bold('Views:'));
+    for (const view of Object.keys(env.views)) {
+        lines.push(`  ${view}`);
+    }
+    lines.push(chalk.bold('Generators:'));
+    for (const generator of env.generators) {
+        lines.push(`  ${pad(generator.name)}${chalk.grey(generator.group)}`);
+    }
+    logger.info(lines.join('\n'));
+};
+
+// Read the config file, pass its plugins list to the update function, and write it back.  If the config file
+// does not exist, a new config.json file is created.  Only JSON config files can be edited, as rewriting YAML or
+// JavaScript config files would lose their comments and code.
+const updatePlugins = async (argv: CommonOptions, update: (plugins: string[]) => string[] | null): Promise<void> => {
+    const workDir = path.resolve(argv.chdir || process.cwd());
+    const configPath = argv.config ? path.join(workDir, argv.config) : (await findConfigFile(workDir)) || path.join(workDir, 'config.json');
+    if (path.extname(configPath).toLowerCase() !== '.json') {
+        logger.error(`Cannot edit ${configPath}: only JSON config files can be edited.  Please edit its plugins list by hand.`);
+        process.exit(1);
+        return;
+    }
+    const config = (await fileExists(configPath)) ? await readJson(configPath) : {};
+    const plugins = update([...(config.plugins || [])]);
+    if (!plugins) {
+        return;
+    }
+    config.plugins = plugins;
+    await fs.writeFile(configPath, JSON.stringify(config, null, 2) + '\n');
+    logger.verbose(`Updated plugins list in ${configPath}`);
+};
+
+// Add a plugin module to the config file, unless it is already there.
+const addPlugin = async (argv: CommonOptions, module: string): Promise<void> => {
+    await updatePlugins(argv, (plugins) => {
+        if (plugins.includes(module)) {
+            logger.warn(`Plugin ${module} is already listed in the config file.`);
+            return null;
+        }
+        logger.info(`Adding plugin ${module}`);
+        return [...plugins, module];
+    });
+};
+
+// Remove a plugin module from the config file, if it is there.
+const removePlugin = async (argv: CommonOptions, module: string): Promise<void> => {
+    await updatePlugins(argv, (plugins) => {
+        if (!plugins.includes(module)) {
+            logger.warn(`Plugin ${module} is not listed in the config file.`);
+            return null;
+        }
+        logger.info(`Removing plugin ${module}`);
+        return plugins.filter(p => p !== module);
+    });
+};
+
+// Run the plugin subcommand given on the command line.
+const plugin = async (argv: CommonOptions): Promise<void> => {
+    const command = argv._[3];
+    const module = argv._[4];
+
+    if (command === 'list') {
+        await listPlugins(argv);
+        return;
+    }
+    if (command !== 'add' && command !== 'remove') {
+        logger.error(command ? `Unknown plugin command ${command}` : 'You must specify a plugin command.');
+        process.exit(1);
+        return;
+    }
+    if (!module) {
+        logger.error('You must specify a plugin module.');
+        process.exit(1);
+        return;
+    }
+    if (command === 'add') {
+        await addPlugin(argv, module);
+    } else {
+        await removePlugin(argv, module);
+    }
+};
+
+export default plugin;
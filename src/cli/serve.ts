@@ -0,0 +1,50 @@
+import { defaultConfig } from '../core/config.js';
+import { CommonOptions } from '../core/coreTypes.js';
+import logger from '../core/logger.js';
+import { commonOptions, commonUsage, extendOptions, loadEnv } from './common.js';
+
+// Module implementing the "serve" verb, which serves the build output directory.
+// The code is a wrapper around Environment.serve(), which in turn is a wrapper around the functions in outputServer.ts
+
+export const usage = `
+Usage: iceforge serve [options]
+
+Options:
+
+  -o, --output [path]           Directory to serve (defaults to ./build).
+  -p, --port [port]             Port to run server on (default to ${defaultConfig.port})
+  -H, --hostname                Host address to bind server to (defaults to INADDR_ANY)
+  ${commonUsage}
+
+  Options can also be set in the config file.
+
+Examples:
+
+  Build the site, then serve the output exactly as it will be deployed:
+  $ iceforge build
+  $ iceforge serve
+
+`;
+
+export const options = {
+    string: ['output', 'port', 'hostname'],
+    alias: {
+        output: 'o',
+        port: 'p',
+        hostname: 'H'
+    }
+};
+
+interface ServeOpts extends CommonOptions {
+    hostname: string
+}
+
+extendOptions(options, commonOptions);
+
+const serve = async (options: ServeOpts): Promise<void> => {
+    logger.info('Starting server...');
+    const env = await loadEnv(options);
+    await env.serve();
+};
+
+export default serve;
@@ -0,0 +1,208 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import { ensureDir } from 'fs-extra';
+
+import ContentPlugin from './contentPlugin.js';
+import ContentTree from './contentTree.js';
+import { IContentTree, IEnvironment, StringMap } from './coreTypes.js';
+import StaticFile from './staticFile.js';
+import { fileExists, readDirRecursive, readJson } from './utils.js';
+
+// The version of the manifest file format.  Manifests written with a different version are ignored.
+const manifestVersion = 2;
+
+// What the cache records about each output file: the hash of the content file it was rendered from (if any), the hash
+// of the rendered output, and the files in the templates directory which were used to render it (or null if it could
+// have used any of them).
+export type BuildCacheEntry = {
+    source: string | null;
+    output: string;
+    templates: string[] | null;
+}
+
+// The contents of the cache manifest file.  Everything other than the output entries is a hash of some part of the
+// site which can affect any page: the configuration, the locals file, the data directory, the templates, the plugin
+// and view modules, and the content tree as a whole.
+export type BuildCacheManifest = {
+    version: number;
+    config: string;
+    locals: string;
+    data: string;
+    templates: StringMap;
+    modules: string;
+    tree: string;
+    outputs: Record<string, BuildCacheEntry>;
+}
+
+// Hash a string or buffer.
+export const hash = (data: string | Buffer): string => createHash('sha1').update(data).digest('hex');
+
+// Hash a file, returning null if it cannot be read.
+const hashFile = async (filename: string): Promise<string | null> => {
+    try {
+        return hash(await fs.readFile(filename));
+    } catch {
+        return null;
+    }
+};
+
+// Hash a value by serialising it, returning a value that never matches a previous build if it cannot be serialised.
+const hashValue = (value: unknown): string => {
+    try {
+        return hash(JSON.stringify(value) ?? '');
+    } catch {
+        return `unhashable-${Date.now()}`;
+    }
+};
+
+// The on-disk build cache used by incremental builds.  The cache is loaded from its manifest file before a build,
+// prepared by hashing everything the build depends on, consulted as each content item is rendered, and saved after
+// the build.
+//
+// A content item's rendering is skipped if its output file still exists and nothing it could depend on has changed.
+// Static files only depend on their own source file.  Other content can depend on anything in the content tree, so
+// it is only skipped if the configuration, locals, data, modules and every content file are all unchanged, and so are
+// the template files it was rendered with.  When content is rerendered, its output file is only rewritten if the
+// output has changed.
+export default class BuildCache {
+
+    // Path to the manifest file.
+    filename: string;
+
+    // The manifest saved by the previous build, or null if there was none.
+    previous: BuildCacheManifest | null;
+
+    // The manifest for this build.
+    current: BuildCacheManifest;
+
+    // Hashes of the source files of the content items in this build.
+    private sources: Map<ContentPlugin, string | null>;
+
+    constructor(filename: string, previous: BuildCacheManifest | null = null) {
+        this.filename = filename;
+        this.previous = previous;
+        this.sources = new Map();
+        this.current = {
+            version: manifestVersion,
+            config: '',
+            locals: '',
+            data: '',
+            templates: {},
+            modules: '',
+            tree: '',
+            outputs: {},
+        };
+    }
+
+    // Load the manifest from a previous build.  If it does not exist or cannot be read, the cache is empty and
+    // everything will be rendered.
+    static async load(filename: string): Promise<BuildCache> {
+        let previous: BuildCacheManifest = null;
+        if (await fileExists(filename)) {
+            try {
+                previous = await readJson(filename);
+            } catch {
+                previous = null;
+            }
+        }
+        if (previous?.version !== manifestVersion) {
+            previous = null;
+        }
+        return new BuildCache(filename, previous);
+    }
+
+    // Hash everything in the site which the build depends on.  The modules parameter is a list of the plugin and view
+    // modules loaded by the environment, either as paths or as file URLs.
+    async prepare(env: IEnvironment, contents: IContentTree, modules: string[]): Promise<void> {
+        const config = { ...env.config };
+        delete config.filename;
+        delete config._cliopts;
+        this.current.config = hashValue(config);
+
+        if (typeof env.config.locals === 'string') {
+            this.current.locals = await hashFile(env.resolvePath(env.config.locals));
+        } else {
+            this.current.locals = hashValue(env.config.locals);
+        }
+        this.current.data = hashValue(env.locals.data);
+
+        this.current.templates = {};
+        if (await fileExists(env.templatesPath)) {
+            for (const template of await readDirRecursive(env.templatesPath)) {
+                this.current.templates[template] = await hashFile(path.join(env.templatesPath, template));
+            }
+        }
+
+        const moduleHashes = await Promise.all(modules.map(m => hashFile(m.startsWith('file:') ? fileURLToPath(m) : m)));
+        this.current.modules = hash(moduleHashes.join('\n'));
+
+        const items = ContentTree.flatten(contents);
+        const treeEntries = await Promise.all(items.map(async (item) => {
+            const source = item.__filename && item.__filename !== 'generator' ? await hashFile(item.__filename) : null;
+            this.sources.set(item, source);
+            return `${item.filename}:${source}`;
+        }));
+        treeEntries.sort();
+        this.current.tree = hash(treeEntries.join('\n'));
+    }
+
+    // Check whether some template files are unchanged since the previous build, or all of them if no list is given.  A
+    // file which did not exist in the previous build, and still does not, is unchanged.
+    templatesUnchanged(files: string[] | null = null): boolean {
+        const previous = this.previous.templates;
+        const current = this.current.templates;
+        if (files) {
+            return files.every(f => previous[f] === current[f]);
+        }
+        const names = Object.keys(current);
+        return names.length === Object.keys(previous).length && names.every(n => previous[n] === current[n]);
+    }
+
+    // Check whether a content item can be skipped without rendering it.  If it can, its previous cache entry is
+    // carried forward into this build's manifest.
+    async canSkip(content: ContentPlugin, destination: string): Promise<boolean> {
+        const entry = this.previous?.outputs[content.filename];
+        if (!entry || !(await fileExists(destination))) {
+            return false;
+        }
+        const source = this.sources.get(content) ?? null;
+        let unchanged = source !== null && entry.source === source;
+        if (unchanged && !(content instanceof StaticFile)) {
+            unchanged = this.previous.config === this.current.config &&
+                this.previous.locals === this.current.locals &&
+                this.previous.data === this.current.data &&
+                this.previous.modules === this.current.modules &&
+                this.previous.tree === this.current.tree &&
+                this.templatesUnchanged(entry.templates);
+        }
+        if (unchanged) {
+            this.current.outputs[content.filename] = entry;
+        }
+        return unchanged;
+    }
+
+    // Record the rendered output of a content item and the template files used to render it, and return true if the
+    // output is the same as the output of the previous build (meaning it does not need to be written again).  Streamed
+    // output is not hashed; it is recorded using the hash of its source file.
+    record(content: ContentPlugin, output: Buffer | null, templates: string[] | null = null): boolean {
+        const source = this.sources.get(content) ?? null;
+        const outputHash = output ? hash(output) : source;
+        const previous = this.previous?.outputs[content.filename];
+        this.current.outputs[content.filename] = { source, output: outputHash, templates };
+        return !!previous && outputHash !== null && previous.output === outputHash;
+    }
+
+    // Get a cache for the next build, whose previous build is this one.  This lets a watched build keep its cache in
+    // memory between builds.
+    next(): BuildCache {
+        return new BuildCache(this.filename, this.current);
+    }
+
+    // Write the manifest file.
+    async save(): Promise<void> {
+        await ensureDir(path.dirname(this.filename));
+        await fs.writeFile(this.filename, JSON.stringify(this.current, null, 2));
+    }
+}
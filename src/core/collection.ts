@@ -0,0 +1,320 @@
+import * as path from 'node:path';
+import { slug } from 'github-slugger';
+import { DateTime } from 'luxon';
+import { minimatch } from 'minimatch';
+
+import ContentPlugin from './contentPlugin.js';
+import ContentTree from './contentTree.js';
+import { IContentTree, IEnvironment, Indexable, LocalMap, RenderedData, TemplateMap } from './coreTypes.js';
+import { minimatchOptions } from './config.js';
+import StaticFile from './staticFile.js';
+
+// A comparison function used to sort the items in a collection.
+export type CollectionSortFunc = (a: ContentPlugin, b: ContentPlugin) => number;
+
+// A function which returns the value or values of a grouping key for a content item.
+export type CollectionKeyFunc = (item: ContentPlugin) => unknown;
+
+// Options for paginating a collection.  In the filename patterns, %d is replaced by the page number.
+export type CollectionPaginateOptions = {
+    perPage?: number;
+    first?: string;
+    filename?: string;
+    template?: string;
+}
+
+// Options for grouping a collection by a metadata key.  In the filename patterns, %k is replaced by the slugified group
+// key and %d by the page number within the group.  If the key's value is a date, it is formatted using dateFormat, a
+// Luxon format string.  Items with no value for the key are put in the fallback group, or left out if there is none.
+export type CollectionGroupOptions = {
+    key: string | CollectionKeyFunc;
+    dateFormat?: string;
+    fallback?: string;
+    order?: 'asc' | 'desc';
+    perPage?: number;
+    first?: string;
+    filename?: string;
+    template?: string;
+}
+
+// Options for a collection.  The items of a collection are the non-static content in the content tree, optionally
+// restricted to the part of the tree below path, and to items whose source file (relative to the contents directory)
+// matches pattern.  They are then filtered and sorted.  A string sort key is the name of a property or metadata item,
+// optionally prefixed with '-' to sort in descending order.
+export type CollectionOptions = {
+    path?: string;
+    pattern?: string;
+    filter?: (item: ContentPlugin) => boolean;
+    sort?: string | CollectionSortFunc;
+    paginate?: CollectionPaginateOptions;
+    groupBy?: CollectionGroupOptions;
+}
+
+// A collection definition, consisting of the parameters passed to Environment.registerCollection().
+export type CollectionDef = {
+    name: string;
+    options: CollectionOptions;
+}
+
+// A group of items in a collection which share a grouping key value, and the pages generated for them.
+export type CollectionGroup = {
+    key: string;
+    slug: string;
+    items: ContentPlugin[];
+    pages: CollectionPage[];
+}
+
+// A collection: its items, the pages generated by paginating it, and its groups.
+export type Collection = {
+    name: string;
+    items: ContentPlugin[];
+    pages: CollectionPage[];
+    groups: CollectionGroup[];
+}
+
+// Look up a named value on a content item: either a property of the item, such as a Page's date or title, or an item of
+// its metadata.
+const itemValue = (item: ContentPlugin, key: string): unknown => {
+    const value = (item as unknown as Indexable)[key];
+    if (typeof value !== 'undefined') {
+        return value;
+    }
+    return (item as unknown as Indexable).metadata?.[key];
+};
+
+// Convert a value to something that can be compared.
+const comparable = (value: unknown): number | string => {
+    if (value instanceof Date) {
+        return value.getTime();
+    }
+    if (typeof value === 'number') {
+        return value;
+    }
+    return typeof value === 'undefined' || value === null ? '' : String(value);
+};
+
+// Create a sort function from a sort key.
+const sortFunction = (sort: string | CollectionSortFunc): CollectionSortFunc => {
+    if (typeof sort === 'function') {
+        return sort;
+    }
+    const descending = sort.startsWith('-');
+    const key = descending ? sort.substring(1) : sort;
+    return (a, b) => {
+        const aValue = comparable(itemValue(a, key));
+        const bValue = comparable(itemValue(b, key));
+        const result = typeof aValue === 'number' && typeof bValue === 'number' ? aValue - bValue : String(aValue).localeCompare(String(bValue));
+        return descending ? -result : result;
+    };
+};
+
+// Slugify each segment of a group key, so that keys such as formatted dates can contain directory separators.
+const slugifyKey = (key: string): string => key.split('/').map(s => slug(s)).join('/');
+
+// Replace the placeholders in a filename pattern.
+const expandPattern = (pattern: string, pageNum: number, keySlug = ''): string =>
+    pattern.replace(/%d/g, pageNum.toString()).replace(/%k/g, keySlug);
+
+// The content plugin class for the pages generated by paginating or grouping a collection.  Each page is rendered with
+// its template, which receives the following in its context, in addition to the usual locals:
+// - page           The page itself.
+// - collection     The name of the collection.
+// - items          The items which should appear on this page.
+// - pageNum        The page number within the set of pages.
+// - pageCount      The number of pages in the set.
+// - pages          All of the pages in the set.
+// - prevPage       The previous page in the set, if there is one.
+// - nextPage       The next page in the set, if there is one.
+// - group          The group this page belongs to, if the collection is grouped.
+export class CollectionPage extends ContentPlugin {
+
+    collection: string;
+
+    template: string;
+
+    outputFilename: string;
+
+    pageNum: number;
+
+    items: ContentPlugin[];
+
+    pages: CollectionPage[];
+
+    group: CollectionGroup | null;
+
+    prevPage: CollectionPage | null;
+
+    nextPage: CollectionPage | null;
+
+    constructor(collection: string, template: string, outputFilename: string, pageNum: number, items: ContentPlugin[], group: CollectionGroup | null = null) {
+        super();
+        this.collection = collection;
+        this.template = template;
+        this.outputFilename = outputFilename;
+        this.pageNum = pageNum;
+        this.items = items;
+        this.pages = [];
+        this.group = group;
+        this.prevPage = null;
+        this.nextPage = null;
+    }
+
+    get name() {
+        return 'CollectionPage';
+    }
+
+    get filename() {
+        return this.outputFilename;
+    }
+
+    // Strip index.html off the end of URLs, as the Page plugin does.
+    getUrl(baseUrl?: string) {
+        return super.getUrl(baseUrl).replace(/([/^])index\.html$/, '$1');
+    }
+
+    get view() {
+        return async (env: IEnvironment, locals: LocalMap, contents: IContentTree, templates: TemplateMap): Promise<RenderedData> => {
+            const template = templates[path.normalize(this.template)];
+            if (!template) {
+                throw new Error(`Collection '${this.collection}' specifies unknown template '${this.template}'`);
+            }
+            const context = {
+                page: this,
+                collection: this.collection,
+                items: this.items,
+                pageNum: this.pageNum,
+                pageCount: this.pages.length,
+                pages: this.pages,
+                prevPage: this.prevPage,
+                nextPage: this.nextPage,
+                group: this.group,
+                ...locals
+            };
+            return await template.render(context);
+        };
+    }
+}
+
+// Split a list of items into pages of at most perPage items, and link the pages together.  An empty list of items still
+// produces one page.
+const paginate = (name: string, items: ContentPlugin[], template: string, perPage: number, first: string, filename: string, group: CollectionGroup | null = null): CollectionPage[] => {
+    const pageCount = Math.max(1, Math.ceil(items.length / perPage));
+    const pages: CollectionPage[] = [];
+    for (let i = 0; i < pageCount; ++i) {
+        const pageNum = i + 1;
+        const outputFilename = expandPattern(pageNum === 1 ? first : filename, pageNum, group?.slug);
+        pages.push(new CollectionPage(name, template, outputFilename, pageNum, items.slice(i * perPage, (i + 1) * perPage), group));
+    }
+    for (let i = 0; i < pages.length; ++i) {
+        pages[i].pages = pages;
+        pages[i].prevPage = i > 0 ? pages[i - 1] : null;
+        pages[i].nextPage = i < pages.length - 1 ? pages[i + 1] : null;
+    }
+    return pages;
+};
+
+// Select the items of a collection from a content tree, then filter and sort them.
+export const selectItems = (env: IEnvironment, options: CollectionOptions, contents: IContentTree): ContentPlugin[] => {
+    let root: IContentTree = contents;
+    if (options.path) {
+        for (const part of options.path.split('/').filter(p => p)) {
+            root = root?.[part] instanceof ContentTree ? root[part] as IContentTree : null;
+        }
+        if (!root) {
+            env.logger.warn(`Collection path ${options.path} not found in content tree`);
+            return [];
+        }
+    }
+    let items = ContentTree.flatten(root).filter(item => !(item instanceof StaticFile));
+    if (options.pattern) {
+        items = items.filter(item => item.__filename && item.__filename !== 'generator' &&
+            minimatch(env.relativeContentsPath(item.__filename).split(path.sep).join('/'), options.pattern, minimatchOptions));
+    }
+    if (options.filter) {
+        items = items.filter(options.filter);
+    }
+    if (options.sort) {
+        items.sort(sortFunction(options.sort));
+    }
+    return items;
+};
+
+// Split the items of a collection into groups according to the groupBy options.
+const groupItems = (items: ContentPlugin[], options: CollectionGroupOptions): Map<string, ContentPlugin[]> => {
+    const keyFunc: CollectionKeyFunc = typeof options.key === 'function' ? options.key : (item) => itemValue(item, options.key as string);
+    const groups = new Map<string, ContentPlugin[]>();
+    const addToGroup = (key: string, item: ContentPlugin) => {
+        if (!groups.has(key)) {
+            groups.set(key, []);
+        }
+        if (!groups.get(key).includes(item)) {
+            groups.get(key).push(item);
+        }
+    };
+    for (const item of items) {
+        const value = keyFunc(item);
+        const keys = (Array.isArray(value) ? value : [value])
+            .filter(v => typeof v !== 'undefined' && v !== null && v !== '')
+            .map(v => v instanceof Date ? DateTime.fromJSDate(v).toFormat(options.dateFormat || 'yyyy/MM') : String(v));
+        if (keys.length) {
+            keys.forEach(k => addToGroup(k, item));
+        } else if (options.fallback) {
+            addToGroup(options.fallback, item);
+        }
+    }
+    const sortedKeys = Array.from(groups.keys()).sort((a, b) => a.localeCompare(b));
+    if (options.order === 'desc') {
+        sortedKeys.reverse();
+    }
+    return new Map(sortedKeys.map(k => [k, groups.get(k)]));
+};
+
+// Build a collection from a content tree: select its items, and generate its paginated and grouped pages.
+export default function buildCollection(env: IEnvironment, collection: CollectionDef, contents: IContentTree): Collection {
+    const { name, options } = collection;
+    const items = selectItems(env, options, contents);
+    let pages: CollectionPage[] = [];
+    if (options.paginate) {
+        const paginateOptions = options.paginate;
+        pages = paginate(
+            name,
+            items,
+            paginateOptions.template || 'index.pug',
+            paginateOptions.perPage || 10,
+            paginateOptions.first || `${name}/index.html`,
+            paginateOptions.filename || `${name}/page/%d/index.html`
+        );
+    }
+    const groups: CollectionGroup[] = [];
+    if (options.groupBy) {
+        const groupOptions = options.groupBy;
+        for (const [key, groupItemList] of groupItems(items, groupOptions)) {
+            const group: CollectionGroup = { key, slug: slugifyKey(key), items: groupItemList, pages: [] };
+            group.pages = paginate(
+                name,
+                groupItemList,
+                groupOptions.template || 'index.pug',
+                groupOptions.perPage || Infinity,
+                groupOptions.first || `${name}/%k/index.html`,
+                groupOptions.filename || `${name}/%k/page/%d/index.html`,
+                group
+            );
+            groups.push(group);
+        }
+    }
+    return { name, items, pages, groups };
+}
+
+// Build the partial content tree containing a collection's generated pages, for a generator function to return.
+export const collectionTree = (collection: Collection): IContentTree => {
+    const pages: Indexable = {};
+    for (const page of collection.pages) {
+        pages[`${page.pageNum}.page`] = page;
+    }
+    for (const group of collection.groups) {
+        for (const page of group.pages) {
+            pages[`${group.slug.replace(/\//g, '.')}.${page.pageNum}.page`] = page;
+        }
+    }
+    return { collections: { [collection.name]: pages } } as unknown as IContentTree;
+};
@@ -0,0 +1,109 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { Transform } from 'node:stream';
+import { promisify } from 'node:util';
+import zlib from 'node:zlib';
+
+import mime from 'mime';
+
+import { IEnvironment } from './coreTypes.js';
+
+// Compression of text output: on the fly in the preview server, and as precompressed copies of output files written
+// by the build, for web servers which serve them in place of the originals, such as nginx with gzip_static.
+
+// The content codings which are supported.
+export type Encoding = 'br' | 'gzip';
+
+// The extension added to the name of a file to make the name of its precompressed copy, for each content coding.
+export const encodingExtensions: Record<Encoding, string> = {
+    br: '.br',
+    gzip: '.gz',
+};
+
+const gzip = promisify(zlib.gzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+
+// Check whether content of a mime type is worth compressing.  Images other than SVG, audio, video, fonts and archives
+// are already compressed.
+export const isCompressible = (mimeType: string): boolean =>
+    /^text\/|^application\/(javascript|json|xml|.+\+json|.+\+xml|wasm)$|^image\/svg\+xml$/.test(mimeType ?? '');
+
+// Choose the content coding for a response from the Accept-Encoding header of the request, preferring Brotli if the
+// client accepts both codings equally.  Returns null if the response should not be compressed.
+export const negotiateEncoding = (acceptEncoding: string | undefined): Encoding | null => {
+    const qualities: Record<string, number> = {};
+    for (const part of (acceptEncoding || '').split(',')) {
+        const [coding, ...params] = part.trim().toLowerCase().split(';');
+        const q = params.map(p => /^\s*q=([\d.]+)\s*$/.exec(p)).find(m => m);
+        qualities[coding.trim()] = q ? Number(q[1]) : 1;
+    }
+    const quality = (coding: Encoding) => qualities[coding] ?? qualities['*'] ?? 0;
+    const best = (['br', 'gzip'] as Encoding[]).reduce((a, b) => quality(b) > quality(a) ? b : a);
+    return quality(best) > 0 ? best : null;
+};
+
+// Create a stream which compresses data with a content coding.  Streams are tuned for speed rather than size, as they
+// are used to compress responses on the fly.
+export const createCompressor = (encoding: Encoding): Transform =>
+    encoding === 'br'
+        ? zlib.createBrotliCompress({ params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 4 } })
+        : zlib.createGzip();
+
+// Compress data with a content coding, as small as possible.
+const compress = (encoding: Encoding, data: Buffer): Promise<Buffer> =>
+    encoding === 'br'
+        ? brotliCompress(data, {
+            params: {
+                [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY,
+                [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+            },
+        })
+        : gzip(data, { level: zlib.constants.Z_BEST_COMPRESSION });
+
+// Write gzip and Brotli compressed copies of the text files in the output directory which are at least
+// config.compressThreshold bytes long, next to the originals, so index.html is compressed to index.html.gz and
+// index.html.br.  The files parameter lists the files produced by the build, relative to the output directory, and the
+// unchanged parameter lists those which were not rewritten, whose compressed copies are only rewritten if they are
+// older than the file.  A compressed copy is only kept if it is smaller than the original, and any other compressed
+// copies of the files are deleted, so that a web server never serves an out of date copy.  Files produced by the build
+// which have the same names as compressed copies are left alone.  Returns the compressed copies, relative to the output
+// directory.
+export const compressOutputs = async (env: IEnvironment, outputDir: string, files: string[], unchanged: string[] = []): Promise<string[]> => {
+    const threshold = env.config.compressThreshold ?? 0;
+    const produced = new Set(files);
+    const skipIfCurrent = new Set(unchanged);
+    const compressed: string[] = [];
+    for (const filename of files) {
+        const full = path.join(outputDir, filename);
+        const stats = await fs.stat(full);
+        const worthCompressing = stats.size >= threshold && isCompressible(mime.getType(filename));
+        let data: Buffer = null;
+        for (const [encoding, extension] of Object.entries(encodingExtensions) as [Encoding, string][]) {
+            const copy = full + extension;
+            if (produced.has(filename + extension)) {
+                continue;
+            }
+            if (!worthCompressing) {
+                await fs.rm(copy, { force: true });
+                continue;
+            }
+            if (skipIfCurrent.has(filename)) {
+                const copyStats = await fs.stat(copy).catch((): null => null);
+                if (copyStats && copyStats.mtimeMs >= stats.mtimeMs) {
+                    compressed.push(filename + extension);
+                    continue;
+                }
+            }
+            data ??= await fs.readFile(full);
+            const output = await compress(encoding, data);
+            if (output.length < data.length) {
+                env.logger.verbose(`Writing compressed copy ${filename + extension}`);
+                await fs.writeFile(copy, output);
+                compressed.push(filename + extension);
+            } else {
+                await fs.rm(copy, { force: true });
+            }
+        }
+    }
+    return compressed;
+};
@@ -1,4 +1,10 @@
-import { IConfig, ModuleMap } from './coreTypes.js';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import yaml from 'js-yaml';
+
+import { CollectionOptions } from './collection.js';
+import { IConfig, Indexable, ModuleMap } from './coreTypes.js';
 import { fileExists, readJson } from './utils.js';
 
 export const minimatchOptions = {
@@ -40,6 +46,15 @@ export default class Config implements IConfig {
     // Path to the templates directory.  Files in this directory will be treated as templates.
     templates: string;
 
+    // Path, relative to the contents directory, of the content file rendered for URLs which match no content.  The
+    // preview server responds to them with its output and a 404 status, and builds also write its output to 404.html at
+    // the root of the output directory, where most web hosts look for a not found page.  Defaults to '404.md'.
+    notFound: string | null;
+
+    // Path to the data directory.  JSON, YAML and CSV files in this directory are loaded into locals.data, keyed by
+    // their path within it, and are not rendered.  Defaults to './data'.
+    data: string;
+
     // Directory to load view plugins from.  For many sites this will be empty or not set, because the content plugins
     // used will supply their own views (as do all the default plugins provided by Iceforge).  An Iceforge view plugin's
     // default export should be a ViewFunc.  See the documentation for further details.
@@ -62,13 +77,58 @@ export default class Config implements IConfig {
     // Restart preview server on config change.
     restartOnConfigChange: boolean;
 
+    // In preview mode, inject a script into HTML pages which reloads them when the content or templates they are
+    // rendered from change.  Defaults to true.
+    liveReload: boolean;
+
     // In build mode, render pages in parallel.
     parallelRender: boolean;
 
+    // In build mode, keep a cache of the hashes of the site's source files and output files, and skip rendering or
+    // writing files which have not changed since the previous build.  Defaults to false.
+    incremental: boolean;
+
+    // Path to the build cache manifest file used when incremental is true.  Defaults to './.iceforge-cache.json'
+    buildCache: string;
+
+    // In build mode, delete files in the output directory which were not produced by the build.  Defaults to false.
+    prune: boolean;
+
+    // Glob patterns, relative to the output directory, of files which are never deleted when pruning.  Defaults to
+    // ['.git/**', 'CNAME'].
+    pruneIgnore: string[];
+
+    // In build mode, write gzip (.gz) and Brotli (.br) compressed copies of text output files next to them, for web
+    // servers which serve precompressed files.  Defaults to false.
+    compress: boolean;
+
+    // The minimum size, in bytes, of the output files which are compressed when compress is true.  Defaults to 1024.
+    compressThreshold: number;
+
+    // In build mode, include pages with "draft: true" in their metadata.  Drafts are always included in preview mode.
+    // Defaults to false.
+    drafts: boolean;
+
+    // In build mode, include pages whose date metadata is in the future.  These are always included in preview mode.
+    // Defaults to false.
+    future: boolean;
+
+    // Collections to register, indexed by name.  Collections which need filter or sort functions must be registered by
+    // a plugin using Environment.registerCollection() instead.
+    collections: Record<string, CollectionOptions>;
+
     // In preview mode, when a request is received, only rerun generator plugins if more than this time (in seconds) 
     // has elapsed since their last run.  Defaults to 5.
     minRegenerationDelay: number;
 
+    // Named sets of configuration values, indexed by profile name.  When a profile is selected, with the --env command
+    // line option or the ICEFORGE_ENV environment variable, its values are deep-merged over the rest of the config file:
+    // nested objects are merged key by key, and any other value, including arrays, replaces the base value.
+    profiles: Record<string, Indexable>;
+
+    // The name of the profile that was applied to this configuration, or null if none was.
+    profile: string | null;
+
     // File that this configuration object was loaded from.
     filename: string;
 
@@ -82,16 +142,38 @@ export default class Config implements IConfig {
         }
     }
 
-    // Create a new Config instance by loading a JSON file and using its 
-    // contents as the configuration values of the new instance.
-    static async fromFile(path: string) : Promise<Config> {
-        const exists = await fileExists(path);
+    // Create a new Config instance by loading a config file and using its 
+    // contents as the configuration values of the new instance.  See loadConfigData() for the supported formats.
+    //
+    // If a profile name is given, that profile's values are merged over the rest of the file; it is an error if the file
+    // does not define the profile.  Environment variable references in string values are then interpolated; see
+    // interpolateEnv().
+    static async fromFile(filename: string, profile?: string) : Promise<Config> {
+        const exists = await fileExists(filename);
         if (!exists) {
-            throw new Error(`Config file ${path} does not exist.`);
+            throw new Error(`Config file ${filename} does not exist.`);
+        }
+        let data = await loadConfigData(filename);
+        if (!isPlainObject(data)) {
+            throw new Error(`Config file ${filename} does not contain a configuration object.`);
+        }
+        if (profile) {
+            if (!isPlainObject(data.profiles?.[profile])) {
+                throw new Error(`Config file ${filename} does not define a profile named ${profile}.`);
+            }
+            data = deepMerge(data, data.profiles[profile]);
+        }
+        // Unselected profiles may refer to environment variables which are only set where those profiles are used.
+        const { profiles = {}, ...values } = data;
+        try {
+            data = { ...interpolateEnv(values) as Indexable, profiles };
+        } catch (error) {
+            error.message = `Config file ${filename}: ${error.message}`;
+            throw error;
         }
-        const data = await readJson(path);
         const config = new Config(data as IConfig);
-        config.filename = path;
+        config.filename = filename;
+        config.profile = profile || null;
         return config;
     }
 }
@@ -104,12 +186,123 @@ export const defaultConfig: IConfig = {
     imports: {},
     filename: null,
     templates: './templates',
+    data: './data',
+    notFound: '404.md',
     views: null,
     output: './build',
     baseUrl: '/',
     hostname: null,
     port: 8080,
     restartOnConfigChange: true,
+    liveReload: true,
     parallelRender: true,
+    incremental: false,
+    buildCache: './.iceforge-cache.json',
+    prune: false,
+    pruneIgnore: ['.git/**', 'CNAME'],
+    compress: false,
+    compressThreshold: 1024,
+    drafts: false,
+    future: false,
+    collections: {},
     minRegenerationDelay: 5,
+    profiles: {},
+    profile: null,
+};
+
+// The names of the config files looked for in a site's directory if no config file is specified, in order of preference.
+export const configFilenames = ['config.json', 'config.yaml', 'config.yml', 'config.js', 'config.mjs'];
+
+// Find the config file in a directory.  Returns the path of the first file in configFilenames which exists, or null if
+// there are none.
+export const findConfigFile = async (directory: string): Promise<string | null> => {
+    for (const filename of configFilenames) {
+        const configPath = path.join(directory, filename);
+        if (await fileExists(configPath)) {
+            return configPath;
+        }
+    }
+    return null;
+};
+
+// Load the data from a config file.  The format is chosen by the file extension:
+// - .yaml and .yml files are parsed as YAML.
+// - .js, .mjs and .cjs files are imported as modules.  The module's default export can be either a config object, or
+//   a function (which may be async) returning one.
+// - any other file is parsed as JSON.
+const loadConfigData = async (filename: string): Promise<Indexable> => {
+    switch (path.extname(filename).toLowerCase()) {
+    case '.yaml':
+    case '.yml':
+        try {
+            return yaml.load((await fs.readFile(filename)).toString()) as Indexable;
+        } catch (error) {
+            error.filename = filename;
+            error.message = `parsing ${path.basename(filename)}: ${error.message}`;
+            throw error;
+        }
+    case '.js':
+    case '.mjs':
+    case '.cjs': {
+        // The query string makes sure the module is imported afresh when the preview server reloads a changed config file.
+        const module = await import(`${pathToFileURL(filename).href}?t=${Date.now()}`);
+        const exported = module.default;
+        return typeof exported === 'function' ? await exported() : exported;
+    }
+    default:
+        return await readJson(filename);
+    }
+};
+
+// Check whether a value is a plain object, such as a parsed JSON or YAML mapping, rather than null, an array or a class
+// instance such as a Date.
+const isPlainObject = (value: unknown): value is Indexable => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+};
+
+// Merge one object over another recursively, returning a new object.  Plain objects present in both are merged; any other
+// value in the second object replaces the value in the first.
+const deepMerge = (base: Indexable, extra: Indexable): Indexable => {
+    const rv: Indexable = { ...base };
+    for (const key of Object.keys(extra)) {
+        rv[key] = isPlainObject(rv[key]) && isPlainObject(extra[key]) ? deepMerge(rv[key], extra[key]) : extra[key];
+    }
+    return rv;
+};
+
+// Replace references to environment variables in the string values of a config object, recursively.  The following forms
+// are recognised:
+// - ${VAR} is replaced with the value of the environment variable VAR.  It is an error if VAR is not set.
+// - ${VAR:-default} is replaced with the value of VAR if it is set and not empty, and with the default text otherwise.
+// - $${VAR} is replaced with the literal text ${VAR}.
+export const interpolateEnv = (value: unknown, env: NodeJS.ProcessEnv = process.env): unknown => {
+    if (typeof value === 'string') {
+        return value.replace(/\$?\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (match: string, name: string, fallback?: string) => {
+            if (match.startsWith('$$')) {
+                return match.slice(1);
+            }
+            if (fallback !== undefined) {
+                return env[name] || fallback;
+            }
+            if (env[name] === undefined) {
+                throw new Error(`environment variable ${name} is not set.`);
+            }
+            return env[name];
+        });
+    }
+    if (Array.isArray(value)) {
+        return value.map(v => interpolateEnv(v, env));
+    }
+    if (isPlainObject(value)) {
+        const rv: Indexable = {};
+        for (const key of Object.keys(value)) {
+            rv[key] = interpolateEnv(value[key], env);
+        }
+        return rv;
+    }
+    return value;
 };
@@ -0,0 +1,193 @@
+import { Indexable } from './coreTypes.js';
+
+// The types a config value can be checked against.  'object' means a plain object, not an array or null.
+export type ConfigValueType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'function' | 'null';
+
+// The schema of a single config setting.
+// - type       The type or types the value may have.
+// - enum       If present, the value must be one of these.
+// - items      For arrays, the type or types of each element.
+// - values     For objects used as maps, the schema of each property value.
+// - properties For objects with known settings, the schema of each setting.  Other settings are reported as unknown.
+export type ConfigSchemaEntry = {
+    type: ConfigValueType | ConfigValueType[];
+    enum?: unknown[];
+    items?: ConfigValueType | ConfigValueType[];
+    values?: ConfigSchemaEntry;
+    properties?: ConfigSchema;
+}
+
+// The schema of a config object, or of a section of one, indexed by setting name.
+export type ConfigSchema = Record<string, ConfigSchemaEntry>;
+
+// A problem found by findConfigProblems().  Invalid values are errors; unknown settings are only warnings, because a
+// plugin may read a config section without registering a schema for it.
+export type ConfigProblem = {
+    level: 'error' | 'warning';
+    key: string;
+    message: string;
+}
+
+const collectionSchema: ConfigSchemaEntry = {
+    type: 'object',
+    properties: {
+        path: { type: 'string' },
+        pattern: { type: 'string' },
+        filter: { type: 'function' },
+        sort: { type: ['string', 'function'] },
+        paginate: { type: 'object' },
+        groupBy: { type: 'object' },
+    },
+};
+
+// The schema of the settings in IConfig.  See the Config class for what each setting does.
+export const coreConfigSchema: ConfigSchema = {
+    contents: { type: 'string' },
+    filename: { type: ['string', 'null'] },
+    ignore: { type: 'array', items: 'string' },
+    locals: { type: ['object', 'string'] },
+    plugins: { type: 'array', items: 'string' },
+    imports: { type: 'object', values: { type: 'string' } },
+    require: { type: 'object', values: { type: 'string' } },
+    templates: { type: 'string' },
+    data: { type: 'string' },
+    views: { type: ['string', 'null'] },
+    notFound: { type: ['string', 'null'] },
+    output: { type: 'string' },
+    baseUrl: { type: 'string' },
+    absoluteBaseUrl: { type: 'string' },
+    hostname: { type: ['string', 'null'] },
+    port: { type: 'number' },
+    restartOnConfigChange: { type: 'boolean' },
+    liveReload: { type: 'boolean' },
+    parallelRender: { type: 'boolean' },
+    incremental: { type: 'boolean' },
+    buildCache: { type: 'string' },
+    prune: { type: 'boolean' },
+    pruneIgnore: { type: 'array', items: 'string' },
+    compress: { type: 'boolean' },
+    compressThreshold: { type: 'number' },
+    drafts: { type: 'boolean' },
+    future: { type: 'boolean' },
+    collections: { type: 'object', values: collectionSchema },
+    minRegenerationDelay: { type: 'number' },
+    profiles: { type: 'object', values: { type: 'object' } },
+    profile: { type: ['string', 'null'] },
+};
+
+// Get the schema type of a value.
+const typeOf = (value: unknown): ConfigValueType | 'undefined' => {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    return typeof value as ConfigValueType | 'undefined';
+};
+
+// Describe a value for an error message.
+const describe = (value: unknown): string => {
+    const type = typeOf(value);
+    if (type === 'string') {
+        return `the string ${JSON.stringify(value)}`;
+    }
+    if (type === 'number' || type === 'boolean') {
+        return `the ${type} ${value}`;
+    }
+    return type === 'null' ? 'null' : `${type === 'array' ? 'an' : 'a'} ${type}`;
+};
+
+// Check whether a value has one of a list of types.  NaN is not accepted as a number.
+const hasType = (value: unknown, types: ConfigValueType | ConfigValueType[]): boolean => {
+    const type = typeOf(value);
+    if (type === 'number' && isNaN(value as number)) {
+        return false;
+    }
+    return ([] as ConfigValueType[]).concat(types).includes(type as ConfigValueType);
+};
+
+// The number of single-character insertions, deletions or substitutions needed to turn one string into another.
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Find the known setting name most likely to have been meant by an unknown one, or null if none is close enough.
+// Names which differ only in case always match; otherwise up to one edit per three characters is allowed.
+export const didYouMean = (name: string, candidates: string[]): string | null => {
+    let best: string = null;
+    let bestDistance = Math.max(1, Math.floor(name.length / 3)) + 1;
+    for (const candidate of candidates) {
+        const distance = candidate.toLowerCase() === name.toLowerCase() ? 0 : editDistance(name, candidate);
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return best;
+};
+
+// Validate a value against a schema entry, adding any problems found to a list.  The key is the dotted path of the value
+// in the config object, for use in messages.
+const validateValue = (value: unknown, entry: ConfigSchemaEntry, key: string, problems: ConfigProblem[]): void => {
+    if (!hasType(value, entry.type)) {
+        const expected = ([] as ConfigValueType[]).concat(entry.type).join(' or ');
+        problems.push({ level: 'error', key, message: `expected ${expected}, but found ${describe(value)}.` });
+        return;
+    }
+    if (entry.enum && !entry.enum.includes(value)) {
+        problems.push({ level: 'error', key, message: `expected one of ${entry.enum.map(v => JSON.stringify(v)).join(', ')}, but found ${describe(value)}.` });
+    }
+    if (Array.isArray(value) && entry.items) {
+        value.forEach((item, i) => validateValue(item, { type: entry.items }, `${key}[${i}]`, problems));
+    }
+    if (typeOf(value) === 'object') {
+        const obj = value as Indexable;
+        if (entry.values) {
+            for (const k of Object.keys(obj)) {
+                validateValue(obj[k], entry.values, `${key}.${k}`, problems);
+            }
+        }
+        if (entry.properties) {
+            validateObject(obj, entry.properties, `${key}.`, [], problems);
+        }
+    }
+};
+
+// Validate the settings of an object against a schema, adding any problems found to a list.  Unknown settings are
+// reported unless their names start with an underscore or are listed in ignoreUnknown.
+const validateObject = (obj: Indexable, schema: ConfigSchema, prefix: string, ignoreUnknown: string[], problems: ConfigProblem[]): void => {
+    const known = Object.keys(schema);
+    for (const k of Object.keys(obj)) {
+        if (Object.hasOwn(schema, k)) {
+            if (obj[k] !== undefined) {
+                validateValue(obj[k], schema[k], `${prefix}${k}`, problems);
+            }
+        } else if (!k.startsWith('_') && !ignoreUnknown.includes(k)) {
+            const suggestion = didYouMean(k, known);
+            problems.push({
+                level: 'warning',
+                key: `${prefix}${k}`,
+                message: `unknown setting.${suggestion ? `  Did you mean ${prefix}${suggestion}?` : ''}`
+            });
+        }
+    }
+};
+
+// Validate a config object against the core config schema and the schemas of any config sections registered by plugins,
+// and return the problems found.  Settings which were set from the command line, listed in config._cliopts, are not
+// reported as unknown, because the command line options include aliases and options which are not config settings.
+export const findConfigProblems = (config: Indexable, sections: ConfigSchema = {}): ConfigProblem[] => {
+    const problems: ConfigProblem[] = [];
+    const cliopts = Object.keys(config._cliopts || {});
+    validateObject(config, { ...coreConfigSchema, ...sections }, '', cliopts, problems);
+    return problems;
+};
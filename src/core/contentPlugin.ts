@@ -1,7 +1,7 @@
 import * as path from 'node:path';
 
 import * as utils from './utils.js';
-import { IContentTree, FilePath, GeneratorDef, IEnvironment, ViewFunc } from './coreTypes.js';
+import { IContentTree, FilePath, GeneratorDef, IEnvironment, TemplateMap, ViewFunc } from './coreTypes.js';
 
 export type ContentPluginDef = {
     name: string;
@@ -53,6 +53,15 @@ export default class ContentPlugin {
         throw new Error('fromFile() not implemented');
     }
 
+    // This function is called before any content is rendered, with the full content tree and the loaded templates.  Plugins
+    // which need to do asynchronous work before they can be rendered, such as expanding the shortcodes in Markdown pages,
+    // should override it, so that the work is done before the content is used by other pages or by templates.  It is called
+    // again if the content tree or the templates are reloaded.
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    async prepare(contents: IContentTree, templates: TemplateMap): Promise<void> {
+        return;
+    }
+
     // This function converts the plugin's filename property into a relative URL, using the configuration base URL.
     getUrl(baseUrl?: string): string {
         let filename = this.filename;
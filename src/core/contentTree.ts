@@ -4,11 +4,12 @@ import { setImmediate } from 'node:timers/promises';
 import chalk from 'chalk';
 import { minimatch } from 'minimatch';
 
-import { IContentTree, ContentTreeGroups, FilePath, IEnvironment, Indexable, ContentTreeNode } from './coreTypes.js';
+import { ContentMap, IContentTree, ContentTreeGroups, FilePath, IEnvironment, Indexable, ContentTreeNode } from './coreTypes.js';
 import { minimatchOptions } from './config.js';
 import ContentPlugin from './contentPlugin.js';
 import logger from './logger.js';
 import { defaultPluginDef } from './staticFile.js';
+import { normaliseUrl } from './utils.js';
 
 type indexableChalk = {
     [index: string]: ((s: string) => string);
@@ -103,7 +104,9 @@ export default class ContentTree implements IContentTree {
             await setImmediate();
             const stats = await fs.stat(filepath.full);
             const basename = path.basename(filepath.relative);
-            if (stats.isDirectory()) {
+            if (stats.isDirectory() && filepath.full === env.dataPath) {
+                env.logger.verbose(`Skipping the data directory ${filepath.relative}`);
+            } else if (stats.isDirectory()) {
                 const result = await ContentTree.fromDirectory(env, filepath.full) as IContentTree;
                 result.parent = tree;
                 tree[basename] = result;
@@ -209,6 +212,44 @@ export default class ContentTree implements IContentTree {
         return rv;
     }
 
+    // Build an index of all content in one or more content trees, keyed by normalised URL.
+    static lookupMap(tree: IContentTree | IContentTree[]): ContentMap {
+        const map: ContentMap = {};
+        for (const item of ContentTree.flatten(tree)) {
+            map[normaliseUrl(item.url)] = item;
+        }
+        return map;
+    }
+
+    // Remove the leaf nodes for which a predicate returns true from a content tree, recursively, and return them.
+    // Directories which are left empty are also removed.
+    static remove(tree: IContentTree, predicate: (item: ContentPlugin) => boolean): ContentPlugin[] {
+        if (!tree) {
+            return [];
+        }
+        let removed: ContentPlugin[] = [];
+        for (const k of Object.keys(tree)) {
+            if (tree[k] instanceof ContentTree) {
+                const subtree = tree[k] as IContentTree;
+                const removedFromSubtree = ContentTree.remove(subtree, predicate);
+                if (removedFromSubtree.length && !Object.keys(subtree).length) {
+                    delete tree[k];
+                    tree._.directories = tree._.directories.filter(d => d !== subtree);
+                }
+                removed = removed.concat(removedFromSubtree);
+            } else if ((tree[k] as ContentTreeNode).isLeaf && predicate(tree[k] as ContentPlugin)) {
+                removed.push(tree[k] as ContentPlugin);
+                delete tree[k];
+            }
+        }
+        for (const group of Object.keys(tree._)) {
+            if (group !== 'directories') {
+                tree._[group] = tree._[group].filter(item => !removed.includes(item as ContentPlugin));
+            }
+        }
+        return removed;
+    }
+
     // Merge two content trees recursively from their roots, mutating the first.
     // This routine throws an error if it encounters a non-leaf node that is not a ContentTree instance.
     static merge(root: IContentTree, tree: IContentTree): void {
@@ -1,7 +1,13 @@
 import * as winston from 'winston';
 import TemplatePlugin, { TemplatePluginDef } from './templatePlugin.js';
 import ContentPlugin, { ContentPluginDef } from './contentPlugin.js';
+import { LinkProblem } from './linkChecker.js';
+import { Collection, CollectionDef, CollectionOptions } from './collection.js';
+import { ConfigSchemaEntry } from './configSchema.js';
+import { ShortcodeDef, ShortcodeFunc } from './shortcodes.js';
 import { ReadStream } from 'fs';
+import { HelperDelegate } from 'handlebars';
+import { MarkedExtension } from 'marked';
 import { ParsedArgs } from 'minimist';
 
 // Type of the configuration file.
@@ -14,6 +20,7 @@ export interface IConfig {
     imports: ModuleMap;
     require?: ModuleMap;
     templates: string;
+    data: string;
     views: string;
     output: string;
     baseUrl: string;
@@ -21,8 +28,18 @@ export interface IConfig {
     hostname: string;
     port: number;
     restartOnConfigChange: boolean;
+    liveReload: boolean;
     parallelRender: boolean;
+    incremental: boolean;
+    buildCache: string;
+    prune: boolean;
+    pruneIgnore: string[];
+    drafts: boolean;
+    future: boolean;
+    collections: Record<string, CollectionOptions>;
     minRegenerationDelay: number;
+    profiles: Record<string, Indexable>;
+    profile: string | null;
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     [index: string]: any;
@@ -32,6 +49,7 @@ export interface IConfig {
 export interface CommonOptions extends ParsedArgs {
     chdir?: string;
     config?: string;
+    env?: string;
     port?: number;
     require?: string;
 }
@@ -66,12 +84,19 @@ export type ContentTreeNode = {
 export interface IEnvironment {
     config: IConfig;
     contentPlugins: ContentPluginDef[];
+    collections: Record<string, CollectionDef>;
     contentsPath: string;
+    dataPath: string;
     generators: GeneratorDef[];
+    handlebarsHelpers: Record<string, HandlebarsHelperDef>;
     helpers: object;
+    locals: Indexable;
     logger: winston.Logger;
+    markdownExtensions: MarkdownExtensionDef[];
     mode: string;
+    nunjucksFilters: Record<string, NunjucksFilterDef>;
     plugins: PluginMap;
+    shortcodes: Record<string, ShortcodeDef>;
     templatesPath: string;
     templatePlugins: TemplatePluginDef[];
     views: ViewMap;
@@ -81,13 +106,29 @@ export interface IEnvironment {
     relativeContentsPath: (pathname: string) => string;
     resolvePath: (pathname: string) => string;
     build: (outputDir?: string) => Promise<void>;
+    watch: (outputDir?: string) => Promise<() => Promise<void>>;
+    check: () => Promise<LinkProblem[]>;
     registerTemplatePlugin: (pattern: string, plugin: typeof TemplatePlugin) => void;
     registerContentPlugin: (group: string, pattern: string, plugin: typeof ContentPlugin) => void;
     registerGenerator: EnvironmentRegisterGeneratorFunc;
+    registerCollection: (name: string, options: CollectionOptions) => void;
+    registerConfigSchema: (section: string, schema: ConfigSchemaEntry) => void;
+    registerShortcode: (name: string, handler: string | ShortcodeFunc) => void;
+    registerMarkdownExtension: (name: string, extension: MarkdownExtension, enabled?: boolean) => void;
+    registerNunjucksFilter: (name: string, filter: NunjucksFilter, async?: boolean) => void;
+    registerHandlebarsHelper: (name: string, helper: HelperDelegate) => void;
+    getCollection: (name: string, contents: IContentTree) => Collection;
+    loadModule: (module: string) => Promise<Indexable>;
+    loadPlugins: () => Promise<void>;
+    loadViews: () => Promise<void>;
     preview: () => Promise<void>;
+    serve: () => Promise<void>;
 }
 
-type EnvironmentRegisterGeneratorFunc = ((name: string, fn: GeneratorFunc) => void) | ((name: string, group: string, fn: GeneratorFunc) => void);
+type EnvironmentRegisterGeneratorFunc = {
+    (name: string, fn: GeneratorFunc, options?: GeneratorOptions): void;
+    (name: string, group: string, fn: GeneratorFunc, options?: GeneratorOptions): void;
+};
 
 // A utility type representing a file path.
 export type FilePath = {
@@ -102,14 +143,52 @@ export type FilePath = {
 // If a generator function needs to access the environment, it should be passed in at generator function registration.
 export type GeneratorFunc = (contents: IContentTree) => Promise<IContentTree>;
 
+// Options for a generator.  Generators run in parallel on the primary content tree, unless runLast is set, in which
+// case they run afterwards, in turn, on the content tree merged with the content generated by the other generators.
+export type GeneratorOptions = {
+    runLast?: boolean;
+}
+
 // A generator plugin definition, consisting of the parameters passed to the Environment.registerGenerator() function
 // - generator name
 // - plugin group used by this plugin's generated pages
 // - generator function
+// - generator options
 export type GeneratorDef = {
     name: string;
     group: string;
     fn: GeneratorFunc;
+} & GeneratorOptions;
+
+// A Marked extension used to render Markdown pages, or a function which returns one for the page being rendered.  A
+// function is called each time a page is rendered, so it can be used for extensions which keep state while parsing.
+export type MarkdownExtension = MarkedExtension | ((page: ContentPlugin) => MarkedExtension);
+
+// A Markdown extension definition, consisting of the parameters passed to the Environment.registerMarkdownExtension()
+// function.  Extensions which are not enabled can still be enabled in the config or in a page's metadata.
+export type MarkdownExtensionDef = {
+    name: string;
+    extension: MarkdownExtension;
+    enabled: boolean;
+}
+
+// A filter for Nunjucks templates.  It is called with the filtered value followed by the filter's arguments, and with a
+// callback as its last argument if it is asynchronous.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type NunjucksFilter = (...args: any[]) => unknown;
+
+// A Nunjucks filter definition, consisting of the parameters passed to the Environment.registerNunjucksFilter() function.
+export type NunjucksFilterDef = {
+    name: string;
+    filter: NunjucksFilter;
+    async: boolean;
+}
+
+// A Handlebars helper definition, consisting of the parameters passed to the Environment.registerHandlebarsHelper()
+// function.
+export type HandlebarsHelperDef = {
+    name: string;
+    helper: HelperDelegate;
 }
 
 // Definition of an Iceforge plugin module: a module whose default export is an async function with an IEnvironment parameter.
@@ -0,0 +1,130 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import yaml from 'js-yaml';
+
+import { Indexable } from './coreTypes.js';
+import { fileExists, readDirRecursive, readJson, stripExtension } from './utils.js';
+
+// The data directory holds structured data for templates and plugins, such as authors, navigation menus or product
+// tables, which is not rendered as content.  Its files are loaded into locals.data, keyed by their path in the
+// directory without the extension, so data/authors/caitlin.json is locals.data.authors.caitlin.  Files are parsed by
+// extension:
+// - .json files are parsed as JSON.
+// - .yaml and .yml files are parsed as YAML.
+// - .csv files are parsed as comma-separated values.  The first row is the header row, and each other row becomes an
+//   object whose keys are the column headers.  All values are strings.
+// Other files are ignored.
+
+// The extensions of the data files which can be loaded.
+export const dataExtensions = ['.json', '.yaml', '.yml', '.csv'];
+
+// Parse comma-separated values, following RFC 4180: fields may be quoted with double quotes, in which case they can
+// contain commas, line breaks and doubled double quotes.  Returns the rows as arrays of fields.
+export const parseCsvRows = (source: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    let i = 0;
+    const endRow = () => {
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+    };
+    while (i < source.length) {
+        const c = source[i];
+        if (quoted) {
+            if (c === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (c === '"') {
+                quoted = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === ',') {
+            row.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            endRow();
+            if (c === '\r' && source[i + 1] === '\n') {
+                i++;
+            }
+        } else {
+            field += c;
+        }
+        i++;
+    }
+    if (quoted) {
+        throw new Error('unterminated quoted field');
+    }
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+    return rows;
+};
+
+// Parse comma-separated values with a header row into an array of objects keyed by the column headers.  Rows with
+// fewer fields than the header have the missing values set to empty strings.  Blank lines are skipped.
+export const parseCsv = (source: string): Record<string, string>[] => {
+    const [header, ...rows] = parseCsvRows(source).filter(row => row.length > 1 || row[0] !== '');
+    if (!header) {
+        return [];
+    }
+    return rows.map(row => Object.fromEntries(header.map((key, i) => [key, row[i] ?? ''])));
+};
+
+// Load a single data file.
+const loadDataFile = async (filename: string): Promise<unknown> => {
+    const extension = path.extname(filename).toLowerCase();
+    if (extension === '.json') {
+        return await readJson(filename);
+    }
+    const source = (await fs.readFile(filename)).toString();
+    try {
+        return extension === '.csv' ? parseCsv(source) : yaml.load(source);
+    } catch (error) {
+        error.filename = filename;
+        error.message = `parsing ${path.basename(filename)}: ${error.message}`;
+        throw error;
+    }
+};
+
+// Load the data files in a directory.  Returns an empty object if the directory does not exist.  Throws an error if two
+// files would have the same key, such as nav.json and nav.yaml, or if a file has the same key as a directory.
+export const loadData = async (directory: string): Promise<Indexable> => {
+    const data: Indexable = {};
+    if (!(await fileExists(directory))) {
+        return data;
+    }
+    const filenames = (await readDirRecursive(directory))
+        .filter(f => dataExtensions.includes(path.extname(f).toLowerCase()))
+        .sort();
+    const sources: Record<string, string> = {};
+    for (const filename of filenames) {
+        const keys = stripExtension(filename).split(path.sep);
+        const key = keys.join('/');
+        let parent = data;
+        for (let i = 0; i < keys.length - 1; i++) {
+            const dirKey = keys.slice(0, i + 1).join('/');
+            if (Object.hasOwn(sources, dirKey)) {
+                throw new Error(`Data file ${sources[dirKey]} has the same name as the directory ${keys.slice(0, i + 1).join(path.sep)}`);
+            }
+            parent[keys[i]] ??= {};
+            parent = parent[keys[i]];
+        }
+        const name = keys[keys.length - 1];
+        if (Object.hasOwn(sources, key)) {
+            throw new Error(`Data files ${sources[key]} and ${filename} have the same name`);
+        }
+        if (Object.hasOwn(parent, name)) {
+            throw new Error(`Data file ${filename} has the same name as the directory ${stripExtension(filename)}`);
+        }
+        sources[key] = filename;
+        parent[name] = await loadDataFile(path.join(directory, filename));
+    }
+    return data;
+};
@@ -3,21 +3,29 @@ import * as fs from 'node:fs/promises';
 import { pathToFileURL } from 'node:url';
 import { createRequire } from 'node:module';
 import { Logger } from 'winston';
+import { HelperDelegate } from 'handlebars';
 
 import { 
     GeneratorDef, 
     GeneratorFunc, 
+    GeneratorOptions,
+    HandlebarsHelperDef, 
     IConfig, 
+    IContentTree, 
     IEnvironment, 
     ImportedModule, 
     Indexable, 
+    MarkdownExtension, 
+    MarkdownExtensionDef, 
+    NunjucksFilter, 
+    NunjucksFilterDef, 
     PluginMap, 
     ViewFunc, 
     ViewMap 
 } from './coreTypes.js';
 import ContentTree from './contentTree.js';
 import loadTemplates from './loadTemplates.js';
-import { readJson } from './utils.js';
+import { fileExists, readJson } from './utils.js';
 import runGenerator from './generator.js';
 import logger from './logger.js';
 import Config from './config.js';
@@ -25,6 +33,16 @@ import render from './render.js';
 import TemplatePlugin, { TemplatePluginDef } from './templatePlugin.js';
 import ContentPlugin, { ContentPluginDef } from './contentPlugin.js';
 import StaticFile from './staticFile.js';
+import BuildCache from './buildCache.js';
+import checkLinks from './linkChecker.js';
+import prune from './prune.js';
+import { compressOutputs } from './compression.js';
+import { writeNotFoundPage } from './errorPages.js';
+import removeUnpublished from './publishing.js';
+import buildCollection, { Collection, CollectionDef, CollectionOptions, collectionTree } from './collection.js';
+import { ConfigSchema, ConfigSchemaEntry, findConfigProblems } from './configSchema.js';
+import { ShortcodeDef, ShortcodeFunc } from './shortcodes.js';
+import { loadData } from './data.js';
 import EventEmitter from 'node:events';
 
 // The class that represents the Iceforge build-time environment.  Its properties are exposed to
@@ -40,8 +58,8 @@ export default class Environment extends EventEmitter implements IEnvironment {
     // Working directory
     workDir;
 
-    // Whether Iceforge is running in build mode or preview mode.  Could be used to generate different
-    // content if the site is being used in the preview server.
+    // Whether Iceforge is running in build mode, preview mode or watch mode (build --watch).  Could be used to generate
+    // different content if the site is being used in the preview server.
     mode: string;
 
     // An array of module names that have been imported.
@@ -53,6 +71,24 @@ export default class Environment extends EventEmitter implements IEnvironment {
     // Page generator plugins.
     generators: GeneratorDef[];
 
+    // Registered collections, indexed by name.
+    collections: Record<string, CollectionDef>;
+
+    // Schemas of the config sections registered by plugins, indexed by section name.
+    configSchemas: ConfigSchema;
+
+    // Shortcodes which can be used in Markdown pages, indexed by name.
+    shortcodes: Record<string, ShortcodeDef>;
+
+    // Marked extensions used to render Markdown pages as well as the built-in ones, in registration order.
+    markdownExtensions: MarkdownExtensionDef[];
+
+    // Filters available in Nunjucks templates, indexed by name.
+    nunjucksFilters: Record<string, NunjucksFilterDef>;
+
+    // Helpers available in Handlebars templates, as well as the functions in the helpers object, indexed by name.
+    handlebarsHelpers: Record<string, HandlebarsHelperDef>;
+
     // Content and template plugins, indexed by class name.  Can be used to create plugin classes that
     // definitely inherit from a previously-loaded plugin, not from a different copy or version of Iceforge.
     plugins: PluginMap;
@@ -75,6 +111,13 @@ export default class Environment extends EventEmitter implements IEnvironment {
     // Path to the site's templates folder.
     templatesPath: string;
 
+    // Path to the site's data folder.
+    dataPath: string;
+
+    // The data last loaded from the data folder into locals.data, if any, so that it can be told apart from a local
+    // with the same name set in the config.
+    private dataLocal: Indexable | null;
+
     // This should not be called.  Instead, the asynchroous static factory method should be called, as this
     // also runs the asynchronous part of environment loading.
     private constructor(config: IConfig, workDir: string, logger: Logger) {
@@ -105,6 +148,12 @@ export default class Environment extends EventEmitter implements IEnvironment {
             none: () => Promise.resolve(null)
         };
         this.generators = [];
+        this.collections = {};
+        this.configSchemas = {};
+        this.shortcodes = {};
+        this.markdownExtensions = [];
+        this.nunjucksFilters = {};
+        this.handlebarsHelpers = {};
         this.plugins = { StaticFile };
         this.templatePlugins = [];
         this.contentPlugins = [];
@@ -118,11 +167,12 @@ export default class Environment extends EventEmitter implements IEnvironment {
         this.config = config;
         this.contentsPath = this.resolvePath(config.contents);
         this.templatesPath = this.resolvePath(config.templates);
+        this.dataPath = this.resolvePath(config.data);
     }
 
-    // Load the contents of config.locals into this.locals; then import any modules listed in
-    // config.require and config.imports and make their default exports accessible as properties 
-    // of this.locals also.
+    // Load the contents of config.locals into this.locals, and the files in the data directory into this.locals.data;
+    // then import any modules listed in config.require and config.imports and make their default exports accessible as
+    // properties of this.locals also.
     async setupLocals() {
         this.locals = {};
         if (typeof this.config.locals === 'string') {
@@ -132,6 +182,8 @@ export default class Environment extends EventEmitter implements IEnvironment {
         } else {
             this.locals = { ...this.config.locals };
         }
+        this.dataLocal = null;
+        await this.loadData();
 
         const importables = { ...this.config.require, ...this.config.imports };
         logger.verbose(`Loading the following: ${JSON.stringify(importables)}`);
@@ -148,6 +200,23 @@ export default class Environment extends EventEmitter implements IEnvironment {
         }
     }
 
+    // Load the files in the data directory into this.locals.data.  See data.ts for the supported formats.  If there is
+    // no data directory, any other local named data is left alone.
+    async loadData() {
+        if (!(await fileExists(this.dataPath))) {
+            if (this.dataLocal && this.locals.data === this.dataLocal) {
+                delete this.locals.data;
+            }
+            this.dataLocal = null;
+            return;
+        }
+        if ('data' in this.locals && this.locals.data !== this.dataLocal) {
+            logger.warn('The data directory overwrites the previous local with the same key (\'data\')');
+        }
+        this.logger.verbose(`Loading data from ${this.dataPath}`);
+        this.locals.data = this.dataLocal = await loadData(this.dataPath);
+    }
+
     // Resolve a path against the working directory.
     resolvePath(pathname: string) {
         return path.resolve(this.workDir, pathname);
@@ -222,25 +291,109 @@ export default class Environment extends EventEmitter implements IEnvironment {
 
     // Register a generator function.
     // Generator functions are called in sequence after the primary (file-based) content tree has been loaded, to add further content plugin
-    // instances to the content tree.
-    registerGenerator(name: string, generator: GeneratorFunc): void;
-    registerGenerator(name: string, group: string, generator: GeneratorFunc): void;
-    registerGenerator(name: string, groupOrGenerator: string | GeneratorFunc, generator?: GeneratorFunc) {
+    // instances to the content tree.  Generators registered with the runLast option are called after the others, and
+    // are given the content tree including the content the others generated.
+    registerGenerator(name: string, generator: GeneratorFunc, options?: GeneratorOptions): void;
+    registerGenerator(name: string, group: string, generator: GeneratorFunc, options?: GeneratorOptions): void;
+    registerGenerator(name: string, groupOrGenerator: string | GeneratorFunc, generatorOrOptions?: GeneratorFunc | GeneratorOptions, options?: GeneratorOptions) {
         if (typeof groupOrGenerator === 'string') {
             this.generators.push({
                 name,
                 group: groupOrGenerator,
-                fn: generator
+                fn: generatorOrOptions as GeneratorFunc,
+                ...options
             });
         } else {
             this.generators.push({
                 name,
                 group: name,
-                fn: groupOrGenerator
+                fn: groupOrGenerator,
+                ...generatorOrOptions as GeneratorOptions
             });
         }
     }
 
+    // Register a collection: a filtered and sorted list of content items, which can optionally be paginated and grouped
+    // by a metadata key.  This registers a generator which adds the collection's pages to the content tree under
+    // collections/<name>, and makes the built collection available to templates as collections.<name>.
+    registerCollection(name: string, options: CollectionOptions) {
+        this.logger.verbose(`Registering collection ${name}`);
+        const collection = { name, options };
+        this.collections[name] = collection;
+        this.registerGenerator(name, 'collections', async (contents) => {
+            const built = buildCollection(this, collection, contents);
+            this.locals.collections = { ...this.locals.collections, [name]: built };
+            return collectionTree(built);
+        });
+    }
+
+    // Build a registered collection from a content tree.
+    getCollection(name: string, contents: IContentTree): Collection {
+        if (!this.collections[name]) {
+            throw new Error(`Unknown collection ${name}`);
+        }
+        return buildCollection(this, this.collections[name], contents);
+    }
+
+    // Register a shortcode for use in Markdown pages.  The handler is either a function which returns the shortcode's output,
+    // or the name of a template to render it with.  See shortcodes.ts for the shortcode syntax.  A shortcode registered
+    // with the same name as an existing one replaces it.
+    registerShortcode(name: string, handler: string | ShortcodeFunc) {
+        this.logger.verbose(`Registering shortcode ${name}`);
+        this.shortcodes[name] = { name, handler };
+    }
+
+    // Register a Marked extension to use when rendering Markdown pages.  Extensions are used after the built-in extensions,
+    // in registration order, unless the name is that of a built-in extension (highlight, mangle, smartypants or headingId),
+    // in which case the extension replaces the built-in one.  An extension registered with the same name as an existing one
+    // replaces it.  Extensions which are not enabled by default can be enabled in the config or in page metadata.
+    registerMarkdownExtension(name: string, extension: MarkdownExtension, enabled = true) {
+        this.logger.verbose(`Registering Markdown extension ${name}`);
+        const def = { name, extension, enabled };
+        const index = this.markdownExtensions.findIndex(d => d.name === name);
+        if (index === -1) {
+            this.markdownExtensions.push(def);
+        } else {
+            this.markdownExtensions[index] = def;
+        }
+    }
+
+    // Register a filter for Nunjucks templates.  An asynchronous filter takes a callback as its last argument, rather than
+    // returning its result.  A filter registered with the same name as an existing one, including a Nunjucks built-in
+    // filter, replaces it.
+    registerNunjucksFilter(name: string, filter: NunjucksFilter, async = false) {
+        this.logger.verbose(`Registering Nunjucks filter ${name}`);
+        this.nunjucksFilters[name] = { name, filter, async };
+    }
+
+    // Register a helper for Handlebars templates.  Functions in the helpers object are also available to Handlebars
+    // templates as helpers, but a helper registered with the same name as one of them replaces it.
+    registerHandlebarsHelper(name: string, helper: HelperDelegate) {
+        this.logger.verbose(`Registering Handlebars helper ${name}`);
+        this.handlebarsHelpers[name] = { name, helper };
+    }
+
+    // Register the schema of a plugin's config section, such as the "sitemap" section used by the sitemap plugin, so that
+    // the section is checked when the config is validated.
+    registerConfigSchema(section: string, schema: ConfigSchemaEntry) {
+        this.configSchemas[section] = schema;
+    }
+
+    // Check the config against the core config schema and the config section schemas registered by plugins.  Unknown
+    // settings are logged as warnings, unless logWarnings is false.  Invalid values are errors, which are logged and
+    // stop the site from loading.
+    validateConfig(logWarnings = true) {
+        const source = this.config.filename || 'Config';
+        const problems = findConfigProblems(this.config, this.configSchemas);
+        for (const problem of problems.filter(p => logWarnings && p.level === 'warning')) {
+            this.logger.warn(`${source}: ${problem.key}: ${problem.message}`);
+        }
+        const errors = problems.filter(p => p.level === 'error');
+        if (errors.length) {
+            throw new Error(`${source}: invalid configuration:\n  ${errors.map(p => `${p.key}: ${p.message}`).join('\n  ')}`);
+        }
+    }
+
     // Register a named view function.  Content plugins may return the name of a registered view function to render their content, or may return
     // a function themselves.
     registerView(name: string, view: ViewFunc) {
@@ -306,9 +459,9 @@ export default class Environment extends EventEmitter implements IEnvironment {
         this.registerView(path.basename(id), module.default);
     }
 
-    // Load general plugin modules and register their plugins, starting with the three plugins defined in 
+    // Load general plugin modules and register their plugins, starting with the default plugins defined in 
     // the static Environment.defaultPlugins array.  Other plugins are registered in the order they are
-    // listed in the configuration file.
+    // listed in the configuration file.  Once all plugins have registered their config schemas, the config is validated.
     async loadPlugins() {
         const require = createRequire(import.meta.url);
         for (const plugin of Environment.defaultPlugins) {
@@ -331,6 +484,10 @@ export default class Environment extends EventEmitter implements IEnvironment {
             this.logger.verbose(`Loading plugin ${plugin}`);
             await this.loadPluginModule(plugin);
         }
+        this.validateConfig();
+        for (const name of Object.keys(this.config.collections || {})) {
+            this.registerCollection(name, this.config.collections[name]);
+        }
     }
 
     // Load view plugins.
@@ -346,15 +503,25 @@ export default class Environment extends EventEmitter implements IEnvironment {
     }
 
     // Load the content tree.  This function builds a primary content tree from the config.contentsPath directory, 
-    // runs all generator functions, and merges all generated trees into the primary content tree.
+    // removes unpublished content from it, runs all generator functions, and merges all generated trees into the
+    // primary content tree.  Generators registered with the runLast option are then run on the merged tree, and the
+    // trees they generate are merged into it too.
     async getContents() {
         const contents = await ContentTree.fromDirectory(this, this.contentsPath);
-        const generated = await Promise.all(this.generators.map((g) => runGenerator(this, contents, g)));                
+        const unpublished = removeUnpublished(this, contents);
+        if (unpublished.length) {
+            this.logger.info(`Skipped ${unpublished.length} unpublished page${unpublished.length === 1 ? '' : 's'}`);
+        }
+        const parallel = this.generators.filter(g => !g.runLast);
+        const generated = await Promise.all(parallel.map((g) => runGenerator(this, contents, g)));
         const tree = new ContentTree('', this.getContentGroups());
         for (const gentree of generated) {
             ContentTree.merge(tree, gentree);
         }
         ContentTree.merge(tree, contents);
+        for (const generator of this.generators.filter(g => g.runLast)) {
+            ContentTree.merge(tree, await runGenerator(this, tree, generator));
+        }
         return tree;
     }
 
@@ -391,12 +558,57 @@ export default class Environment extends EventEmitter implements IEnvironment {
         await server.run(this);
     }
 
-    // Runs a site build.
+    // Starts a server for the build output directory.
+    async serve() {
+        const server = await import('./outputServer.js');
+        await server.run(this);
+    }
+
+    // Runs a site build.  If config.incremental is set, the build cache is loaded before rendering and saved afterwards.
+    // The output of the not found page is also written to 404.html.  If config.compress is set, compressed copies of
+    // text output files are written afterwards, and if config.prune is set, output files which the build did not
+    // produce are deleted.
     async build(outputDir?: string) {
         this.mode = 'build';
         outputDir = outputDir || this.resolvePath(this.config.output);
         const { contents, templates, locals } = await this.load();
-        await render(this, outputDir, contents, templates, locals);
+        let cache: BuildCache = null;
+        if (this.config.incremental) {
+            cache = await BuildCache.load(this.resolvePath(this.config.buildCache));
+            await cache.prepare(this, contents, this.loadedModules);
+        }
+        const result = await render(this, outputDir, contents, templates, locals, cache);
+        await writeNotFoundPage(this, outputDir, contents, result);
+        if (cache) {
+            await cache.save();
+        }
+        let compressed: string[] = [];
+        if (this.config.compress) {
+            compressed = await compressOutputs(this, outputDir, [...result.written, ...result.unchanged], result.unchanged);
+            this.logger.info(`${compressed.length} compressed output file${compressed.length === 1 ? '' : 's'} up to date`);
+        }
+        if (this.config.prune) {
+            const removed = await prune(this, outputDir, [...result.written, ...result.unchanged, ...compressed]);
+            if (removed.length) {
+                this.logger.info(`Removed ${removed.length} stale file${removed.length === 1 ? '' : 's'} from the output directory:\n  ${removed.join('\n  ')}`);
+            } else {
+                this.logger.info('No stale files found in the output directory');
+            }
+        }
+    }
+
+    // Runs a site build, then rebuilds the site whenever its source files change.  Returns a function which stops
+    // watching.  See watch.ts.
+    async watch(outputDir?: string) {
+        const watcher = await import('./watch.js');
+        return await watcher.run(this, outputDir);
+    }
+
+    // Renders the site in memory and checks its internal links, returning any problems found.
+    async check() {
+        this.mode = 'build';
+        const { contents, templates, locals } = await this.load();
+        return await checkLinks(this, contents, templates, locals);
     }
 
     // Factory method to create a new instance.  This function loads the config for you, 
@@ -412,5 +624,5 @@ export default class Environment extends EventEmitter implements IEnvironment {
     }
 
     // Default list of plugins to load.
-    static defaultPlugins = ['page', 'pug', 'markdown'];
+    static defaultPlugins = ['page', 'pug', 'nunjucks', 'handlebars', 'markdown', 'shortcodes', 'sitemap', 'feed'];
 }
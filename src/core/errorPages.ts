@@ -0,0 +1,88 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+import ContentPlugin from './contentPlugin.js';
+import ContentTree from './contentTree.js';
+import { IContentTree, IEnvironment } from './coreTypes.js';
+import { RenderResult } from './render.js';
+import { escapeXml, fileExists } from './utils.js';
+
+// Error pages: the site's not found page, which is rendered for URLs which match no content, and the page which the
+// preview server shows when content fails to render.
+
+// The file which builds write the not found page to, at the root of the output directory.
+export const notFoundFilename = '404.html';
+
+// Find the content item for the file named by config.notFound in a content tree.  Returns null if the setting is not
+// set or the file is not in the tree.
+export const findNotFoundPage = (env: IEnvironment, contentTree: IContentTree): ContentPlugin | null => {
+    if (!env.config.notFound) {
+        return null;
+    }
+    const relative = path.normalize(env.config.notFound);
+    return ContentTree.flatten(contentTree).find(item => item.__filename && env.relativeContentsPath(item.__filename) === relative) ?? null;
+};
+
+// Copy the output of the not found page to 404.html at the root of the output directory, unless that is where it was
+// written already, and add the copy to the files produced by the build.  Nothing is written if the not found page did
+// not produce any output, or if other content produces 404.html.  If the page is unchanged since the previous
+// incremental build, the existing copy is kept.
+export const writeNotFoundPage = async (env: IEnvironment, outputDir: string, contentTree: IContentTree, result: RenderResult): Promise<void> => {
+    const page = findNotFoundPage(env, contentTree);
+    if (!page || path.normalize(page.filename) === notFoundFilename) {
+        return;
+    }
+    const produced = [...result.written, ...result.unchanged];
+    if (!produced.includes(page.filename)) {
+        return;
+    }
+    if (produced.includes(notFoundFilename)) {
+        env.logger.warn(`Not copying the not found page ${page.filename} to ${notFoundFilename}, because other content produces that file`);
+        return;
+    }
+    const destination = path.join(outputDir, notFoundFilename);
+    if (result.unchanged.includes(page.filename) && await fileExists(destination)) {
+        result.unchanged.push(notFoundFilename);
+        return;
+    }
+    env.logger.verbose(`Copying the not found page ${page.filename} to ${destination}`);
+    await fs.copyFile(path.join(outputDir, page.filename), destination);
+    result.written.push(notFoundFilename);
+};
+
+// Render the HTML page which the preview server shows when content fails to render.  It shows the file the content was
+// loaded from, or the plugin which generated it, the template which was being rendered, if the view used one, and the
+// error's stack, which starts with its message.
+export const renderErrorPage = (env: IEnvironment, error: Error, content: ContentPlugin, template?: string): Buffer => {
+    const details: [string, string][] = [
+        ['URL', content.url],
+        content.__filename
+            ? ['Content file', content.__filename]
+            : ['Generated by', content.__plugin?.name],
+    ];
+    if (template) {
+        details.push(['Template', path.join(env.templatesPath, template)]);
+    }
+    const rows = details.map(([name, value]) => `<tr><th>${name}</th><td><code>${escapeXml(value ?? '')}</code></td></tr>`);
+    return Buffer.from(`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Error rendering ${escapeXml(content.url)}</title>
+<style>
+body { font-family: sans-serif; margin: 2em; color: #222; }
+h1 { color: #b00; font-size: 1.5em; }
+th { text-align: left; padding-right: 1em; }
+pre { background: #f4f4f4; padding: 1em; overflow: auto; }
+</style>
+</head>
+<body>
+<h1>500 Error rendering ${escapeXml(content.url)}</h1>
+<table>
+${rows.join('\n')}
+</table>
+<pre>${escapeXml(error.stack ?? `${error.name}: ${error.message}`)}</pre>
+</body>
+</html>
+`);
+};
@@ -5,7 +5,8 @@ import { IContentTree, ContentTreeNode, GeneratorDef, IEnvironment } from './cor
 // Run a generator function and returns the (partial) content tree that it generates.
 // Generator functions should return a tree containing only the new content they want to add to the primary tree which they
 // receive as a parameter.  Trees are not merged until all generators have run, and in the preview server generators are 
-// run in parallel so generators cannot depend on content created by a previous generator.
+// run in parallel so generators cannot depend on content created by a previous generator, unless they are registered
+// with the runLast option.
 export default async function runGenerator(env: IEnvironment, contents: IContentTree, generator: GeneratorDef): Promise<IContentTree> {
     const groups = env.getContentGroups();
 
@@ -0,0 +1,56 @@
+import GithubSlugger from 'github-slugger';
+import { MarkedExtension, Tokens } from 'marked';
+
+// A Marked extension which gives headings IDs made from their text, in the same way as GitHub, so that they can be
+// linked to and listed in tables of contents.  It produces the same IDs as marked-gfm-heading-id, but that extension
+// keeps the IDs it has used in a single slugger shared by every page, so pages which are rendered asynchronously at the
+// same time would get different IDs depending on which other pages were being rendered.  Here, each instance of the
+// extension has its own slugger, which is reset whenever it starts rendering a page.
+
+// A heading given an ID by the extension.  The text is the heading's HTML, and raw is its text without any markup.
+export type HeadingData = {
+    level: number;
+    text: string;
+    raw: string;
+    id: string;
+}
+
+// Matches the character references Marked uses when escaping text.
+const characterReferencePattern = /&(#(?:\d+)|(?:#x[0-9A-Fa-f]+)|(?:\w+));?/ig;
+
+// Decode the numeric character references in some HTML, and remove the named ones other than &colon;, in the same way
+// as marked-gfm-heading-id, so that the IDs match.
+const unescape = (html: string): string => html.replace(characterReferencePattern, (match, ref: string) => {
+    ref = ref.toLowerCase();
+    if (ref === 'colon') {
+        return ':';
+    }
+    if (ref.charAt(0) === '#') {
+        return ref.charAt(1) === 'x'
+            ? String.fromCharCode(parseInt(ref.substring(2), 16))
+            : String.fromCharCode(+ref.substring(1));
+    }
+    return '';
+});
+
+// Create the extension.  Each Marked instance needs its own instance of the extension.
+export const headingIds = ({ prefix = '' }: { prefix?: string } = {}): MarkedExtension => {
+    let slugger = new GithubSlugger();
+    return {
+        hooks: {
+            preprocess(src: string): string {
+                slugger = new GithubSlugger();
+                return src;
+            },
+        },
+        useNewRenderer: true,
+        renderer: {
+            heading({ tokens, depth }: Tokens.Heading): string {
+                const text = this.parser.parseInline(tokens);
+                const raw = unescape(text).trim().replace(/<[!/a-z].*?>/gi, '');
+                const id = `${prefix}${slugger.slug(raw.toLowerCase())}`;
+                return `<h${depth} id="${id}">${text}</h${depth}>\n`;
+            },
+        },
+    };
+};
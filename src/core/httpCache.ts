@@ -0,0 +1,86 @@
+import { IncomingHttpHeaders } from 'node:http';
+
+// Support for HTTP caching and range requests in the preview server: entity tags, conditional requests answered with
+// 304 Not Modified, and byte range requests answered with 206 Partial Content.  See RFC 9110.
+
+// The validators of a response, which clients send back in conditional requests.
+export type Validators = {
+    etag: string;
+    lastModified: Date;
+}
+
+// A byte range to send, inclusive at both ends.
+export type ByteRange = {
+    start: number;
+    end: number;
+}
+
+// Make an entity tag for a file from its size and modification time, in the same way as many web servers.
+export const fileEtag = (size: number, mtimeMs: number): string => `"${size.toString(16)}-${Math.floor(mtimeMs).toString(16)}"`;
+
+// Compare two entity tags, ignoring whether they are weak.
+const etagsMatch = (a: string, b: string): boolean => a.replace(/^W\//, '') === b.replace(/^W\//, '');
+
+// Parse an HTTP date, returning null if it is not valid.
+const parseDate = (value: string): number | null => {
+    const time = Date.parse(value);
+    return isNaN(time) ? null : time;
+};
+
+// Check whether a conditional GET or HEAD request can be answered with 304 Not Modified.  If-None-Match takes
+// precedence over If-Modified-Since, which is only compared to the last modification time to the second, because that
+// is the precision of HTTP dates.
+export const isNotModified = (headers: IncomingHttpHeaders, validators: Validators): boolean => {
+    const ifNoneMatch = headers['if-none-match'];
+    if (ifNoneMatch) {
+        return ifNoneMatch.trim() === '*' ||
+            ifNoneMatch.split(',').some(etag => etagsMatch(etag.trim(), validators.etag));
+    }
+    const ifModifiedSince = headers['if-modified-since'];
+    if (ifModifiedSince && validators.lastModified) {
+        const since = parseDate(ifModifiedSince);
+        return since !== null && Math.floor(validators.lastModified.getTime() / 1000) * 1000 <= since;
+    }
+    return false;
+};
+
+// Get the byte range requested by the Range header of a request for a resource of the given size.  Returns null if the
+// whole resource should be sent: if there is no Range header, if it cannot be parsed or asks for several ranges, or if
+// an If-Range header shows that the client's copy is out of date.  Returns 'unsatisfiable' if the range is outside the
+// resource, so that the request can be answered with 416 Range Not Satisfiable.
+export const parseRange = (headers: IncomingHttpHeaders, size: number, validators: Validators): ByteRange | 'unsatisfiable' | null => {
+    const range = headers.range;
+    if (!range) {
+        return null;
+    }
+    const ifRange = headers['if-range'] as string;
+    if (ifRange) {
+        const date = ifRange.startsWith('"') || ifRange.startsWith('W/') ? null : parseDate(ifRange);
+        const current = date === null
+            ? !ifRange.startsWith('W/') && !validators.etag.startsWith('W/') && ifRange === validators.etag
+            : validators.lastModified && Math.floor(validators.lastModified.getTime() / 1000) * 1000 === date;
+        if (!current) {
+            return null;
+        }
+    }
+    const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+    if (!match || (match[1] === '' && match[2] === '')) {
+        return null;
+    }
+    let start: number;
+    let end: number;
+    if (match[1] === '') {
+        start = Math.max(size - Number(match[2]), 0);
+        end = size - 1;
+    } else {
+        start = Number(match[1]);
+        end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+        if (match[2] !== '' && Number(match[2]) < start) {
+            return null;
+        }
+    }
+    if (start >= size || size === 0) {
+        return 'unsatisfiable';
+    }
+    return { start, end };
+};
@@ -0,0 +1,119 @@
+import mime from 'mime';
+
+import ContentPlugin from './contentPlugin.js';
+import ContentTree from './contentTree.js';
+import { IContentTree, IEnvironment, LocalMap, TemplateMap } from './coreTypes.js';
+import { renderView } from './render.js';
+import { normaliseUrl, urlResolve } from './utils.js';
+
+// A problem found by the link checker.  The reason is 'missing' if the link target is not a URL in the site, or
+// 'anchor' if the target page exists but does not contain an element with the ID given in the link's fragment.  If
+// the page itself could not be rendered, the reason is 'render', the link is empty, and the message is the error's.
+export type LinkProblem = {
+    page: string;
+    source: string | null;
+    link: string;
+    reason: 'missing' | 'anchor' | 'render';
+    message?: string;
+}
+
+// The HTML output of a page and the IDs of the elements in it.
+type RenderedPage = {
+    content: ContentPlugin;
+    html: string;
+    ids: Set<string>;
+}
+
+// Regular expressions to extract attributes from HTML.  These are deliberately simple: they only need to cope with
+// HTML produced by the site's own templates.
+const linkAttributePattern = /<[a-z][^>]*?\s(?:href|src)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+const idAttributePattern = /<[a-z][^>]*?\s(?:id|name)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+
+// Decode the character references which are likely to appear in URLs and IDs.
+const decodeEntities = (s: string): string => s
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, '\'')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+// Extract the values of every attribute matched by a pattern.
+const extractAttributes = (html: string, pattern: RegExp): string[] =>
+    Array.from(html.matchAll(pattern), m => decodeEntities(m[1] ?? m[2] ?? m[3]));
+
+// Check if a link points outside the site, or is not a link to a page at all.
+const isExternal = (link: string): boolean => !link || /^[a-zA-Z][a-zA-Z0-9.+-]*:/.test(link) || link.startsWith('//');
+
+// Check if a content item's output is HTML.
+const isHtml = (content: ContentPlugin): boolean => mime.getType(content.filename) === 'text/html';
+
+// Get the file a content item was loaded from, or null if it was generated.
+const getSource = (content: ContentPlugin): string | null =>
+    content.__filename && content.__filename !== 'generator' ? content.__filename : null;
+
+// Normalise the path of a link target, returning null if it is not validly encoded.
+const normaliseTarget = (pathname: string): string | null => {
+    try {
+        return normaliseUrl(pathname);
+    } catch {
+        return null;
+    }
+};
+
+// Decode a URL fragment, leaving it unchanged if it is not validly encoded.
+const decodeFragment = (fragment: string): string => {
+    try {
+        return decodeURIComponent(fragment);
+    } catch {
+        return fragment;
+    }
+};
+
+// Render every HTML page in a content tree in memory, and check that every internal link and image in them points to
+// a URL in the content tree, and that every link with a fragment points to an ID which exists on the target page.
+// Pages which fail to render are reported, and the rest of the site is still checked.
+export default async function checkLinks(env: IEnvironment, contentTree: IContentTree, templates: TemplateMap, locals: LocalMap): Promise<LinkProblem[]> {
+    const items = ContentTree.flatten(contentTree);
+    const contentMap = ContentTree.lookupMap(contentTree);
+    const pages: Record<string, RenderedPage> = {};
+    const problems: LinkProblem[] = [];
+
+    for (const content of items.filter(isHtml)) {
+        env.logger.verbose(`Rendering ${content.url}`);
+        let output;
+        try {
+            output = await renderView(env, content, locals, contentTree, templates);
+        } catch (error) {
+            const source = getSource(content);
+            problems.push({ page: content.url, source, link: '', reason: 'render', message: error.message });
+            continue;
+        }
+        if (output instanceof Buffer) {
+            const html = output.toString();
+            pages[normaliseUrl(content.url)] = { content, html, ids: new Set(extractAttributes(html, idAttributePattern)) };
+        }
+    }
+
+    for (const page of Object.values(pages)) {
+        const pageUrl = page.content.url;
+        const source = getSource(page.content);
+        const checked = new Set<string>();
+        for (const link of extractAttributes(page.html, linkAttributePattern)) {
+            if (isExternal(link) || checked.has(link)) {
+                continue;
+            }
+            checked.add(link);
+            const resolved = new URL(urlResolve(pageUrl, link), 'check://');
+            const target = normaliseTarget(resolved.pathname);
+            if (!target || !contentMap[target]) {
+                problems.push({ page: pageUrl, source, link, reason: 'missing' });
+                continue;
+            }
+            const fragment = decodeFragment(resolved.hash.substring(1));
+            if (fragment && pages[target] && !pages[target].ids.has(fragment)) {
+                problems.push({ page: pageUrl, source, link, reason: 'anchor' });
+            }
+        }
+    }
+    return problems;
+}
@@ -0,0 +1,100 @@
+import { createHash } from 'node:crypto';
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+// Path, relative to the site base URL, of the preview server's live reload event stream.
+export const liveReloadPath = '__iceforge/livereload';
+
+// Interval between keepalive comments sent down idle event streams, in milliseconds.
+const heartbeatInterval = 30000;
+
+// Hash a rendered page, so that the preview server can tell if its output has changed since a browser loaded it.
+export const hashOutput = (output: Buffer): string => createHash('sha1').update(output).digest('hex');
+
+// The client-side script injected into HTML pages served by the preview server.  It opens an event stream to the
+// server, identifying the page it was loaded into, and reloads the page when told to.  If the stream drops and
+// later reconnects, the server has most likely restarted, so the page is reloaded then too.
+export const clientScript = (endpoint: string): string => `<script>
+(() => {
+    const source = new EventSource('${endpoint}?page=' + encodeURIComponent(location.pathname));
+    let dropped = false;
+    source.addEventListener('reload', () => location.reload());
+    source.addEventListener('error', () => { dropped = true; });
+    source.addEventListener('open', () => { if (dropped) { location.reload(); } });
+})();
+</script>
+`;
+
+// Insert the client script into an HTML document.  It goes just before the closing body tag if there is one, or at the
+// end of the document if not.
+export const injectClientScript = (html: Buffer, endpoint: string): Buffer => {
+    const source = html.toString();
+    const script = clientScript(endpoint);
+    const idx = source.toLowerCase().lastIndexOf('</body>');
+    if (idx === -1) {
+        return Buffer.from(source + script);
+    }
+    return Buffer.from(source.substring(0, idx) + script + source.substring(idx));
+};
+
+// A browser page connected to the live reload event stream.
+export type LiveReloadClient = {
+    page: string;
+    response: ServerResponse;
+}
+
+// The set of browser pages listening for live reload events, and the means to tell them to reload.
+export default class LiveReloadChannel {
+
+    clients: Set<LiveReloadClient>;
+
+    private heartbeat: NodeJS.Timeout;
+
+    constructor() {
+        this.clients = new Set();
+        this.heartbeat = setInterval(() => {
+            for (const client of this.clients) {
+                client.response.write(': ping\n\n');
+            }
+        }, heartbeatInterval);
+        this.heartbeat.unref();
+    }
+
+    // Take an incoming event stream request and hold it open.  The page query parameter of the request is the
+    // pathname of the page the client script is running in.
+    connect(request: IncomingMessage, response: ServerResponse): LiveReloadClient {
+        const page = new URL(request.url, `http://${request.headers.host}`).searchParams.get('page') || '/';
+        response.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        });
+        response.write(': connected\n\n');
+        const client = { page, response };
+        this.clients.add(client);
+        request.on('close', () => this.clients.delete(client));
+        return client;
+    }
+
+    // Tell a single client to reload.
+    reload(client: LiveReloadClient): void {
+        if (!client.response.writableEnded) {
+            client.response.write(`event: reload\ndata: ${client.page}\n\n`);
+        }
+    }
+
+    // Tell every connected client to reload.
+    reloadAll(): void {
+        for (const client of this.clients) {
+            this.reload(client);
+        }
+    }
+
+    // Close every open event stream and stop sending keepalives.
+    close(): void {
+        clearInterval(this.heartbeat);
+        for (const client of this.clients) {
+            client.response.end();
+        }
+        this.clients.clear();
+    }
+}
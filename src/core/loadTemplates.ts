@@ -1,9 +1,27 @@
 import * as path from 'node:path';
 
 import { FilePath, IEnvironment, TemplateMap } from './coreTypes.js';
-import { readDirRecursive } from './utils.js';
+import TemplatePlugin from './templatePlugin.js';
+import { fileExists, readDirRecursive } from './utils.js';
 import { minimatch } from 'minimatch';
 import logger from './logger.js';
+import { affectedTemplates } from './templateDependencies.js';
+
+// Load an individual template, using the last-registered template plugin whose pattern matches its filename.  Returns
+// null if no template plugin matches.
+const loadTemplate = async (env: IEnvironment, filepath: FilePath): Promise<TemplatePlugin | null> => {
+    logger.verbose(`Loading template ${filepath.relative}`);
+    const plugin = [...env.templatePlugins].reverse().find(pdef => minimatch(filepath.relative, pdef.pattern));
+    if (!plugin) {
+        return null;
+    }
+    try {
+        return await plugin.class.fromFile(filepath);
+    } catch (error) {
+        error.message = `template ${filepath.relative}: ${error.message}`;
+        throw error;
+    }
+};
 
 // Load the available templates from the environment's template path, creating a template plugin instance for
 // each template.  Returns the template plugin instances indexed by the templates' filenames.
@@ -18,28 +36,37 @@ const loadTemplates = async (env: IEnvironment): Promise<TemplateMap> => {
             relative: f
         }));
     
-    // Load an individual template and convert it into a template plugin instance.
-    const loadTemplate = async (filepath: FilePath): Promise<void> => {
-        logger.verbose(`Loading template ${filepath.relative}`);
-        const plugin = [...env.templatePlugins].reverse().find(pdef => minimatch(filepath.relative, pdef.pattern));
-        if (plugin) {
-            try {
-                const template = await plugin.class.fromFile(filepath);
-                templates[filepath.relative] = template;
-            } catch (error) {
-                error.message = `template ${filepath.relative}: ${error.message}`;
-                throw error;
-            }
-        }
-    };
-
     const templateFiles = await readDirRecursive(env.templatesPath);
     const resolvedPaths = resolveFilenames(templateFiles);
     for (const resolvedPath of resolvedPaths) {
-        await loadTemplate(resolvedPath);
+        const template = await loadTemplate(env, resolvedPath);
+        if (template) {
+            templates[resolvedPath.relative] = template;
+        }
     }
 
     return templates;
 };
 
+// Reload the templates affected by a change to a file in the templates directory: the template loaded from the file, and
+// the templates which depend on it.  The filename is relative to the templates directory.  Returns a new template map,
+// leaving the original unchanged, along with the names of the templates which were reloaded or removed.
+export const reloadTemplates = async (env: IEnvironment, templates: TemplateMap, filename: string): Promise<{ templates: TemplateMap, changed: string[] }> => {
+    const reloaded: TemplateMap = { ...templates };
+    const changed = affectedTemplates(env, templates, filename);
+    if (!changed.includes(filename)) {
+        changed.push(filename);
+    }
+    for (const name of changed) {
+        const full = path.join(env.templatesPath, name);
+        const template = await fileExists(full) ? await loadTemplate(env, { full, relative: name }) : null;
+        if (template) {
+            reloaded[name] = template;
+        } else {
+            delete reloaded[name];
+        }
+    }
+    return { templates: reloaded, changed: changed.filter(name => Object.hasOwn(templates, name) || Object.hasOwn(reloaded, name)) };
+};
+
 export default loadTemplates;
@@ -0,0 +1,97 @@
+import { createReadStream } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { pipeline } from 'node:stream/promises';
+
+import chalk from 'chalk';
+import mime from 'mime';
+
+import { IEnvironment } from './coreTypes.js';
+import { notFoundFilename } from './errorPages.js';
+import { logRequest, lookupCharset, message404 } from './server.js';
+import { fileExists, normaliseUrl } from './utils.js';
+
+// Server for the "serve" command, which serves the files in the build output directory exactly as they were written,
+// so that a site can be checked as it will be deployed.  Unlike the preview server, nothing is rendered, and no plugins
+// are loaded.
+
+// Map the path of a request to a file in the output directory.  The path must be within the site's base URL, which is
+// removed from it, and is then normalised in the same way as the URLs of content, so /about/ and /about are both
+// served from about/index.html.  Returns null if the path is outside the base URL or the output directory.
+export const resolveOutputPath = (env: IEnvironment, outputDir: string, pathname: string): string | null => {
+    const baseUrl = env.config.baseUrl.replace(/\/?$/, '/');
+    if (!`${pathname}/`.startsWith(baseUrl)) {
+        return null;
+    }
+    let uri: string;
+    try {
+        uri = normaliseUrl(`/${pathname.slice(baseUrl.length)}`);
+    } catch {
+        return null;
+    }
+    const filename = path.join(outputDir, uri);
+    return filename.startsWith(outputDir + path.sep) ? filename : null;
+};
+
+// Create a request handler which serves the files in an output directory.  Only GET and HEAD requests are allowed.  The
+// site's 404.html, if it has one, is sent with a 404 status for paths which do not match a file.
+export const createHandler = (env: IEnvironment, outputDir: string) =>
+    async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+        const startTimestamp = Date.now();
+        const uri = new URL(request.url, `http://${request.headers.host}`).pathname;
+        let code = 200;
+        try {
+            if (request.method !== 'GET' && request.method !== 'HEAD') {
+                code = 405;
+                response.writeHead(code, { 'Content-Type': 'text/plain', 'Allow': 'GET, HEAD' });
+                response.end('405 Method Not Allowed\n');
+            } else {
+                const filename = resolveOutputPath(env, outputDir, uri);
+                const stats = filename ? await fs.stat(filename).catch((): null => null) : null;
+                const notFound = stats?.isFile() ? null : path.join(outputDir, notFoundFilename);
+                const notFoundStats = notFound ? await fs.stat(notFound).catch((): null => null) : null;
+                if (!stats?.isFile() && !notFoundStats?.isFile()) {
+                    code = 404;
+                    response.writeHead(code, { 'Content-Type': 'text/plain' });
+                    response.end(message404);
+                } else {
+                    const file = notFound ?? filename;
+                    code = notFound ? 404 : 200;
+                    const mimeType = mime.getType(file) || 'application/octet-stream';
+                    const charset = lookupCharset(mimeType);
+                    const contentType = charset ? `${mimeType}; charset=${charset}` : mimeType;
+                    response.writeHead(code, { 'Content-Type': contentType, 'Content-Length': (notFoundStats ?? stats).size });
+                    if (request.method === 'HEAD') {
+                        response.end();
+                    } else {
+                        await pipeline(createReadStream(file), response);
+                    }
+                }
+            }
+        } catch (error) {
+            code = 500;
+            if (!response.headersSent) {
+                response.writeHead(code, { 'Content-Type': 'text/plain' });
+            }
+            response.end();
+            env.logger.error(error.message, error);
+        }
+        logRequest(env, code, uri, startTimestamp);
+    };
+
+// Start serving the output directory on the configured hostname and port.  Throws an error if the output directory
+// does not exist.
+export const run = async (env: IEnvironment): Promise<Server> => {
+    const outputDir = env.resolvePath(env.config.output);
+    if (!(await fileExists(outputDir))) {
+        throw new Error(`Output directory ${outputDir} does not exist.  Run "iceforge build" to create it.`);
+    }
+    const server = createServer(createHandler(env, outputDir));
+    await new Promise((resolve) => server.listen(env.config.port, env.config.hostname, () => resolve(null)));
+    const host = env.config.hostname || 'localhost';
+    const serverUrl = `http://${host}:${(server.address() as AddressInfo).port}${env.config.baseUrl}`;
+    env.logger.info(`Serving ${outputDir} on ${chalk.bold(serverUrl)}`);
+    return server;
+};
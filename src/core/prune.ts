@@ -0,0 +1,52 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { minimatch } from 'minimatch';
+
+import { IEnvironment } from './coreTypes.js';
+import { fileExists, readDirRecursive } from './utils.js';
+
+// Options for matching ignore patterns.  Unlike content patterns, these need to match dotfiles such as .git.
+const pruneMatchOptions = {
+    dot: true,
+};
+
+// Remove a directory and its parents, up to but not including the output directory, if they are empty.
+const removeEmptyDirs = async (outputDir: string, dir: string): Promise<void> => {
+    while (dir.startsWith(outputDir + path.sep)) {
+        if ((await fs.readdir(dir)).length) {
+            return;
+        }
+        await fs.rmdir(dir);
+        dir = path.dirname(dir);
+    }
+};
+
+// Delete every file in the output directory which was not produced by the latest render, other than files which match
+// one of the patterns in config.pruneIgnore, and the build cache, if it is kept in the output directory.  The produced
+// parameter lists the files produced by the render, relative to the output directory.  Directories left empty are also
+// removed.  Returns the files which were deleted, relative to the output directory.
+export default async function prune(env: IEnvironment, outputDir: string, produced: string[]): Promise<string[]> {
+    outputDir = path.resolve(outputDir);
+    if (!(await fileExists(outputDir))) {
+        return [];
+    }
+    const keep = new Set(produced.map(f => path.normalize(f)));
+    const ignore = env.config.pruneIgnore || [];
+    const cacheFilename = env.config.buildCache ? path.resolve(env.resolvePath(env.config.buildCache)) : null;
+    const removed: string[] = [];
+    for (const filename of await readDirRecursive(outputDir)) {
+        const posixName = filename.split(path.sep).join('/');
+        if (keep.has(path.normalize(filename)) || ignore.some(pattern => minimatch(posixName, pattern, pruneMatchOptions))) {
+            continue;
+        }
+        const fullPath = path.join(outputDir, filename);
+        if (fullPath === cacheFilename) {
+            continue;
+        }
+        env.logger.verbose(`Removing stale output file ${filename}`);
+        await fs.rm(fullPath);
+        await removeEmptyDirs(outputDir, path.dirname(fullPath));
+        removed.push(filename);
+    }
+    return removed;
+}
@@ -0,0 +1,33 @@
+import ContentPlugin from './contentPlugin.js';
+import ContentTree from './contentTree.js';
+import { IContentTree, IEnvironment, Indexable } from './coreTypes.js';
+
+// Check whether a content item is a draft, with "draft: true" in its metadata.
+export const isDraft = (item: ContentPlugin): boolean => (item as unknown as Indexable).metadata?.draft === true;
+
+// Check whether a content item is scheduled for future publication, with a date in its metadata later than now.
+export const isFutureDated = (item: ContentPlugin, now: Date = new Date()): boolean => {
+    const date = (item as unknown as Indexable).metadata?.date;
+    return !!date && new Date(date).getTime() > now.getTime();
+};
+
+// Remove unpublished content from a content tree, so that it is neither rendered nor seen by generators.  Nothing is
+// removed in preview mode.  In build mode, drafts are kept if config.drafts is set, and future-dated pages are kept if
+// config.future is set.  Returns the content items which were removed.
+export default function removeUnpublished(env: IEnvironment, contents: IContentTree): ContentPlugin[] {
+    if (env.mode === 'preview') {
+        return [];
+    }
+    const now = new Date();
+    return ContentTree.remove(contents, (item) => {
+        if (!env.config.drafts && isDraft(item)) {
+            env.logger.verbose(`Skipping draft ${item.filename}`);
+            return true;
+        }
+        if (!env.config.future && isFutureDated(item, now)) {
+            env.logger.verbose(`Skipping future-dated ${item.filename}`);
+            return true;
+        }
+        return false;
+    });
+}
@@ -6,15 +6,49 @@ import ContentTree from './contentTree.js';
 import { IContentTree, IEnvironment, TemplateMap, LocalMap, RenderedData } from './coreTypes.js';
 import path from 'node:path';
 import { ReadStream, WriteStream } from 'node:fs';
+import BuildCache from './buildCache.js';
+import { fileExists } from './utils.js';
+import { TemplateTracker, templateFiles } from './templateDependencies.js';
+
+// The content trees which have been prepared for rendering, the templates each was prepared with, and the templates used
+// while preparing it.
+const prepared = new WeakMap<IContentTree, { templates: TemplateMap, promise: Promise<void>, tracker: TemplateTracker }>();
+
+// Prepare all of the content in a content tree for rendering, by calling the prepare() method of each item.  This is only
+// done once for each content tree and set of templates, however many of the items are rendered.
+export function prepareContents(contentTree: IContentTree, templates: TemplateMap): Promise<void> {
+    if (!(contentTree instanceof ContentTree)) {
+        return Promise.resolve();
+    }
+    const previous = prepared.get(contentTree);
+    if (previous?.templates === templates) {
+        return previous.promise;
+    }
+    const tracker = new TemplateTracker();
+    const tracked = tracker.track(templates);
+    const promise = Promise.all(ContentTree.flatten(contentTree).map(item => item.prepare(contentTree, tracked))).then((): void => undefined);
+    prepared.set(contentTree, { templates, promise, tracker });
+    return promise;
+}
+
+// Get the templates used while preparing a content tree.  Any content can use the prepared output of any other content,
+// such as the HTML of a Markdown page, so these templates could affect the output of every item in the tree.
+export function preparedTemplates(contentTree: IContentTree): TemplateTracker[] {
+    const tracker = prepared.get(contentTree)?.tracker;
+    return tracker ? [tracker] : [];
+}
 
 // Render the view requested by a plugin.  The plugin can either define its own view, or request a view plugin by name.
-export async function renderView(env: IEnvironment, content: ContentPlugin, locals: LocalMap, contentTree: IContentTree, templates: TemplateMap): Promise<RenderedData> {
+// The whole content tree is prepared for rendering first, if it has not been already.  If a template tracker is given, it
+// records the templates used by the view.
+export async function renderView(env: IEnvironment, content: ContentPlugin, locals: LocalMap, contentTree: IContentTree, templates: TemplateMap, tracker?: TemplateTracker): Promise<RenderedData> {
+    await prepareContents(contentTree, templates);
     const _locals = { env, contents: contentTree, ...locals };
     const theView = typeof content.view === 'string' ? env.views[content.view] : content.view;
     if (!theView) {
         throw new Error(`Content ${content.filename} specifies unknown view ${content.view}`);
     }
-    return await theView(env, _locals, contentTree, templates, content);
+    return await theView(env, _locals, contentTree, tracker ? tracker.track(templates) : templates, content);
 }
 
 // Utility function to write a buffer to a stream in an awaitable fashion.
@@ -26,15 +60,43 @@ const writeBuffer = async (writeable: WriteStream, output: Buffer): Promise<void
     });
 };
 
+// The files produced by a call to render(), as paths relative to the output directory.  Files which were not rewritten
+// because they were unchanged since the previous incremental build are listed separately from files which were written.
+export type RenderResult = {
+    written: string[];
+    unchanged: string[];
+}
+
 // Render the content tree.  This function flattens the content tree, calls renderView() for each plugin in the flattened tree, and writes the rendered output to files.
-export default async function render(env: IEnvironment, outputDir: string, contentTree: IContentTree, templates: TemplateMap, locals: LocalMap): Promise<void> {
-    env.logger.info(`Rendering tree:\n${ContentTree.inspect(contentTree, 1)}\n`);
+// If a build cache is given, content which the cache says is unchanged since the previous build is not rendered, and output which is 
+// identical to the previous build's output is not rewritten.  Returns the files that the content tree produced.
+// In watch mode, the watcher logs its own summary of each build, so the content tree and the number of unchanged items are
+// only logged verbosely.
+export default async function render(env: IEnvironment, outputDir: string, contentTree: IContentTree, templates: TemplateMap, locals: LocalMap, cache?: BuildCache): Promise<RenderResult> {
+    const log = (message: string) => env.mode === 'watch' ? env.logger.verbose(message) : env.logger.info(message);
+    log(`Rendering tree:\n${ContentTree.inspect(contentTree, 1)}\n`);
     env.logger.verbose(`Render to output directory ${outputDir}`);
+    const result: RenderResult = { written: [], unchanged: [] };
 
     const renderPlugin = async (content: ContentPlugin): Promise<boolean> => {
-        const renderOutput = await renderView(env, content, locals, contentTree, templates);
+        if (cache && await cache.canSkip(content, path.join(outputDir, content.filename))) {
+            env.logger.verbose(`Skipping unchanged ${content.getUrl()}`);
+            result.unchanged.push(content.filename);
+            return true;
+        }
+        const tracker = new TemplateTracker();
+        const renderOutput = await renderView(env, content, locals, contentTree, templates, tracker);
         if (renderOutput instanceof ReadStream || renderOutput instanceof Buffer) {
             const destination = path.join(outputDir, content.filename);
+            const usedTemplates = templateFiles(env, templates, [tracker, ...preparedTemplates(contentTree)]);
+            if (cache && cache.record(content, renderOutput instanceof Buffer ? renderOutput : null, usedTemplates) && await fileExists(destination)) {
+                env.logger.verbose(`Output of ${content.getUrl()} is unchanged`);
+                if (renderOutput instanceof ReadStream) {
+                    renderOutput.destroy();
+                }
+                result.unchanged.push(content.filename);
+                return true;
+            }
             env.logger.verbose(`Writing content ${content.getUrl()} to ${destination}`);
             await ensureDir(path.dirname(destination));
             const fd = await fs.open(destination, 'w');
@@ -44,6 +106,7 @@ export default async function render(env: IEnvironment, outputDir: string, conte
             } else {
                 await writeBuffer(writeStream, renderOutput);
             }
+            result.written.push(content.filename);
             return true;
         }
         env.logger.verbose(`Skipping ${content.getUrl()}`);
@@ -58,4 +121,8 @@ export default async function render(env: IEnvironment, outputDir: string, conte
             await renderPlugin(item);
         }
     }
+    if (cache) {
+        log(`${result.unchanged.length} of ${items.length} items unchanged since the previous build`);
+    }
+    return result;
 }
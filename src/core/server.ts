@@ -1,26 +1,34 @@
-import { ReadStream } from 'node:fs';
-import { createServer, ServerResponse, IncomingMessage, Server } from 'node:http';
+import { createReadStream, ReadStream } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createServer, ServerResponse, IncomingMessage, OutgoingHttpHeaders, Server } from 'node:http';
 import { pipeline } from 'node:stream/promises';
 import { Readable } from 'node:stream';
 
 import chalk from 'chalk';
-import chokidar, { FSWatcher } from 'chokidar';
 import mime from 'mime';
-import { minimatch } from 'minimatch';
 import enableDestroy from 'server-destroy';
 
-import Config from './config.js';
+import ContentPlugin from './contentPlugin.js';
 import ContentTree from './contentTree.js';
-import { ContentMap, IContentTree, IConfig, TemplateMap, LocalMap } from './coreTypes.js';
+import { ContentMap, IContentTree, IEnvironment, TemplateMap, LocalMap } from './coreTypes.js';
 import Environment from './environment.js';
 import runGenerator from './generator.js';
-import { renderView } from './render.js';
+import { preparedTemplates, renderView } from './render.js';
+import { reloadTemplates } from './loadTemplates.js';
+import { TemplateTracker, templateFiles } from './templateDependencies.js';
+import { isIgnored, reloadConfig, watchSources } from './watch.js';
 import logger from './logger.js';
+import { normaliseUrl } from './utils.js';
+import LiveReloadChannel, { hashOutput, injectClientScript, liveReloadPath } from './liveReload.js';
+import { Validators, fileEtag, isNotModified, parseRange } from './httpCache.js';
+import { createCompressor, isCompressible, negotiateEncoding } from './compression.js';
+import { findNotFoundPage, renderErrorPage } from './errorPages.js';
 
-const message404 = Buffer.from('404 Not Found In Aberhwmbr\n');
+export const message404 = Buffer.from('404 Not Found In Aberhwmbr\n');
 
 // Utility function to map HTTP return codes to colours.
-const colourCode = (code: number): string => {
+export const colourCode = (code: number): string => {
     switch (Math.floor(code / 100)) {
     case 2:
         return chalk.green(code);
@@ -33,29 +41,22 @@ const colourCode = (code: number): string => {
     }
 };
 
-// Utility function to append 'index.html' to paths which end in a directory name.
-const normaliseUrl = (url: string): string => {
-    if (url.slice(-1) === '/') {
-        url += 'index.html';
-    } else if (url.match(/^([^.]*[^/])$/)) {
-        url += '/index.html';
-    }
-    return decodeURI(url);
-};
+// Check if a mime type has an associated charset that we know about.
+export const lookupCharset = (mimeType: string): string => 
+    /^text\/|^application\/(javascript|json)/.test(mimeType) ? 'UTF_8' : null;
 
-// Walk the content tree and build an index of all content, indexed by URL.
-const buildLookupMap = (contents: IContentTree | IContentTree[]): ContentMap => {
-    const map: ContentMap = {};
-    for (const item of ContentTree.flatten(contents)) {
-        map[normaliseUrl(item.url)] = item;
+// Log a request, with the response code, the name of the plugin which handled it (if any), and the time taken since the
+// request was received.
+export const logRequest = (env: IEnvironment, code: number, uri: string, startTimestamp: number, pluginName?: string): void => {
+    const timeDelta = Date.now() - startTimestamp;
+    let logMsg = `${colourCode(code)} ${chalk.bold(uri)}`;
+    if (pluginName) {
+        logMsg += ` ${chalk.grey(pluginName)}`;
     }
-    return map;
+    logMsg += ` ${chalk.green(timeDelta)}ms`;
+    env.logger.info(logMsg);
 };
 
-// Check if a mime type has an associated charset that we know about.
-const lookupCharset = (mimeType: string): string => 
-    /^text\/|^application\/(javascript|json)/.test(mimeType) ? 'UTF_8' : null;
-
 // Utility function to use when polling.
 const sleep = async (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 50));
 
@@ -76,6 +77,16 @@ const setup = async (env: Environment): Promise<RequestHandlerFunc> => {
     let locals: LocalMap = null;
     let staticContentMap: ContentMap = {};
 
+    // The live reload channel, and a hash of the last output served for each HTML page and the template files used to
+    // render it, so that the server can tell which open pages need reloading when something changes.
+    const liveReload = env.config.liveReload ? new LiveReloadChannel() : null;
+    const liveReloadEndpoint = `${env.config.baseUrl.replace(/\/?$/, '/')}${liveReloadPath}`;
+    const servedHashes: Record<string, string> = {};
+    const servedTemplates: Record<string, string[] | null> = {};
+
+    // The validators of the last output served for each URI, for HTTP caching.
+    const servedValidators: Record<string, Validators> = {};
+
     type blockRecord = {
         contentsLoad: boolean;
         templatesLoad: boolean;
@@ -98,9 +109,10 @@ const setup = async (env: Environment): Promise<RequestHandlerFunc> => {
         }
     };
 
-    const changeHandler = (error: Error, path: string): void => {
+    // Emit a change event for a changed content file, or for a changed file in the templates directory.
+    const changeHandler = (error: Error, filename: string, templateFile?: string): void => {
         if (!error) {
-            env.emit('change', path, false);
+            env.emit('change', filename, false, templateFile);
         }
         logError(error);
     };
@@ -114,7 +126,7 @@ const setup = async (env: Environment): Promise<RequestHandlerFunc> => {
         let rval = true;
         try {
             contents = await ContentTree.fromDirectory(env, env.contentsPath);
-            staticContentMap = buildLookupMap(contents);
+            staticContentMap = ContentTree.lookupMap(contents);
         } catch (error) {
             logError(error);
             rval = false;
@@ -134,6 +146,20 @@ const setup = async (env: Environment): Promise<RequestHandlerFunc> => {
         block.templatesLoad = false;
     };
 
+    // Reload the templates affected by a change to a file in the templates directory.  The filename is relative to the
+    // templates directory.
+    const reloadChangedTemplates = async (filename: string): Promise<void> => {
+        block.templatesLoad = true;
+        try {
+            const reloaded = await reloadTemplates(env, templates, filename);
+            templates = reloaded.templates;
+            env.logger.verbose(`Reloaded templates: ${reloaded.changed.join(', ') || 'none'}`);
+        } catch (error) {
+            logError(error);
+        }
+        block.templatesLoad = false;
+    };
+
     const loadViews = async(): Promise<void> => {
         block.viewsLoad = true;
         try {
@@ -150,48 +176,70 @@ const setup = async (env: Environment): Promise<RequestHandlerFunc> => {
         block.localsLoad = false;
     };
 
-    const contentWatcher = chokidar.watch(env.contentsPath, { ignoreInitial: true });
-    contentWatcher.on('all', async (type, filename) => {
-        if (block.contentsLoad) {
-            return;
+    const loadData = async (): Promise<void> => {
+        block.localsLoad = true;
+        try {
+            await env.loadData();
+        } catch (error) {
+            logError(error);
         }
-        const relPath = env.relativeContentsPath(filename);
-        for (const pattern of env.config.ignore) {
-            if (minimatch(relPath, pattern)) {
-                env.emit('change', relPath, true);
+        locals = await env.getLocals();
+        block.localsLoad = false;
+    };
+
+    const closeWatchers = watchSources(env, {
+        contents: async (filename) => {
+            if (block.contentsLoad) {
                 return;
             }
-        }
-        let contentFilename = null;
-        if (await loadContents()) {
-            if (filename) {
-                for (const content of ContentTree.flatten(contents)) {
-                    if (content.__filename === filename) {
-                        contentFilename = content.filename;
-                        break;
+            if (isIgnored(env, filename)) {
+                env.emit('change', env.relativeContentsPath(filename), true);
+                return;
+            }
+            let contentFilename = null;
+            if (await loadContents()) {
+                if (filename) {
+                    for (const content of ContentTree.flatten(contents)) {
+                        if (content.__filename === filename) {
+                            contentFilename = content.filename;
+                            break;
+                        }
                     }
                 }
             }
-        }
-        changeHandler(null, contentFilename);
-    });
+            changeHandler(null, contentFilename);
+        },
 
-    const templateWatcher = chokidar.watch(env.templatesPath, { ignoreInitial: true});
-    templateWatcher.on('all', async () => {
-        if (!block.templatesLoad) {
-            await loadTemplates();
-        }
-    });
+        // When a file in the templates directory changes, only the templates which are loaded from it or depend on it
+        // are reloaded, unless the templates have not been loaded successfully.
+        templates: async (filename) => {
+            if (block.templatesLoad) {
+                return;
+            }
+            if (templates && filename) {
+                const templateFile = path.relative(env.templatesPath, filename);
+                await reloadChangedTemplates(templateFile);
+                changeHandler(null, null, templateFile);
+            } else {
+                await loadTemplates();
+                changeHandler(null, null);
+            }
+        },
 
-    let viewsWatcher: FSWatcher = null;
-    if (env.config.views) {
-        viewsWatcher = chokidar.watch(env.config.views, { ignoreInitial: true });
-        viewsWatcher.on('all', async () => {
+        views: async () => {
             if (!block.viewsLoad) {
                 await loadViews();
+                changeHandler(null, null);
             }
-        });
-    }
+        },
+
+        data: async () => {
+            if (!block.localsLoad) {
+                await loadData();
+                changeHandler(null, null);
+            }
+        },
+    });
 
     type ContentHandlerResult = {
         error?: Error;
@@ -199,87 +247,251 @@ const setup = async (env: Environment): Promise<RequestHandlerFunc> => {
         pluginName: string;
     }
 
-    // Create a 404 result.
-    const return404 = (response: ServerResponse, pluginName: string): ContentHandlerResult => {
-        response.writeHead(404, { 'Content-Type': 'text/plain' });
-        response.end('404 Not Found In Aberhwmbr\n');
-        return { error: null, code: 404, pluginName };
+    // Get the content type of rendered output.
+    const outputContentType = (content: ContentPlugin, uri: string): string => {
+        const mimeType = mime.getType(content.filename) || mime.getType(uri);
+        const charset = lookupCharset(mimeType);
+        return charset ? `${mimeType}; charset=${charset}` : mimeType;
     };
 
-    // Called by requestHandler().  Take incoming HTTP requests, rerun all generators, try to match the request to an item in the content tree,
-    // and if there is a match, render that item and return the output.
-    const contentHandler = async (request: IncomingMessage, response: ServerResponse): Promise<ContentHandlerResult> => {
-        const uri = normaliseUrl(new URL(request.url, `http://${request.headers.host}`).pathname);
-        env.logger.verbose(`contentHandler - ${uri}`);
+    // Write a page with an error status, which is not the output of the content for its URI, so that a live reload only
+    // reloads it once the URI can be rendered.
+    const writeErrorOutput = async (request: IncomingMessage, response: ServerResponse, uri: string, code: number, contentType: string, output: Buffer): Promise<number> => {
+        servedHashes[uri] = null;
+        servedTemplates[uri] = null;
+        if (liveReload && contentType.startsWith('text/html')) {
+            output = injectClientScript(output, liveReloadEndpoint);
+        }
+        return await writeOutput(request, response, code, contentType, output);
+    };
 
-        // Rerun generators if needed.
+    // Respond with a 404 status and the output of the site's not found page, or a plain text message if the site does
+    // not have one or it cannot be rendered.
+    const writeNotFound = async (request: IncomingMessage, response: ServerResponse, uri: string): Promise<number> => {
+        const page = findNotFoundPage(env, generatedContentTree);
+        if (page) {
+            try {
+                const renderOutput = await renderView(env, page, locals, generatedContentTree, templates);
+                if (renderOutput instanceof Buffer) {
+                    return await writeErrorOutput(request, response, uri, 404, outputContentType(page, uri), renderOutput);
+                }
+                if (renderOutput instanceof ReadStream) {
+                    renderOutput.destroy();
+                }
+            } catch (error) {
+                env.logger.error(`Error rendering the not found page ${page.filename}: ${error.message}`);
+            }
+        }
+        return await writeOutput(request, response, 404, 'text/plain', message404);
+    };
+
+    // Rerun all generators, if they have not been run recently.
+    const regenerate = async (): Promise<void> => {
         if ((!generatedContentTree) || (lastGenerationTime + generationTimeout < Date.now())) {
-            const generated = await Promise.all(env.generators.map(async (g) => runGenerator(env, contents, g)));
+            const parallel = env.generators.filter(g => !g.runLast);
+            const generated = await Promise.all(parallel.map(async (g) => runGenerator(env, contents, g)));
             generatedContentTree = contents;
             
-            if (generated.length > 0) {
+            if (env.generators.length > 0) {
                 generatedContentTree = new ContentTree('', env.getContentGroups());
                 for (const gentree of generated) {
                     ContentTree.merge(generatedContentTree, gentree);
                 }
-                generatedContentMap = buildLookupMap(generated);
                 ContentTree.merge(generatedContentTree, contents);
+                for (const generator of env.generators.filter(g => g.runLast)) {
+                    const gentree = await runGenerator(env, generatedContentTree, generator);
+                    ContentTree.merge(generatedContentTree, gentree);
+                    generated.push(gentree);
+                }
+                generatedContentMap = ContentTree.lookupMap(generated);
             }
 
             lastGenerationTime = Date.now();
         }
+    };
+
+    // Called by requestHandler().  Take incoming HTTP requests, rerun all generators, try to match the request to an item in the content tree,
+    // and if there is a match, render that item and return the output.
+    const contentHandler = async (request: IncomingMessage, response: ServerResponse): Promise<ContentHandlerResult> => {
+        const uri = normaliseUrl(new URL(request.url, `http://${request.headers.host}`).pathname);
+        env.logger.verbose(`contentHandler - ${uri}`);
+
+        await regenerate();
 
         const content = generatedContentMap[uri] || staticContentMap[uri];
         if (content) {
             const pluginName = content.__plugin.name;
+            const tracker = new TemplateTracker();
             try {
-                const renderOutput = await renderView(env, content, locals, generatedContentTree, templates);
+                const renderOutput = await renderView(env, content, locals, generatedContentTree, templates, tracker);
+                servedTemplates[uri] = templateFiles(env, templates, [tracker, ...preparedTemplates(generatedContentTree)]);
                 let code = 200;
                 if (renderOutput) {
                     if (!(renderOutput instanceof Buffer || renderOutput instanceof ReadStream)) {
                         throw new Error(`Something is wrong in Iceforge!  View for content ${content.filename} returned invalid response; Buffer or Stream expected.`);
                     }
-                    const mimeType = mime.getType(content.filename) || mime.getType(uri);
-                    const charset = lookupCharset(mimeType);
-                    const contentType = charset ? `${mimeType}; charset=${charset}` : mimeType;
-                    await writeOutput(response, code, contentType, renderOutput);
+                    const contentType = outputContentType(content, uri);
+                    if (liveReload && contentType.startsWith('text/html') && renderOutput instanceof Buffer) {
+                        servedHashes[uri] = hashOutput(renderOutput);
+                        code = await writeOutput(request, response, code, contentType, injectClientScript(renderOutput, liveReloadEndpoint), uri);
+                        return { error: null, code, pluginName, };
+                    }
+                    code = await writeOutput(request, response, code, contentType, renderOutput, uri);
                     return { error: null, code, pluginName, };
                 } else {
-                    code = 404;
-                    await writeOutput(response, code, 'text/plain', message404);
+                    code = await writeNotFound(request, response, uri);
                     return { error: null, code, pluginName };
                 }
             } catch (error) {
                 logger.verbose(error.message);
-                await writeOutput(response, 500, 'text/plain', error.message);
+                const errorPage = renderErrorPage(env, error, content, [...tracker.names].pop());
+                await writeErrorOutput(request, response, uri, 500, 'text/html; charset=UTF_8', errorPage);
                 return { error, code: 500, pluginName };
             }
         }
-        return return404(response, 'Unknown ');
+        return { error: null, code: await writeNotFound(request, response, uri), pluginName: 'Unknown ' };
+    };
+
+    // Get the validators for rendered output.  Its last modification time is the time when the output served for its
+    // URI last changed.
+    const outputValidators = (uri: string, content: Buffer): Validators => {
+        const etag = `"${hashOutput(content)}"`;
+        if (servedValidators[uri]?.etag !== etag) {
+            servedValidators[uri] = { etag, lastModified: new Date() };
+        }
+        return servedValidators[uri];
     };
 
-    const writeOutput = async (response: ServerResponse, code: number, contentType: string, content: ReadStream | Buffer): Promise<void> => {
-        let source;
-        if (content instanceof Buffer) {
-            source = Readable.from(content);
+    // Write a response.  If a URI is given for a successful response, the response has ETag and Last-Modified headers,
+    // and a conditional request is answered with 304 Not Modified if the output has not changed.  Streamed output, which
+    // is how static files are served, also supports byte range requests, so that audio and video can be seeked.  The
+    // response to a HEAD request has the same headers as the response to a GET request, but no body.  Successful
+    // responses with text content are compressed with the best content coding which the client accepts, and their
+    // entity tags are weak, as the compressed bytes are not the same as the output.  Returns the status code of the
+    // response.
+    const writeOutput = async (request: IncomingMessage, response: ServerResponse, code: number, contentType: string, content: ReadStream | Buffer, uri?: string): Promise<number> => {
+        const headers: OutgoingHttpHeaders = { 'Content-Type': contentType };
+        let source: Readable = content instanceof ReadStream ? content : Readable.from(content);
+        const compressible = code === 200 && isCompressible(contentType.split(';')[0].trim());
+        let encoding = compressible ? negotiateEncoding(request.headers['accept-encoding']) : null;
+        if (compressible) {
+            headers['Vary'] = 'Accept-Encoding';
+        }
+        if (code === 200 && uri) {
+            let size: number;
+            let validators: Validators;
+            if (content instanceof ReadStream) {
+                const stats = await fs.stat(content.path);
+                size = stats.size;
+                validators = { etag: fileEtag(stats.size, stats.mtimeMs), lastModified: stats.mtime };
+                headers['Accept-Ranges'] = 'bytes';
+            } else {
+                size = content.length;
+                validators = outputValidators(uri, content);
+            }
+            headers['Last-Modified'] = validators.lastModified.toUTCString();
+            const range = content instanceof ReadStream ? parseRange(request.headers, size, validators) : null;
+            if (isNotModified(request.headers, validators)) {
+                code = 304;
+                source = null;
+            } else if (range === 'unsatisfiable') {
+                code = 416;
+                headers['Content-Range'] = `bytes */${size}`;
+                source = null;
+                encoding = null;
+            } else if (range && content instanceof ReadStream) {
+                code = 206;
+                headers['Content-Range'] = `bytes ${range.start}-${range.end}/${size}`;
+                headers['Content-Length'] = range.end - range.start + 1;
+                source = createReadStream(content.path, range);
+                encoding = null;
+            } else if (!encoding) {
+                headers['Content-Length'] = size;
+            }
+            headers['ETag'] = encoding ? `W/${validators.etag}` : validators.etag;
+        }
+        if (code === 200 && encoding) {
+            headers['Content-Encoding'] = encoding;
         } else {
-            source = content;
+            encoding = null;
+        }
+        if (request.method === 'HEAD') {
+            source = null;
+        }
+        const compressor = source && encoding ? createCompressor(encoding) : null;
+        if (content instanceof ReadStream && source !== content) {
+            content.destroy();
         }
 
         if (!response.headersSent && response.socket) {
-            response.writeHead(code, { 'Content-Type': contentType});
+            response.writeHead(code, headers);
         }
         if (!response.writableEnded && response.socket) {
-            await pipeline(source, response);
+            if (compressor) {
+                await pipeline(source, compressor, response);
+            } else if (source) {
+                await pipeline(source, response);
+            }
             response.end();
+        } else if (source) {
+            source.destroy();
         }
+        return code;
     };
 
+    // Called when the environment emits a change event.  Rerenders each page with a live reload connection open, and
+    // tells the page to reload if its output is different to what was last served.  A change to content which is not
+    // HTML, such as a stylesheet or an image, could affect any page, so in that case every page is told to reload.  If
+    // a file in the templates directory changed, pages which were not rendered using it are not rerendered.
+    const liveReloadHandler = async (filename?: string, ignored?: boolean, templateFile?: string): Promise<void> => {
+        if (!liveReload || ignored || liveReload.clients.size === 0) {
+            return;
+        }
+        if (filename && mime.getType(filename) !== 'text/html') {
+            env.logger.verbose(`Live reload: ${filename} changed, reloading all pages`);
+            liveReload.reloadAll();
+            return;
+        }
+        while (!isReady()) {
+            await sleep();
+        }
+        await regenerate();
+        for (const client of liveReload.clients) {
+            const uri = normaliseUrl(client.page);
+            if (templateFile && servedTemplates[uri] && !servedTemplates[uri].includes(templateFile)) {
+                continue;
+            }
+            const content = generatedContentMap[uri] || staticContentMap[uri];
+            let hash: string = null;
+            if (content) {
+                try {
+                    const renderOutput = await renderView(env, content, locals, generatedContentTree, templates);
+                    hash = renderOutput instanceof Buffer ? hashOutput(renderOutput) : null;
+                } catch (error) {
+                    logger.verbose(error.message);
+                }
+            }
+            if (hash !== servedHashes[uri]) {
+                env.logger.verbose(`Live reload: reloading ${client.page}`);
+                liveReload.reload(client);
+            }
+        }
+    };
+    const changeListener = (filename?: string, ignored?: boolean, templateFile?: string): void => {
+        liveReloadHandler(filename, ignored, templateFile).catch(logError);
+    };
+    env.on('change', changeListener);
+
     // Handles incoming HTTP requests.  Checks that the environment is properly loaded; calls the content handler, and sends the appropriate 
     // response depending on the content handler result.
     const requestHandler = async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
         const startTimestamp = Date.now();
         const uri = new URL(request.url, `http://${request.headers.host}`).pathname;
+        if (liveReload && uri === liveReloadEndpoint) {
+            const client = liveReload.connect(request, response);
+            env.logger.verbose(`Live reload connection opened for ${client.page}`);
+            return;
+        }
         if (!block.contentsLoad && !contents) {
             await loadContents();
         }
@@ -292,19 +504,13 @@ const setup = async (env: Environment): Promise<RequestHandlerFunc> => {
         const handlerFeedback = await contentHandler(request, response);
         let responseCode = 404;
         if (!handlerFeedback) {
-            writeOutput(response, responseCode, 'text/plain', message404);
+            writeOutput(request, response, responseCode, 'text/plain', message404);
         } else {
             responseCode = handlerFeedback.code;
         }
 
         // Check the time taken and log it.
-        const timeDelta = Date.now() - startTimestamp;
-        let logMsg = `${colourCode(responseCode)} ${chalk.bold(uri)}`;
-        if (handlerFeedback && handlerFeedback.pluginName) {
-            logMsg += ` ${chalk.grey(handlerFeedback.pluginName)}`;
-        }
-        logMsg += ` ${chalk.green(timeDelta)}ms`;
-        env.logger.info(logMsg);
+        logRequest(env, responseCode, uri, startTimestamp, handlerFeedback?.pluginName);
         if (handlerFeedback && handlerFeedback.error) {
             env.logger.error(handlerFeedback.error.message, handlerFeedback.error);
         }
@@ -316,11 +522,11 @@ const setup = async (env: Environment): Promise<RequestHandlerFunc> => {
     await loadLocals();
 
     requestHandler.destroy = () => {
-        contentWatcher.close();
-        templateWatcher.close();
-        if (viewsWatcher) {
-            viewsWatcher.close();
+        env.off('change', changeListener);
+        if (liveReload) {
+            liveReload.close();
         }
+        closeWatchers();
     };
 
     return requestHandler;
@@ -332,42 +538,57 @@ const run = async (env: Environment): Promise<Server> => {
     let server: Server = null;
     let handler: RequestHandlerFunc = null;
 
-    if (env.config.restartOnConfigChange && env.config.filename) {
-        env.logger.verbose(`Watching config file ${env.config.filename} for changes.`);
-        const configWatcher = chokidar.watch(env.config.filename);
-        configWatcher.on('change', async () => {
-            let config: IConfig = null;
-            try {
-                config = await Config.fromFile(env.config.filename);
-            } catch (error) {
-                env.logger.error(`Error reloading config: ${error.message}`);
-            }
-            if (config) {
-                if (env.config._cliopts) {
-                    config._cliopts = {...env.config._cliopts};
-                }
-                env.setConfig(config);
-            }
-            await restart();
-            env.logger.verbose('Config file change detected, server reloaded.');
-            env.emit('change');
-        });
-    }
-
     const restart = async () => {
         env.logger.info('Restarting server');
-        stopServer();
-        await startServer();
+        await stopServer();
+        server = await startServer();
     };
 
-    const stopServer = () => {
+    const stopServer = async () => {
         if (server) {
             server.destroy();
             handler.destroy();
-            env.reset();
+            server = null;
         }
+        await env.reset();
     };
 
+    // Reload the config file and restart the server with it.  If the file cannot be loaded, or the new config is not
+    // valid, the error is logged and the server keeps running with the previous config.  The config is checked against
+    // the schemas of the plugins which are already loaded before the server is stopped; if it is then found to be
+    // invalid once the new config's plugins are loaded, the server is restarted with the previous config.
+    const configChanged = async () => {
+        const previousConfig = env.config;
+        try {
+            if (!await reloadConfig(env)) {
+                return;
+            }
+            env.validateConfig(false);
+        } catch (error) {
+            env.logger.error(`Error reloading config, the server has not been restarted: ${error.message}`);
+            env.setConfig(previousConfig);
+            return;
+        }
+        try {
+            await restart();
+        } catch (error) {
+            env.logger.error(`Error restarting server, restarting it with the previous config: ${error.message}`);
+            env.setConfig(previousConfig);
+            await restart();
+        }
+        env.logger.verbose('Config file change detected, server reloaded.');
+        env.emit('change');
+    };
+
+    if (env.config.restartOnConfigChange && env.config.filename) {
+        env.logger.verbose(`Watching config file ${env.config.filename} for changes.`);
+        watchSources(env, {
+            config: () => configChanged().catch((error) => {
+                env.logger.error(`Error restarting server: ${error.message}`, error);
+            }),
+        });
+    }
+
     const startServer = async (): Promise<Server> => {
         await env.loadPlugins();
         handler = await setup(env);
@@ -0,0 +1,210 @@
+import * as path from 'node:path';
+
+import ContentPlugin from './contentPlugin.js';
+import { IContentTree, IEnvironment, TemplateMap } from './coreTypes.js';
+import { escapeXml } from './utils.js';
+
+// Shortcodes are tags which can be used in Markdown pages to insert content produced by a template or a function.
+// A shortcode is written as {{< name args >}}, and its output is inserted into the page as HTML, or as {{% name args %}},
+// and its output is treated as Markdown, which can itself contain shortcodes.  Arguments are either named, as
+// key="value", or positional, as "value".  Quotes are optional around values without spaces.
+//
+// A shortcode can also be paired with a closing tag, as {{< name >}}...{{< /name >}}, in which case the text between the
+// tags, after its own shortcodes are expanded, is passed to the shortcode as its inner content.  An opening tag with no
+// matching closing tag is treated as a standalone shortcode, as is a tag written as {{< name />}}.
+//
+// Shortcodes in code blocks and code spans are not expanded.  To show a shortcode tag elsewhere in a page without
+// expanding it, write it as {{</* name */>}}.
+
+// The context passed to a shortcode function, and used as the locals when rendering a shortcode template.
+// - name      The name of the shortcode.
+// - args      The shortcode arguments.  Named arguments are indexed by name, and positional arguments by position from 0.
+// - inner     For paired shortcodes, the inner content; otherwise null.
+// - page      The page containing the shortcode.
+// - contents  The content tree.
+// - templates The loaded templates.
+export type ShortcodeContext = {
+    name: string;
+    args: Record<string, string>;
+    inner: string | null;
+    page: ContentPlugin;
+    contents: IContentTree;
+    templates: TemplateMap;
+}
+
+// The function signature of a shortcode function.  It returns the shortcode's output.
+export type ShortcodeFunc = (env: IEnvironment, context: ShortcodeContext) => string | Promise<string>;
+
+// A shortcode definition, consisting of the parameters passed to Environment.registerShortcode().  The handler is either
+// a shortcode function, or the name of a template to render.
+export type ShortcodeDef = {
+    name: string;
+    handler: string | ShortcodeFunc;
+}
+
+// The result of expanding the shortcodes in some Markdown.  Shortcodes whose output is HTML are replaced in the Markdown by
+// placeholders, so that their output is not processed as Markdown; insertShortcodeOutput() replaces the placeholders in
+// the rendered HTML with the shortcode output.
+export type ExpandedMarkdown = {
+    markdown: string;
+    outputs: string[];
+}
+
+// The maximum depth of shortcodes nested inside the inner content or Markdown output of other shortcodes.  This stops a
+// Markdown shortcode whose output includes itself, such as an include of the page it is in, from recursing forever.
+const maxDepth = 20;
+
+// Matches a shortcode tag.  The groups are:
+// 1: the opening delimiter, < or %
+// 2: /* if the tag is escaped
+// 3: / if the tag is a closing tag
+// 4: the shortcode name
+// 5: the arguments
+// 6: / if the tag is self-closing
+// 7: */ if the tag is escaped
+// 8: the closing delimiter, > or %
+const tagPattern = /\{\{([<%])(\/\*)?\s*(\/)?([A-Za-z][\w-]*)((?:\s+(?:[A-Za-z_][\w-]*=)?(?:"[^"]*"|'[^']*'|(?:[^\s"'/*>%}]|\/(?![>%])|\*(?!\/))+))*)\s*(\/)?\s*(\*\/)?([>%])\}\}/g;
+
+// Matches one argument: a name=value pair, or a positional value.  Values may be double-quoted, single-quoted or bare.
+const argPattern = /([A-Za-z_][\w-]*)=(?:"([^"]*)"|'([^']*)'|(\S+))|"([^"]*)"|'([^']*)'|(\S+)/g;
+
+// Matches fenced code blocks, which run to the matching closing fence or to the end of the text.
+const fencedCodePattern = /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^ {0,3}\1[`~]*[ \t]*$|(?![\s\S]))/gm;
+
+// Matches inline code spans.
+const codeSpanPattern = /(?<!`)(`+)(?!`)[\s\S]*?(?<!`)\1(?!`)/g;
+
+// Matches the placeholders which stand in for protected code, and for the output of HTML shortcodes.  They use characters
+// from the Unicode private use area, which Marked passes through unchanged.  A shortcode placeholder which Marked has
+// made into a paragraph of its own is matched along with the paragraph tags, so that block-level output is not wrapped
+// in a paragraph.
+const codePlaceholderPattern = /\uE000(\d+)\uE001/g;
+const outputPlaceholderPattern = /<p>\uE002(\d+)\uE003<\/p>|\uE002(\d+)\uE003/g;
+
+// Parse the argument string of a shortcode tag.
+export const parseArgs = (source: string): Record<string, string> => {
+    const args: Record<string, string> = {};
+    let position = 0;
+    for (const match of source.matchAll(argPattern)) {
+        if (match[1]) {
+            args[match[1]] = match[2] ?? match[3] ?? match[4];
+        } else {
+            args[String(position++)] = match[5] ?? match[6] ?? match[7];
+        }
+    }
+    return args;
+};
+
+// Replace the code blocks and code spans in some Markdown with placeholders, so that shortcode tags inside them are not
+// expanded.  Returns the protected Markdown, and a function which restores the code in a string.
+const protectCode = (markdown: string): [string, (s: string) => string] => {
+    const code: string[] = [];
+    const keep = (s: string) => {
+        code.push(s);
+        return `\uE000${code.length - 1}\uE001`;
+    };
+    const protectedMarkdown = markdown.replace(fencedCodePattern, keep).replace(codeSpanPattern, keep);
+    return [protectedMarkdown, (s: string) => s.replace(codePlaceholderPattern, (match, i) => code[Number(i)])];
+};
+
+// Call the handler of a shortcode and return its output.
+const callShortcode = async (env: IEnvironment, context: ShortcodeContext): Promise<string> => {
+    const def = env.shortcodes[context.name];
+    if (!def) {
+        throw new Error(`Unknown shortcode ${context.name}`);
+    }
+    if (typeof def.handler === 'string') {
+        const template = context.templates[path.normalize(def.handler)];
+        if (!template) {
+            throw new Error(`Shortcode ${context.name} uses unknown template ${def.handler}`);
+        }
+        const locals = { env, contents: context.contents, ...env.locals, ...context };
+        return (await template.render(locals)).toString();
+    }
+    return await def.handler(env, context);
+};
+
+// Expand the shortcodes in some Markdown from a page, recursively.  Shortcodes whose output is Markdown have their output
+// expanded in turn, and the output of shortcodes whose output is HTML is added to the outputs array.
+const expand = async (env: IEnvironment, context: Omit<ShortcodeContext, 'name' | 'args' | 'inner'>, markdown: string, outputs: string[], depth: number): Promise<string> => {
+    if (depth > maxDepth) {
+        throw new Error(`Shortcodes are nested more than ${maxDepth} deep.  Check for a shortcode whose output includes itself.`);
+    }
+    const [source, restoreCode] = protectCode(markdown);
+    const placeholder = (output: string) => {
+        outputs.push(output);
+        return `\uE002${outputs.length - 1}\uE003`;
+    };
+    const tags = [...source.matchAll(tagPattern)];
+    let result = '';
+    let pos = 0;
+    let i = 0;
+    while (i < tags.length) {
+        const tag = tags[i];
+        const [text, open, escapeStart, closing, name, args, selfClosing, escapeEnd, close] = tag;
+        result += source.substring(pos, tag.index);
+        pos = tag.index + text.length;
+        i++;
+        if ((open === '<') !== (close === '>')) {
+            // Mismatched delimiters, such as {{< name %}}, are left as they are.
+            result += text;
+            continue;
+        }
+        if (escapeStart && escapeEnd) {
+            // The unescaped tag is output as HTML, so that it is not expanded if it ends up in the output of a Markdown
+            // shortcode.
+            const unescaped = text.replace(/^\{\{(.)\/\*/, '{{$1').replace(/\*\/(.)\}\}$/, '$1}}');
+            result += placeholder(escapeXml(unescaped));
+            continue;
+        }
+        if (closing) {
+            throw new Error(`Closing shortcode tag {{${open} /${name} ${close}}} has no opening tag`);
+        }
+
+        // Look for the matching closing tag, allowing for nested shortcodes of the same name.
+        let inner: string = null;
+        if (!selfClosing) {
+            let nesting = 0;
+            for (let j = i; j < tags.length; j++) {
+                const [, jOpen, jEscape, jClosing, jName, , jSelfClosing] = tags[j];
+                if (jName !== name || jOpen !== open || jEscape || jSelfClosing) {
+                    continue;
+                }
+                if (!jClosing) {
+                    nesting++;
+                } else if (nesting > 0) {
+                    nesting--;
+                } else {
+                    inner = source.substring(pos, tags[j].index);
+                    pos = tags[j].index + tags[j][0].length;
+                    i = j + 1;
+                    break;
+                }
+            }
+        }
+        if (inner !== null) {
+            inner = await expand(env, context, restoreCode(inner), outputs, depth + 1);
+        }
+
+        const output = await callShortcode(env, { ...context, name, args: parseArgs(args), inner });
+        if (open === '%') {
+            result += await expand(env, context, output, outputs, depth + 1);
+        } else {
+            result += placeholder(output);
+        }
+    }
+    result += source.substring(pos);
+    return restoreCode(result);
+};
+
+// Expand the shortcodes in a page's Markdown.
+export const expandShortcodes = async (env: IEnvironment, page: ContentPlugin, markdown: string, contents: IContentTree, templates: TemplateMap): Promise<ExpandedMarkdown> => {
+    const outputs: string[] = [];
+    const expanded = await expand(env, { page, contents, templates }, markdown, outputs, 0);
+    return { markdown: expanded, outputs };
+};
+
+// Replace the shortcode placeholders in HTML rendered from expanded Markdown with the shortcode output.
+export const insertShortcodeOutput = (html: string, outputs: string[]): string =>
+    html.replace(outputPlaceholderPattern, (match: string, block: string, inline: string) =>
+        insertShortcodeOutput(outputs[Number(block ?? inline)], outputs));
@@ -0,0 +1,80 @@
+import * as path from 'node:path';
+
+import { IEnvironment, TemplateMap } from './coreTypes.js';
+
+// Records which templates are used while content is rendered, so that the preview server and incremental builds can tell
+// which content a change to a template file affects.
+export class TemplateTracker {
+
+    // The names of the templates looked up, including any which do not exist, as they might be created later.
+    names: Set<string>;
+
+    // Whether every template could have been used, because the whole template map was enumerated.
+    all: boolean;
+
+    constructor() {
+        this.names = new Set();
+        this.all = false;
+    }
+
+    // Wrap a template map so that the templates looked up in it are recorded by this tracker.
+    track(templates: TemplateMap): TemplateMap {
+        if (!templates) {
+            return templates;
+        }
+        return new Proxy(templates, {
+            get: (target, key, receiver) => {
+                if (typeof key === 'string') {
+                    this.names.add(key);
+                }
+                return Reflect.get(target, key, receiver);
+            },
+            has: (target, key) => {
+                if (typeof key === 'string') {
+                    this.names.add(key);
+                }
+                return Reflect.has(target, key);
+            },
+            ownKeys: (target) => {
+                this.all = true;
+                return Reflect.ownKeys(target);
+            },
+        });
+    }
+}
+
+// Get the files in the templates directory which the templates recorded by some trackers depend on: the template files
+// themselves, and the files they include or extend.  The files are given as paths relative to the templates directory,
+// in the same form as template names.  Returns null if any of the templates could depend on any file.
+export const templateFiles = (env: IEnvironment, templates: TemplateMap, trackers: TemplateTracker[]): string[] | null => {
+    const files = new Set<string>();
+    for (const tracker of trackers) {
+        if (tracker.all) {
+            return null;
+        }
+        for (const name of tracker.names) {
+            files.add(name);
+            const template = templates && Object.hasOwn(templates, name) ? templates[name] : undefined;
+            if (!template) {
+                continue;
+            }
+            if (template.dependencies === null) {
+                return null;
+            }
+            for (const dependency of template.dependencies) {
+                files.add(path.relative(env.templatesPath, dependency));
+            }
+        }
+    }
+    return [...files].sort();
+};
+
+// Get the names of the loaded templates which are affected by a change to a file in the templates directory: the template
+// loaded from the file, if there is one, and the templates which depend on it or whose dependencies are not known.  The
+// filename is relative to the templates directory.
+export const affectedTemplates = (env: IEnvironment, templates: TemplateMap, filename: string): string[] =>
+    Object.keys(templates).filter((name) => {
+        const dependencies = templates[name].dependencies;
+        return name === filename || dependencies === null ||
+            dependencies.some(dependency => path.relative(env.templatesPath, dependency) === filename);
+    });
@@ -13,6 +13,11 @@ export default class TemplatePlugin {
         return 'TemplatePlugin'; 
     }
 
+    // Full paths of the other files this template uses, such as the templates it includes or extends, or null if they are
+    // not known.  A template whose dependencies are not known is treated as depending on every file in the templates
+    // directory.
+    dependencies: string[] | null = null;
+
     // Constructor provided to ensure that inheritors can declare a different constructor signature without upsetting Typescript.
     // eslint-disable-next-line
     constructor(...args: any[]) {}
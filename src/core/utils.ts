@@ -71,3 +71,21 @@ export const urlResolve = (base: string, url: string): string => {
     }
     return resolvedUrl.toString();
 };
+
+// Append 'index.html' to URL paths which end in a directory name, and decode them.
+export const normaliseUrl = (url: string): string => {
+    if (url.slice(-1) === '/') {
+        url += 'index.html';
+    } else if (url.match(/^([^.]*[^/])$/)) {
+        url += '/index.html';
+    }
+    return decodeURI(url);
+};
+
+// Escape a string for inclusion in XML text or attribute values.
+export const escapeXml = (s: string): string => s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
@@ -0,0 +1,221 @@
+import * as path from 'node:path';
+
+import chalk from 'chalk';
+import chokidar, { FSWatcher } from 'chokidar';
+import { minimatch } from 'minimatch';
+
+import BuildCache from './buildCache.js';
+import Config from './config.js';
+import { IConfig, IEnvironment, TemplateMap } from './coreTypes.js';
+import Environment from './environment.js';
+import { reloadTemplates } from './loadTemplates.js';
+import prune from './prune.js';
+import { compressOutputs } from './compression.js';
+import { writeNotFoundPage } from './errorPages.js';
+import render from './render.js';
+
+// The kinds of source file which are watched for changes.
+export type WatchedSource = 'contents' | 'templates' | 'views' | 'data' | 'config';
+
+// The functions to call when each kind of source file changes.  Each is passed the full path of the file which changed.
+export type WatchHandlers = Partial<Record<WatchedSource, (filename: string) => void | Promise<void>>>;
+
+// Watch a site's source files, and call the handler for the kind of file which changed.  Only the kinds of file which
+// have a handler are watched.  The views directory is only watched if config.views is set, and the config file is only
+// watched if the config was loaded from a file.  Returns a function which stops watching.
+export const watchSources = (env: IEnvironment, handlers: WatchHandlers): (() => Promise<void>) => {
+    const watchers: FSWatcher[] = [];
+    const watch = (source: WatchedSource, pathname: string, event: 'all' | 'change' = 'all') => {
+        const handler = handlers[source];
+        if (!handler || !pathname) {
+            return;
+        }
+        const watcher = chokidar.watch(pathname, { ignoreInitial: true });
+        if (event === 'change') {
+            watcher.on('change', filename => handler(filename));
+        } else {
+            watcher.on('all', (type, filename) => handler(filename));
+        }
+        watchers.push(watcher);
+    };
+    watch('contents', env.contentsPath);
+    watch('templates', env.templatesPath);
+    watch('views', env.config.views && env.resolvePath(env.config.views));
+    watch('data', env.dataPath);
+    watch('config', env.config.filename, 'change');
+    return async () => {
+        await Promise.all(watchers.map(watcher => watcher.close()));
+    };
+};
+
+// Check whether a changed file in the contents directory matches one of the config.ignore patterns.
+export const isIgnored = (env: IEnvironment, filename: string): boolean => {
+    const relPath = env.relativeContentsPath(filename);
+    return env.config.ignore.some(pattern => minimatch(relPath, pattern));
+};
+
+// Reload the config file after it has changed, and apply any settings which were given on the command line again.
+// Returns false, leaving the config unchanged, if the file cannot be loaded.
+export const reloadConfig = async (env: Environment): Promise<boolean> => {
+    let config: IConfig = null;
+    try {
+        config = await Config.fromFile(env.config.filename, env.config.profile);
+    } catch (error) {
+        env.logger.error(`Error reloading config: ${error.message}`);
+        return false;
+    }
+    if (env.config._cliopts) {
+        for (const key of Object.keys(env.config._cliopts)) {
+            if (key in env.config) {
+                config[key] = env.config[key];
+            }
+        }
+        config._cliopts = { ...env.config._cliopts };
+    }
+    env.setConfig(config);
+    return true;
+};
+
+// The changes waiting to be built by a watched build.
+type PendingChanges = {
+    files: Set<string>;
+    templates: Set<string>;
+    views: boolean;
+    data: boolean;
+    config: boolean;
+}
+
+const noChanges = (): PendingChanges => ({
+    files: new Set(),
+    templates: new Set(),
+    views: false,
+    data: false,
+    config: false,
+});
+
+// How long to wait after a change before rebuilding, so that a burst of changes, such as saving several files at once,
+// only causes one rebuild (in milliseconds).
+const rebuildDelay = 100;
+
+// Build a site into its output directory, then watch its contents, templates, views, data and config file, and rebuild
+// it whenever they change, until the returned function is called.
+//
+// The build cache is kept in memory between builds, so each rebuild only renders the content which could be affected
+// by the changes, and only rewrites output files whose content has changed.  If config.incremental is set, the cache
+// is also loaded before the first build and saved after each build.  If config.compress is set, compressed copies of
+// changed output files are written after each build, and if config.prune is set, stale output files are deleted.
+//
+// Only the parts of the environment which changed are reloaded: the templates affected by a changed template file, the
+// views, the data directory, or, if the config file changes, all of the plugins.  Changes which are made during a build
+// are built once it has finished.  Errors are logged, and do not stop the watcher.  A one-line summary of each build is
+// logged.
+export const run = async (env: Environment, outputDir?: string): Promise<() => Promise<void>> => {
+    env.mode = 'watch';
+    const cacheFilename = env.resolvePath(env.config.buildCache);
+    let cache = env.config.incremental ? await BuildCache.load(cacheFilename) : new BuildCache(cacheFilename);
+    let templates: TemplateMap = null;
+    let pending = noChanges();
+    let building: Promise<void> = Promise.resolve();
+    let timer: NodeJS.Timeout = null;
+
+    await env.loadPlugins();
+    await env.loadViews();
+
+    // Reload whatever has changed, then render the site.
+    const rebuild = async (changes: PendingChanges): Promise<void> => {
+        const start = Date.now();
+        if (changes.config && await reloadConfig(env)) {
+            await env.reset();
+            await env.loadPlugins();
+            await env.loadViews();
+            templates = null;
+        } else {
+            if (changes.views) {
+                await env.loadViews();
+            }
+            if (changes.data) {
+                await env.loadData();
+            }
+        }
+        try {
+            if (!templates) {
+                templates = await env.getTemplates();
+            } else {
+                for (const filename of changes.templates) {
+                    templates = (await reloadTemplates(env, templates, filename)).templates;
+                }
+            }
+        } catch (error) {
+            templates = null;
+            throw error;
+        }
+        const directory = outputDir || env.resolvePath(env.config.output);
+        const contents = await env.getContents();
+        await cache.prepare(env, contents, env.loadedModules);
+        const result = await render(env, directory, contents, templates, env.locals, cache);
+        await writeNotFoundPage(env, directory, contents, result);
+        if (env.config.incremental) {
+            await cache.save();
+        }
+        const compressed = env.config.compress
+            ? await compressOutputs(env, directory, [...result.written, ...result.unchanged], result.unchanged)
+            : [];
+        const removed = env.config.prune
+            ? await prune(env, directory, [...result.written, ...result.unchanged, ...compressed])
+            : [];
+        cache = cache.next();
+
+        const delta = Date.now() - start;
+        const changedFiles = [...changes.files].map(f => path.relative(env.workDir, f));
+        const changed = changedFiles.length ? `after changes to ${changedFiles.join(', ')} ` : '';
+        let summary = `Built ${changed}in ${chalk.bold(delta)}ms: ` +
+            `${result.written.length} written, ${result.unchanged.length} unchanged`;
+        if (removed.length) {
+            summary += `, ${removed.length} removed`;
+        }
+        env.logger.info(summary);
+    };
+
+    // Build the pending changes, after any build which is already running.
+    const build = (): Promise<void> => {
+        building = building.then(async () => {
+            const changes = pending;
+            pending = noChanges();
+            try {
+                await rebuild(changes);
+            } catch (error) {
+                env.logger.error(`Build failed: ${error.message}`);
+            }
+        });
+        return building;
+    };
+
+    // Record a change, and build it once no more changes have been made for a short time.
+    const change = (filename: string, update?: (changes: PendingChanges) => void) => {
+        pending.files.add(filename);
+        update?.(pending);
+        clearTimeout(timer);
+        timer = setTimeout(build, rebuildDelay);
+    };
+
+    await build();
+
+    const close = watchSources(env, {
+        contents: (filename) => {
+            if (!isIgnored(env, filename)) {
+                change(filename);
+            }
+        },
+        templates: filename => change(filename, c => c.templates.add(path.relative(env.templatesPath, filename))),
+        views: filename => change(filename, c => { c.views = true; }),
+        data: filename => change(filename, c => { c.data = true; }),
+        config: filename => change(filename, c => { c.config = true; }),
+    });
+    env.logger.info('Watching for changes...');
+
+    return async () => {
+        clearTimeout(timer);
+        await close();
+        await building;
+    };
+};
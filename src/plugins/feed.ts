@@ -0,0 +1,436 @@
+import { slug } from 'github-slugger';
+
+import ContentPlugin from '../core/contentPlugin.js';
+import ContentTree from '../core/contentTree.js';
+import { selectItems } from '../core/collection.js';
+import { ConfigSchemaEntry } from '../core/configSchema.js';
+import { IContentTree, IEnvironment, Indexable, RenderedData } from '../core/coreTypes.js';
+import { escapeXml, rfc2822 } from '../core/utils.js';
+import { Page } from './page.js';
+
+// Generates RSS 2.0, Atom 1.0 and JSON Feed 1.1 feeds of the most recent pages in a site.  Feeds need absolute URLs,
+// so nothing is generated unless config.absoluteBaseUrl is set, and the plugin is only enabled if there is a "feed"
+// section in the config file.
+//
+// The pages in the feeds are taken from the named collection if the collection setting is given, or otherwise from the
+// pages below path whose source files match pattern.  Only Page instances are included, and pages can be left out by
+// setting "feed: false" in their metadata.  The content of each feed entry is the page's HTML with all of its links
+// made absolute, or just its intro if the content setting is "intro".
+//
+// If byAuthor or byCategory is set, a separate set of feeds is also generated for each author or category.  These
+// settings can be true, to use the default directories, or a directory name pattern in which %k is replaced by the
+// slugified author or category.  If the authors setting is given, author names in page metadata are looked up as
+// <name>.json pages in that content directory, whose metadata can give the author's full name, email and url.
+
+// The XML namespace of Atom feeds.
+const atomNamespace = 'http://www.w3.org/2005/Atom';
+
+// The version URL of JSON Feed 1.1.
+const jsonFeedVersion = 'https://jsonfeed.org/version/1.1';
+
+// The feed formats, and the MIME type of each.
+const formats = {
+    rss: 'application/rss+xml',
+    atom: 'application/atom+xml',
+    json: 'application/feed+json',
+};
+
+export type FeedFormat = keyof typeof formats;
+
+// Default plugin settings.  All of these can be overridden by putting a "feed": { ... } object in the config file, or
+// the plugin can be enabled with its default settings by setting "feed" to true.  The rss, atom and json settings are
+// the filenames of each format of feed, and any of them can be set to false to not generate that format.
+const defaults = {
+    collection: null as string,
+    path: 'articles',
+    pattern: null as string,
+    title: null as string,
+    description: null as string,
+    language: null as string,
+    author: null as string | FeedAuthor,
+    limit: 20,
+    content: 'full',
+    rss: 'feed.xml' as string | false,
+    atom: 'atom.xml' as string | false,
+    json: 'feed.json' as string | false,
+    authorKey: 'author',
+    categoryKey: 'categories',
+    authors: null as string,
+    byAuthor: false as boolean | string,
+    byCategory: false as boolean | string,
+};
+
+// The default directories for per-author and per-category feeds.
+const defaultAuthorDirectory = 'authors/%k';
+const defaultCategoryDirectory = 'categories/%k';
+
+type FeedOptions = typeof defaults;
+
+// The schema of the "feed" config section.
+const configSchema: ConfigSchemaEntry = {
+    type: ['object', 'boolean'],
+    properties: {
+        collection: { type: ['string', 'null'] },
+        path: { type: 'string' },
+        pattern: { type: ['string', 'null'] },
+        title: { type: ['string', 'null'] },
+        description: { type: ['string', 'null'] },
+        language: { type: ['string', 'null'] },
+        author: { type: ['string', 'object', 'null'] },
+        limit: { type: 'number' },
+        content: { type: 'string', enum: ['full', 'intro'] },
+        rss: { type: ['string', 'boolean'] },
+        atom: { type: ['string', 'boolean'] },
+        json: { type: ['string', 'boolean'] },
+        authorKey: { type: 'string' },
+        categoryKey: { type: 'string' },
+        authors: { type: ['string', 'null'] },
+        byAuthor: { type: ['string', 'boolean'] },
+        byCategory: { type: ['string', 'boolean'] },
+    },
+};
+
+// The author of a feed or a feed entry.  The key is the value which identified the author in the page metadata.
+export type FeedAuthor = {
+    key?: string;
+    name: string;
+    email?: string;
+    url?: string;
+}
+
+// A page in a feed, with its authors and categories.
+export type FeedEntry = {
+    page: Page;
+    authors: FeedAuthor[];
+    categories: string[];
+}
+
+// Everything needed to render one feed, in any of its formats.
+export type FeedData = {
+    title: string;
+    description: string;
+    language: string;
+    author: FeedAuthor | null;
+    content: string;
+    entries: FeedEntry[];
+    files: Partial<Record<FeedFormat, FeedFile>>;
+}
+
+// Convert a metadata value into a list of non-empty values.
+const valueList = (value: unknown): unknown[] =>
+    (Array.isArray(value) ? value : [value]).filter(v => typeof v !== 'undefined' && v !== null && v !== '');
+
+// Convert an author metadata value into a FeedAuthor.  Author names can be looked up as pages in the authors directory.
+const resolveAuthor = (value: unknown, contents: IContentTree, options: FeedOptions): FeedAuthor => {
+    if (typeof value === 'object') {
+        const author = value as Indexable;
+        return { key: author.name, name: String(author.name || ''), email: author.email, url: author.url };
+    }
+    const name = String(value);
+    if (options.authors) {
+        let tree: IContentTree = contents;
+        for (const part of options.authors.split('/').filter(p => p)) {
+            tree = tree?.[part] instanceof ContentTree ? tree[part] as IContentTree : null;
+        }
+        const authorPage = tree?.[`${name}.json`] as unknown as Indexable;
+        if (authorPage?.metadata) {
+            return { key: name, name: authorPage.metadata.name || name, email: authorPage.metadata.email, url: authorPage.metadata.url };
+        }
+    }
+    return { key: name, name };
+};
+
+// Check whether a content item should appear in feeds.  Generated pages derived from Page may have no metadata.
+const isFeedPage = (item: ContentPlugin): item is Page => {
+    if (!(item instanceof Page) || !item.metadata || item.metadata.feed === false) {
+        return false;
+    }
+    return !!item.metadata.view || item.template !== 'none';
+};
+
+// Select the pages which can appear in the site's feeds, newest first, and look up their authors and categories.  The
+// limit on the number of entries is applied separately to each feed.
+export const selectEntries = (env: IEnvironment, options: FeedOptions, contents: IContentTree): FeedEntry[] => {
+    const items = options.collection ?
+        env.getCollection(options.collection, contents).items :
+        selectItems(env, { path: options.path, pattern: options.pattern }, contents);
+    const pages = Array.from(new Set(items)).filter(isFeedPage);
+    pages.sort((a, b) => b.date.getTime() - a.date.getTime());
+    return pages.map(page => ({
+        page,
+        authors: valueList(page.metadata[options.authorKey]).map(a => resolveAuthor(a, contents, options)),
+        categories: valueList(page.metadata[options.categoryKey]).map(c => String(c)),
+    }));
+};
+
+// Format an author for an RSS feed, which only has room for a single string.
+const rssAuthor = (author: FeedAuthor): string => author.email ? `${author.email} (${author.name})` : author.name;
+
+// The content plugin for a feed file in one format.
+export class FeedFile extends ContentPlugin {
+
+    format: FeedFormat;
+
+    outputFilename: string;
+
+    feed: FeedData;
+
+    constructor(format: FeedFormat, outputFilename: string, feed: FeedData) {
+        super();
+        this.format = format;
+        this.outputFilename = outputFilename;
+        this.feed = feed;
+    }
+
+    get name() {
+        return 'FeedFile';
+    }
+
+    get filename() {
+        return this.outputFilename;
+    }
+
+    get pluginColour() {
+        return 'none';
+    }
+
+    // Convert a URL in the site to an absolute URL.
+    absoluteUrl(url: string): string {
+        return new URL(url, this.__env.config.absoluteBaseUrl).toString();
+    }
+
+    // The absolute URL of the root of the site.
+    get siteUrl(): string {
+        return this.absoluteUrl(this.__env.config.baseUrl || '/');
+    }
+
+    // Render the content of a feed entry, with its links made absolute.
+    entryContent(entry: FeedEntry): string {
+        return this.feed.content === 'intro' ? entry.page.getIntro(this.siteUrl) : entry.page.getHtml(this.siteUrl);
+    }
+
+    // The date a feed entry was last updated: the updated date in its page's metadata, or the page's date if it has none.
+    // An updated date which is not a valid date is logged, and the page's date is used instead.
+    entryUpdated(entry: FeedEntry): Date {
+        const value = entry.page.metadata.updated;
+        if (!value) {
+            return entry.page.date;
+        }
+        const updated = new Date(value);
+        if (isNaN(updated.getTime())) {
+            const source = entry.page.filepath?.relative ?? entry.page.filename;
+            this.__env.logger.warn(`Ignoring the invalid updated date "${value}" of ${source} in ${this.filename}`);
+            return entry.page.date;
+        }
+        return updated;
+    }
+
+    // The date the feed was last updated: the date of its newest entry.
+    get updated(): Date {
+        return this.feed.entries.length ? this.feed.entries[0].page.date : new Date(0);
+    }
+
+    renderRss(): string {
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<rss version="2.0" xmlns:atom="${atomNamespace}">`,
+            '  <channel>',
+            `    <title>${escapeXml(this.feed.title)}</title>`,
+            `    <link>${escapeXml(this.siteUrl)}</link>`,
+            `    <description>${escapeXml(this.feed.description)}</description>`,
+            `    <atom:link href="${escapeXml(this.absoluteUrl(this.url))}" rel="self" type="${formats.rss}"/>`,
+        ];
+        if (this.feed.language) {
+            lines.push(`    <language>${escapeXml(this.feed.language)}</language>`);
+        }
+        lines.push(`    <lastBuildDate>${rfc2822(this.updated)}</lastBuildDate>`);
+        lines.push('    <generator>Iceforge</generator>');
+        for (const entry of this.feed.entries) {
+            const link = escapeXml(this.absoluteUrl(entry.page.url));
+            lines.push('    <item>');
+            lines.push(`      <title>${escapeXml(entry.page.title)}</title>`);
+            lines.push(`      <link>${link}</link>`);
+            lines.push(`      <guid isPermaLink="true">${link}</guid>`);
+            lines.push(`      <pubDate>${entry.page.rfc2822date}</pubDate>`);
+            lines.push(...entry.authors.map(a => `      <author>${escapeXml(rssAuthor(a))}</author>`));
+            lines.push(...entry.categories.map(c => `      <category>${escapeXml(c)}</category>`));
+            lines.push(`      <description>${escapeXml(this.entryContent(entry))}</description>`);
+            lines.push('    </item>');
+        }
+        lines.push('  </channel>', '</rss>');
+        return lines.join('\n') + '\n';
+    }
+
+    renderAtom(): string {
+        const atomAuthor = (author: FeedAuthor, indent: string): string[] => [
+            `${indent}<author>`,
+            `${indent}  <name>${escapeXml(author.name)}</name>`,
+            ...(author.email ? [`${indent}  <email>${escapeXml(author.email)}</email>`] : []),
+            ...(author.url ? [`${indent}  <uri>${escapeXml(author.url)}</uri>`] : []),
+            `${indent}</author>`,
+        ];
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<feed xmlns="${atomNamespace}"${this.feed.language ? ` xml:lang="${escapeXml(this.feed.language)}"` : ''}>`,
+            `  <title>${escapeXml(this.feed.title)}</title>`,
+        ];
+        if (this.feed.description) {
+            lines.push(`  <subtitle>${escapeXml(this.feed.description)}</subtitle>`);
+        }
+        lines.push(`  <link href="${escapeXml(this.siteUrl)}"/>`);
+        lines.push(`  <link rel="self" type="${formats.atom}" href="${escapeXml(this.absoluteUrl(this.url))}"/>`);
+        lines.push(`  <id>${escapeXml(this.absoluteUrl(this.url))}</id>`);
+        lines.push(`  <updated>${this.updated.toISOString()}</updated>`);
+        if (this.feed.author) {
+            lines.push(...atomAuthor(this.feed.author, '  '));
+        }
+        lines.push('  <generator>Iceforge</generator>');
+        for (const entry of this.feed.entries) {
+            const link = escapeXml(this.absoluteUrl(entry.page.url));
+            const updated = this.entryUpdated(entry);
+            lines.push('  <entry>');
+            lines.push(`    <title>${escapeXml(entry.page.title)}</title>`);
+            lines.push(`    <link href="${link}"/>`);
+            lines.push(`    <id>${link}</id>`);
+            lines.push(`    <published>${entry.page.date.toISOString()}</published>`);
+            lines.push(`    <updated>${updated.toISOString()}</updated>`);
+            entry.authors.forEach(a => lines.push(...atomAuthor(a, '    ')));
+            lines.push(...entry.categories.map(c => `    <category term="${escapeXml(c)}"/>`));
+            lines.push(`    <content type="html">${escapeXml(this.entryContent(entry))}</content>`);
+            lines.push('  </entry>');
+        }
+        lines.push('</feed>');
+        return lines.join('\n') + '\n';
+    }
+
+    renderJson(): string {
+        const jsonAuthor = (author: FeedAuthor): Indexable => author.url ? { name: author.name, url: author.url } : { name: author.name };
+        const feed: Indexable = {
+            version: jsonFeedVersion,
+            title: this.feed.title,
+            home_page_url: this.siteUrl,
+            feed_url: this.absoluteUrl(this.url),
+        };
+        if (this.feed.description) {
+            feed.description = this.feed.description;
+        }
+        if (this.feed.language) {
+            feed.language = this.feed.language;
+        }
+        if (this.feed.author) {
+            feed.authors = [jsonAuthor(this.feed.author)];
+        }
+        feed.items = this.feed.entries.map(entry => {
+            const item: Indexable = {
+                id: this.absoluteUrl(entry.page.url),
+                url: this.absoluteUrl(entry.page.url),
+                title: entry.page.title,
+                content_html: this.entryContent(entry),
+                date_published: entry.page.date.toISOString(),
+            };
+            if (entry.page.metadata.updated) {
+                item.date_modified = this.entryUpdated(entry).toISOString();
+            }
+            if (entry.authors.length) {
+                item.authors = entry.authors.map(jsonAuthor);
+            }
+            if (entry.categories.length) {
+                item.tags = entry.categories;
+            }
+            return item;
+        });
+        return JSON.stringify(feed, null, 2) + '\n';
+    }
+
+    get view() {
+        return async (): Promise<RenderedData> => {
+            await Promise.all(this.feed.entries.map(entry => entry.page.renderHtml(this.siteUrl)));
+            switch (this.format) {
+            case 'rss':
+                return Buffer.from(this.renderRss());
+            case 'atom':
+                return Buffer.from(this.renderAtom());
+            default:
+                return Buffer.from(this.renderJson());
+            }
+        };
+    }
+}
+
+// Create the files for one feed, in each configured format, with their filenames prefixed by directory.
+const createFeed = (options: FeedOptions, feed: Omit<FeedData, 'files'>, directory = ''): Partial<Record<FeedFormat, FeedFile>> => {
+    const data: FeedData = { ...feed, entries: options.limit ? feed.entries.slice(0, options.limit) : feed.entries, files: {} };
+    for (const format of Object.keys(formats) as FeedFormat[]) {
+        if (options[format]) {
+            data.files[format] = new FeedFile(format, directory ? `${directory}/${options[format]}` : options[format] as string, data);
+        }
+    }
+    return data.files;
+};
+
+// A group of feed entries sharing an author or category, identified by key and described by label.
+type FeedGroup = {
+    label: string;
+    entries: FeedEntry[];
+}
+
+// Split the entries of a feed into groups, using a function which returns the keys and labels of the groups each entry
+// is in.
+const groupEntries = (entries: FeedEntry[], keys: (entry: FeedEntry) => [string, string][]): Map<string, FeedGroup> => {
+    const groups = new Map<string, FeedGroup>();
+    for (const entry of entries) {
+        for (const [key, label] of new Map(keys(entry))) {
+            if (!groups.has(key)) {
+                groups.set(key, { label, entries: [] });
+            }
+            groups.get(key).entries.push(entry);
+        }
+    }
+    return groups;
+};
+
+// Register the feed generator.
+const registerPlugin = async (env: IEnvironment): Promise<void> => {
+    env.registerConfigSchema('feed', configSchema);
+    env.registerGenerator('feed', async (contents: IContentTree) => {
+        if (!env.config.feed) {
+            return {};
+        }
+        if (!env.config.absoluteBaseUrl) {
+            env.logger.warn('Not generating feeds because absoluteBaseUrl is not set');
+            return {};
+        }
+        const options: FeedOptions = { ...defaults, ...(typeof env.config.feed === 'object' ? env.config.feed : {}) };
+        const entries = selectEntries(env, options, contents);
+        const feed = {
+            title: options.title || env.locals.name || '',
+            description: options.description || env.locals.description || '',
+            language: options.language,
+            author: options.author ? resolveAuthor(options.author, contents, options) : null,
+            content: options.content,
+        };
+
+        const feeds: Indexable = {};
+        for (const [format, file] of Object.entries(createFeed(options, { ...feed, entries }))) {
+            feeds[`${format}.feed`] = file;
+        }
+        const addGroupFeeds = (kind: string, setting: boolean | string, defaultDirectory: string, keys: (entry: FeedEntry) => [string, string][]) => {
+            if (!setting) {
+                return;
+            }
+            const directory = typeof setting === 'string' ? setting : defaultDirectory;
+            for (const [key, group] of groupEntries(entries, keys)) {
+                const keySlug = slug(key);
+                const files = createFeed(options, { ...feed, title: `${feed.title}: ${group.label}`, entries: group.entries }, directory.replace(/%k/g, keySlug));
+                for (const [format, file] of Object.entries(files)) {
+                    feeds[`${kind}.${keySlug}.${format}.feed`] = file;
+                }
+            }
+        };
+        addGroupFeeds('authors', options.byAuthor, defaultAuthorDirectory, (entry) => entry.authors.map(a => [a.key || a.name, a.name]));
+        addGroupFeeds('categories', options.byCategory, defaultCategoryDirectory, (entry) => entry.categories.map(c => [c, c]));
+        return { feeds } as unknown as IContentTree;
+    });
+};
+
+export default registerPlugin;
@@ -0,0 +1,109 @@
+import Handlebars from 'handlebars';
+import fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+import TemplatePlugin from '../core/templatePlugin.js';
+import { FilePath, IEnvironment, LocalMap } from '../core/coreTypes.js';
+import { fileExists, readDirRecursive, stripExtension } from '../core/utils.js';
+
+let environment: IEnvironment;
+
+// A Handlebars instance with the site's helpers and partials registered, and the full paths of the partial files.
+type HandlebarsInstance = {
+    handlebars: typeof Handlebars;
+    partials: string[];
+}
+
+// The Handlebars instance shared by all Handlebars templates.  It is created when the first template is loaded, after all
+// the plugins have had a chance to register helpers, and is discarded when the plugin is registered again.
+let handlebarsInstance: Promise<HandlebarsInstance> = null;
+
+// Create a Handlebars instance, and register the functions in the environment's helpers object and the registered
+// Handlebars helpers as helpers, and the templates in the partials directory as partials.  Each partial is named after
+// its path relative to the partials directory, without its extension, so partials/blog/card.hbs is the "blog/card"
+// partial.
+const createHandlebars = async (): Promise<HandlebarsInstance> => {
+    const handlebars = Handlebars.create();
+    for (const [name, helper] of Object.entries(environment.helpers)) {
+        if (typeof helper === 'function') {
+            handlebars.registerHelper(name, helper);
+        }
+    }
+    for (const def of Object.values(environment.handlebarsHelpers)) {
+        handlebars.registerHelper(def.name, def.helper);
+    }
+    const partials: string[] = [];
+    const partialsPath = path.join(environment.templatesPath, environment.config.handlebars?.partials ?? 'partials');
+    if (await fileExists(partialsPath)) {
+        for (const filename of await readDirRecursive(partialsPath)) {
+            if (path.extname(filename) === '.hbs') {
+                const partial = path.join(partialsPath, filename);
+                handlebars.registerPartial(stripExtension(filename).split(path.sep).join('/'), (await fs.readFile(partial)).toString());
+                partials.push(partial);
+            }
+        }
+    }
+    return { handlebars, partials };
+};
+
+// Get the shared Handlebars instance, creating it if necessary.  In preview and watch modes, a new instance is created
+// for each template, so that changes to partials are picked up when the templates are reloaded.
+const getHandlebars = (): Promise<HandlebarsInstance> => {
+    if (environment.mode === 'preview' || environment.mode === 'watch') {
+        return createHandlebars();
+    }
+    if (!handlebarsInstance) {
+        handlebarsInstance = createHandlebars();
+    }
+    return handlebarsInstance;
+};
+
+// Concrete template plugin for rendering templates written in Handlebars - see https://handlebarsjs.com
+// Templates are compiled by a Handlebars instance which has the site's helpers and partials registered.  The "handlebars"
+// config section, apart from its partials setting, is passed to the Handlebars compiler as its options.  Any template can
+// use any partial, so each template's dependencies are all of the partials.
+export class HandlebarsTemplate extends TemplatePlugin {
+
+    get name() {
+        return 'handlebars';
+    }
+
+    template: HandlebarsTemplateDelegate;
+
+    constructor(template: HandlebarsTemplateDelegate) {
+        super();
+        this.template = template;
+    }
+
+    // Handlebars does not normally let templates read properties inherited from an object's prototype, but the properties
+    // of content plugins, such as page.title and page.html, are getters on their classes' prototypes.
+    async render(locals: LocalMap): Promise<Buffer> {
+        return Buffer.from(this.template(locals, { allowProtoPropertiesByDefault: true }));
+    }
+
+    // Read the template file, compile it, and create a new plugin instance that uses the compiled template for rendering.
+    // Handlebars only compiles a template when it is first rendered, so the template is parsed straight away, to report
+    // syntax errors when the template is loaded.
+    static async fromFile(filepath: FilePath) {
+        const source = (await fs.readFile(filepath.full)).toString();
+        const options = { ...environment.config.handlebars };
+        delete options.partials;
+        const { handlebars, partials } = await getHandlebars();
+        handlebars.parse(source);
+        const plugin = new HandlebarsTemplate(handlebars.compile(source, options));
+        plugin.dependencies = partials;
+        return plugin;
+    }
+}
+
+// The Handlebars template module registers the Handlebars template plugin, and the schema of the "handlebars" config
+// section.  Apart from the partials setting, which sets the partials directory relative to the templates directory, that
+// section is passed to the Handlebars compiler as its options, so only its type is checked.
+const registerPlugin = async (env: IEnvironment) => {
+    environment = env;
+    handlebarsInstance = null;
+    env.registerConfigSchema('handlebars', { type: 'object' });
+    env.registerTemplatePlugin('**/*.hbs', HandlebarsTemplate);
+};
+
+export default registerPlugin;
@@ -2,36 +2,77 @@
 //
 // - HLJS and marked-highlight for code highlighting
 // - marked-smartypants for smart quotes and other punctuation
-// - marked-gfm-heading-id to enable anchor links and (if you want it) TOC rendering.
+// - our own heading ID extension, which works like marked-gfm-heading-id, to enable anchor links and TOC rendering.
 // - js-yaml for frontmatter parsing
 //
 // This code also overrides marked.js's default rendering of <a> and <img> tags so that
 // relative URLs are rewritten to work correctly when the content of a Markdown page is
 // embedded in a path different to the page's canonical path.
+//
+// Besides the options passed to Marked, the "markdown" config section can contain these settings:
+//
+// - headingIdPrefix  The prefix added to the IDs of headings.  Defaults to "iceforge-".
+// - toc              The range of heading levels included in tables of contents, as { minLevel, maxLevel }.  Defaults
+//                    to all levels, from 1 to 6.
+// - use              A list of modules containing Marked extensions to use, such as "marked-footnote".  Each item is
+//                    either a module name, or an object { module, export, options, name, enabled }.  The extension is
+//                    the module's default export, or the named export; if it is a function, it is called with the options
+//                    to create the extension.  The extension's name defaults to the module's name without any "marked-"
+//                    prefix.
+// - enable           An object which turns extensions on or off by name, such as { smartypants: false }.
+//
+// Pages can also turn extensions on or off with a markdownExtensions object in their metadata.  The built-in extensions
+// are highlight, mangle, smartypants and headingId, which are used in that order, followed by the extensions listed in the
+// "use" setting and those registered by plugins with env.registerMarkdownExtension().  If the headingId extension is
+// turned off, pages have no table of contents.
 
 import fs from 'node:fs/promises';
+import * as path from 'node:path';
 
 import { Marked, MarkedExtension, Tokens } from 'marked';
 import { markedHighlight } from 'marked-highlight';
 import { mangle as markedMangle } from 'marked-mangle';
 import { markedSmartypants } from 'marked-smartypants';
-import { gfmHeadingId } from 'marked-gfm-heading-id';
 import hljs from 'highlight.js';
 import yaml from 'js-yaml';
 
 import ContentTree from '../core/contentTree.js';
 import ContentPlugin from '../core/contentPlugin.js';
 import { Page } from './page.js';
-import { IContentTree, FilePath, IEnvironment, Indexable } from '../core/coreTypes.js';
-import { readJson, urlResolve } from '../core/utils.js';
+import { IContentTree, FilePath, IEnvironment, Indexable, MarkdownExtensionDef, TemplateMap } from '../core/coreTypes.js';
+import { escapeXml, readJson, urlResolve } from '../core/utils.js';
+import { ExpandedMarkdown, expandShortcodes, insertShortcodeOutput } from '../core/shortcodes.js';
+import { HeadingData, headingIds } from '../core/headingIds.js';
 
 // This is a slightly fishy absolute URI test: it selects anything that looks like it could start with a scheme.
 const isAbsoluteUri = (url: string): boolean => {
     return url && !!(url.match(/^[a-zA-Z.+]+:/));
 };
 
+// Find the content tree node that a path refers to, relative to a content item.  A path beginning with / is relative to the
+// root of the content tree.
+export const findContent = (content: ContentPlugin, pathname: string): IContentTree | ContentPlugin | null => {
+    let nav: (IContentTree | ContentPlugin) = content.parent;
+    const path = pathname ? pathname.split('/') : [];
+    while (path.length && nav) {
+        const part = path.shift();
+        if (part === '') {
+            // URI begins with / - go to content root
+            while (nav.parent) {
+                nav = nav.parent;
+            }
+        }
+        else if (part === '..') {
+            nav = nav.parent;
+        } else if (nav instanceof ContentTree && ((nav as IContentTree)[part] instanceof ContentTree || (nav as IContentTree)[part] instanceof ContentPlugin)) {
+            nav = (nav as IContentTree)[part] as (IContentTree | ContentPlugin);
+        }
+    }
+    return nav;
+};
+
 // Rewrite a URL target if it is relative
-const resolveLink = (content: ContentPlugin, uri: string, baseUri: string): string => {
+export const resolveLink = (content: ContentPlugin, uri: string, baseUri: string): string => {
 
     if (isAbsoluteUri(uri)) {
         // Absolute URI - trust the user.
@@ -55,25 +96,14 @@ const resolveLink = (content: ContentPlugin, uri: string, baseUri: string): stri
         pathname = pathname.substring(0, qPos);
     }
 
-    let nav: (IContentTree | ContentPlugin) = content.parent;
-    const path = pathname ? pathname.split('/') : [];
-    while (path.length && nav) {
-        const part = path.shift();
-        if (part === '') {
-            // URI begins with / - go to content root
-            while (nav.parent) {
-                nav = nav.parent;
-            }
-        }
-        else if (part === '..') {
-            nav = nav.parent;
-        } else if (nav instanceof ContentTree && ((nav as IContentTree)[part] instanceof ContentTree || (nav as IContentTree)[part] instanceof ContentPlugin)) {
-            nav = (nav as IContentTree)[part] as (IContentTree | ContentPlugin);
-        }
-    }
+    const nav = findContent(content, pathname);
     if (nav && nav instanceof ContentPlugin) {
-        return nav.url + hashPart;
+        // Resolving against the base makes the link absolute if the page is being rendered with an absolute base URL.
+        return urlResolve(baseUri, nav.url + hashPart);
     }
+    // The target is not in the content tree.  It may be generated content, so the link is resolved as a plain
+    // relative URL; links which do not resolve to anything are reported by `iceforge check`.
+    content.__env?.logger.verbose(`Link target ${uri} in ${content.filename} not found in content tree`);
     return urlResolve(baseUri, uri);
 };
 
@@ -120,44 +150,149 @@ export const imageRenderer = (content: ContentPlugin, baseUrl: string, href: str
     return out;
 };
 
-// Set up a Marked instance with our own configuration and extensions, and render the page.
-const parseMarkdown = (content: MarkdownPage, markdown: string, baseUrl: string, options: MarkedExtension) => {
+// An entry in a page's table of contents.  The text is the heading's text without any markup, and the children are the
+// entries for the headings in its section.
+export type TocEntry = {
+    level: number;
+    text: string;
+    id: string;
+    children: TocEntry[];
+}
+
+// The settings in the "markdown" config section which are not passed to Marked.
+type MarkdownSettings = {
+    headingIdPrefix?: string;
+    toc?: { minLevel?: number, maxLevel?: number };
+    use?: (string | ExtensionModule)[];
+    enable?: Record<string, boolean>;
+}
+
+// An item in the "use" setting of the "markdown" config section, which is not just a module name.
+type ExtensionModule = {
+    module: string;
+    export?: string;
+    options?: unknown;
+    name?: string;
+    enabled?: boolean;
+}
+
+const markdownSettingNames = ['headingIdPrefix', 'toc', 'use', 'enable'];
+
+// The built-in extensions, in the order they are used.
+const builtInExtensions: MarkdownExtensionDef[] = [
+    {
+        name: 'highlight',
+        extension: () => markedHighlight({ langPrefix: 'hljs language-', highlight: highlighter }),
+        enabled: true
+    },
+    { name: 'mangle', extension: () => markedMangle(), enabled: true },
+    { name: 'smartypants', extension: () => markedSmartypants(), enabled: true },
+    {
+        name: 'headingId',
+        extension: (page) => headingIds({ prefix: page.__env.config.markdown?.headingIdPrefix ?? 'iceforge-' }),
+        enabled: true
+    },
+];
+
+// Get the extensions to use for a page: the built-in extensions, or the registered extensions which replace them, followed
+// by the other registered extensions, leaving out those which are turned off in the config or the page's metadata.
+const getExtensions = (content: MarkdownPage, enable: Record<string, boolean>): MarkdownExtensionDef[] => {
+    const registered = content.__env.markdownExtensions;
+    const defs = builtInExtensions
+        .map(builtIn => registered.find(def => def.name === builtIn.name) ?? builtIn)
+        .concat(registered.filter(def => !builtInExtensions.some(builtIn => builtIn.name === def.name)));
+    const toggles = { ...enable, ...content.metadata.markdownExtensions };
+    for (const name of Object.keys(toggles)) {
+        if (!defs.some(def => def.name === name)) {
+            throw new Error(`${content.filepath.relative}: unknown Markdown extension ${name}`);
+        }
+    }
+    return defs.filter(def => toggles[def.name] ?? def.enabled);
+};
+
+// Matches the [[toc]] marker, in a paragraph of its own.
+const tocMarkerPattern = /<p>\[\[toc\]\]<\/p>\n?/gi;
+
+// Matches the headings given IDs by the heading ID extension.  The groups are the level, the ID and the heading's HTML.
+const headingPattern = /<h([1-6]) id="([^"]*)">([\s\S]*?)<\/h\1>/g;
+
+// The HTML entities Marked uses to escape text, and the characters they stand for.
+const htmlEntities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"' };
+
+// Get the text of some HTML, without its tags and with its character references decoded.
+const htmlText = (html: string): string => html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, ref: string) => {
+        if (ref[0] === '#') {
+            return String.fromCodePoint(ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.substring(2), 16) : parseInt(ref.substring(1)));
+        }
+        return htmlEntities[ref] ?? match;
+    })
+    .trim();
+
+// Find the headings with IDs in a page's HTML.  This is done on the page's output, rather than by the heading ID
+// extension, so that the table of contents also lists the headings given IDs by an extension which replaces it.
+export const extractHeadings = (html: string): HeadingData[] =>
+    [...html.matchAll(headingPattern)].map(([, level, id, text]) => ({ level: Number(level), text, raw: htmlText(text), id }));
+
+// Build a nested table of contents from the headings of a page, leaving out headings outside the range of levels.  Each
+// heading is nested under the closest preceding heading of a higher level, if any.
+export const buildToc = (headings: HeadingData[], minLevel = 1, maxLevel = 6): TocEntry[] => {
+    const toc: TocEntry[] = [];
+    const parents: TocEntry[] = [];
+    for (const heading of headings) {
+        if (heading.level < minLevel || heading.level > maxLevel) {
+            continue;
+        }
+        const entry = { level: heading.level, text: heading.raw, id: heading.id, children: [] as TocEntry[] };
+        while (parents.length && parents[parents.length - 1].level >= entry.level) {
+            parents.pop();
+        }
+        (parents.length ? parents[parents.length - 1].children : toc).push(entry);
+        parents.push(entry);
+    }
+    return toc;
+};
+
+// Render a table of contents as nested lists of links.
+export const renderToc = (toc: TocEntry[]): string => {
+    if (!toc.length) {
+        return '';
+    }
+    const items = toc.map(entry => `<li><a href="#${entry.id}">${escapeXml(entry.text)}</a>${renderToc(entry.children)}</li>`);
+    return `<ul>${items.join('')}</ul>`;
+};
+
+// The result of rendering a page's Markdown: its HTML and its table of contents.
+type ParsedMarkdown = {
+    html: string;
+    toc: TocEntry[];
+}
+
+// Set up a Marked instance with our own configuration and extensions, and render the page.  A [[toc]] marker in the page
+// is replaced with the table of contents.  If any of the extensions are asynchronous, Marked renders the page
+// asynchronously, and this function returns a promise.
+const parseMarkdown = (content: MarkdownPage, markdown: string, baseUrl: string, settings: MarkedExtension & MarkdownSettings): ParsedMarkdown | Promise<ParsedMarkdown> => {
+    const options: MarkedExtension = Object.fromEntries(Object.entries(settings).filter(([key]) => !markdownSettingNames.includes(key)));
+    const tocLevels = settings.toc ?? {};
     options.renderer = {
         link: (token: Tokens.Link): string => linkRenderer(content, baseUrl, token.href, token.title, token.text),
         image: (token: Tokens.Image): string => imageRenderer(content, baseUrl, token.href, token.title, token.text),
     };
     options.useNewRenderer = true;
 
-    const highlightRoutine = markedHighlight({
-        langPrefix: 'hljs language-',
-        highlight: highlighter
-    });
-
-    const headingIdOptions = { prefix: 'iceforge-' };
-
+    const extensions = getExtensions(content, settings.enable ?? {});
     content.parser = new Marked(
-        options, 
-        highlightRoutine, 
-        markedMangle(), 
-        markedSmartypants(), 
-        gfmHeadingId(headingIdOptions)
+        options,
+        ...extensions.map(def => typeof def.extension === 'function' ? def.extension(content) : def.extension)
     );
 
+    const finish = (html: string): ParsedMarkdown => {
+        const toc = buildToc(extractHeadings(html), tocLevels.minLevel, tocLevels.maxLevel);
+        return { html: html.replace(tocMarkerPattern, () => `<nav class="toc">${renderToc(toc)}</nav>\n`), toc };
+    };
     const result = content.parser.parse(markdown);
-    if (typeof result === 'string') {
-        return result;
-    }
-
-    let finalResult = '';
-    (async () => {
-        await new Promise<void>((resolve) => {
-            result.then(r => {
-                finalResult = r;
-                resolve();
-            });
-        });
-    })();
-    return finalResult;
+    return typeof result === 'string' ? finish(result) : result.then(finish);
 };
 
 // Take the frontmatter part of the page, and parse it as YAML.
@@ -226,12 +361,20 @@ export class MarkdownPage extends Page {
 
     htmlCache: Record<string, string>;
 
+    // The page's table of contents, set when its HTML is rendered.
+    tocCache: TocEntry[] | null;
+
     parser: Marked;
 
+    // The page's Markdown with its shortcodes expanded, set by prepare().
+    expandedMarkdown: ExpandedMarkdown | null;
+
     constructor(filepath: FilePath, metadata: Indexable, markdown: string) {
         super(filepath, metadata);
         this.markdown = markdown;
         this.htmlCache = {};
+        this.tocCache = null;
+        this.expandedMarkdown = null;
     }
 
     get name() {
@@ -244,15 +387,61 @@ export class MarkdownPage extends Page {
         return uri.substring(0, finalSlashIdx);
     }
 
+    // Expand the page's shortcodes, which may need to render templates or read other files, and render the page's HTML,
+    // which may use asynchronous Markdown extensions.  Once this is done, templates can use the page's html, intro and
+    // toc properties, even if the page itself is not being rendered.
+    async prepare(contents: IContentTree, templates: TemplateMap): Promise<void> {
+        try {
+            this.expandedMarkdown = await expandShortcodes(this.__env, this, this.markdown, contents, templates);
+        } catch (error) {
+            error.message = `${this.filepath.relative}: ${error.message}`;
+            throw error;
+        }
+        this.htmlCache = {};
+        this.tocCache = null;
+        await this.renderHtml();
+    }
+
+    // Render the page's Markdown and cache the HTML, with any shortcode output inserted.  If the page has not been
+    // prepared, its shortcodes are left unexpanded.  Returns a promise if Marked renders the page asynchronously.
+    renderMarkdown(base: string): string | Promise<string> {
+        const options = this.__env.config.markdown || {};
+        const store = ({ html, toc }: ParsedMarkdown): string => {
+            this.htmlCache[base] = this.expandedMarkdown ? insertShortcodeOutput(html, this.expandedMarkdown.outputs) : html;
+            this.tocCache = toc;
+            return this.htmlCache[base];
+        };
+        const parsed = parseMarkdown(this, this.expandedMarkdown?.markdown ?? this.markdown, this.getLocation(base), options);
+        return parsed instanceof Promise ? parsed.then(store) : store(parsed);
+    }
+
+    // Render the page's HTML, waiting for any asynchronous Markdown extensions to finish.
+    async renderHtml(base: string = this.__env.config.baseUrl): Promise<string> {
+        return this.htmlCache[base] ?? await this.renderMarkdown(base);
+    }
+
+    // Get the page's HTML.  If it has not already been rendered for this base URL by renderHtml(), it is rendered
+    // synchronously, which is not possible if any of the page's Markdown extensions are asynchronous.
     getHtml(base: string = this.__env.config.baseUrl): string {
-        if (!this.htmlCache[base]) {
-            const options = this.__env.config.markdown || {};
-            this.htmlCache[base] = parseMarkdown(this, this.markdown, this.getLocation(base), options);
+        if (this.htmlCache[base] === undefined) {
+            const html = this.renderMarkdown(base);
+            if (typeof html !== 'string') {
+                html.catch((): void => undefined);
+                throw new Error(`${this.filepath.relative}: the page uses asynchronous Markdown extensions, so its HTML must be rendered with renderHtml() before it is used`);
+            }
         }
 
         return this.htmlCache[base];
     }
 
+    // The page's table of contents: a nested list of its headings, each with its level, text and ID.
+    get toc(): TocEntry[] {
+        if (!this.tocCache) {
+            this.getHtml();
+        }
+        return this.tocCache;
+    }
+
     static async fromFile(filepath: FilePath): Promise<MarkdownPage> {
         const buffer = await fs.readFile(filepath.full);
         const fileContent = splitContent(buffer.toString());
@@ -276,10 +465,36 @@ export class JsonPage extends MarkdownPage {
     }
 }
 
-// Register the Markdown and JSON plugins.
+// Get the default name of an extension loaded from a module: the module's name without any "marked-" prefix or file
+// extension.
+const extensionName = (module: string): string =>
+    path.basename(module, path.extname(module)).replace(/^marked-/, '');
+
+// Load and register the extensions listed in the "use" setting of the "markdown" config section.
+const loadExtensionModules = async (env: IEnvironment, modules: (string | ExtensionModule)[]): Promise<void> => {
+    for (const item of modules) {
+        const { module, export: exportName = 'default', options, name = extensionName(module), enabled = true } = typeof item === 'string' ? { module: item } as ExtensionModule : item;
+        let exported;
+        try {
+            exported = (await env.loadModule(module))[exportName];
+        } catch (error) {
+            error.message = `Error loading Markdown extension '${module}': ${error.message}`;
+            throw error;
+        }
+        if (!exported) {
+            throw new Error(`Error loading Markdown extension '${module}': the module has no export named ${exportName}`);
+        }
+        env.registerMarkdownExtension(name, typeof exported === 'function' ? () => exported(options) : exported, enabled);
+    }
+};
+
+// Register the Markdown and JSON plugins.  Most of the "markdown" config section is passed to Marked as its options, so
+// only its type is checked.
 const registerPlugins = async (env: IEnvironment): Promise<void> => {
+    env.registerConfigSchema('markdown', { type: 'object' });
     env.registerContentPlugin('pages', '**/*.*(markdown|mkd|md)', MarkdownPage);
     env.registerContentPlugin('pages', '**/*.json', JsonPage);
+    await loadExtensionModules(env, env.config.markdown?.use ?? []);
 };
 
 export default registerPlugins;
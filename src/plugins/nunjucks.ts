@@ -0,0 +1,73 @@
+import nunjucks from 'nunjucks';
+import fs from 'node:fs/promises';
+
+import TemplatePlugin from '../core/templatePlugin.js';
+import { FilePath, IEnvironment, LocalMap } from '../core/coreTypes.js';
+
+let environment: IEnvironment;
+
+// The Nunjucks environment shared by all Nunjucks templates.  It is created when the first template is loaded, after all
+// the plugins have had a chance to register filters, and is discarded when the plugin is registered again.
+let nunjucksEnvironment: nunjucks.Environment = null;
+
+// Get the shared Nunjucks environment, creating it if necessary.  Templates named in extends, include and import tags are
+// loaded from the templates directory.  In preview and watch modes, they are not cached, so that changes to them are
+// picked up when the templates are reloaded.
+const getNunjucksEnvironment = (): nunjucks.Environment => {
+    if (!nunjucksEnvironment) {
+        const loader = new nunjucks.FileSystemLoader(environment.templatesPath, { noCache: environment.mode === 'preview' || environment.mode === 'watch' });
+        nunjucksEnvironment = new nunjucks.Environment(loader, environment.config.nunjucks || {});
+        for (const def of Object.values(environment.nunjucksFilters)) {
+            nunjucksEnvironment.addFilter(def.name, def.filter, def.async);
+        }
+    }
+    return nunjucksEnvironment;
+};
+
+// Concrete template plugin for rendering templates written in Nunjucks - see https://mozilla.github.io/nunjucks
+// Like the Pug plugin, this compiles each template when it is loaded.  Rendering uses Nunjucks' callback API, so that
+// templates can use asynchronous filters.  Nunjucks templates can include or extend templates named by variables, so
+// their dependencies are not known.
+export class NunjucksTemplate extends TemplatePlugin {
+
+    get name() {
+        return 'nunjucks';
+    }
+
+    template: nunjucks.Template;
+
+    constructor(template: nunjucks.Template) {
+        super();
+        this.template = template;
+    }
+
+    render(locals: LocalMap): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            this.template.render(locals, (error, result) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(Buffer.from(result ?? ''));
+                }
+            });
+        });
+    }
+
+    // Read the template file, compile it, and create a new plugin instance that uses the compiled template for rendering.
+    static async fromFile(filepath: FilePath) {
+        const buffer = await fs.readFile(filepath.full);
+        const template = new nunjucks.Template(buffer.toString(), getNunjucksEnvironment(), filepath.full, true);
+        return new NunjucksTemplate(template);
+    }
+}
+
+// The Nunjucks template module registers the Nunjucks template plugin, and the schema of the "nunjucks" config section.
+// That section is passed to the Nunjucks environment as its options, so only its type is checked.
+const registerPlugin = async (env: IEnvironment) => {
+    environment = env;
+    nunjucksEnvironment = null;
+    env.registerConfigSchema('nunjucks', { type: 'object' });
+    env.registerTemplatePlugin('**/*.njk', NunjucksTemplate);
+};
+
+export default registerPlugin;
@@ -13,7 +13,8 @@ const replaceAll = (str: string, map: StringMap) => {
 
 // A ContentPage implementation that contains a lot of useful boilerplate functions, but is still essentially an abstract class.
 // This class is an ancester of all of the content plugins shipped with Iceforge aside from the fallback static file plugin.
-// Concrete implementations of this class must override the getHtml() function.
+// Concrete implementations of this class must override the getHtml() function, and may also override renderHtml() if their
+// HTML can be rendered asynchronously.
 //
 // The boilerplate functions in this class expect all pages to have a template metadata property, and/or a view metadata property.  The latter
 // specifies that the page should be rendered with a non-default named view function loaded from a plugin.  The former specifies the template name
@@ -81,6 +82,12 @@ export class Page extends ContentPlugin {
         throw new Error('Not implemented');
     }
 
+    // Override this function when subclassing this class if the page's HTML can be rendered asynchronously.  It must return
+    // a promise of the rendered page, and cache the result so that getHtml() can return it synchronously.
+    async renderHtml(base: string = this.__env.config.baseUrl): Promise<string> {
+        return this.getHtml(base);
+    }
+
     get html() { return this.getHtml(); }
 
     // If the page is split into an intro and main text, this function will pull out the (rendered) intro.  If not, it returns the fullly rendered page.
@@ -148,6 +155,11 @@ export const templateView = async (env: IEnvironment, locals: LocalMap, contentT
         throw new Error(`Page '${page.filename}' specifies unknown template '${page.template}`);
     }
 
+    // Pages which render their HTML asynchronously finish doing so before the template uses it.
+    if (page.renderHtml !== Page.prototype.renderHtml) {
+        await page.renderHtml();
+    }
+
     const ctx = { page: page, ...locals };
     return await template.render(ctx);
 };
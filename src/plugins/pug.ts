@@ -12,7 +12,8 @@ let environment: IEnvironment;
 //
 // This plugin compiles the Pug code on template load, and its render function is a wrapper around
 // the compiled template, meaning compilation only happens once=per=template during build, or when the preview
-// server is started.
+// server is started.  The compiled template lists the files it includes or extends, which become the plugin's
+// dependencies.
 export class PugTemplate extends TemplatePlugin {
     
     get name() {
@@ -37,13 +38,18 @@ export class PugTemplate extends TemplatePlugin {
         const config = environment.config.pug || {};
         config.filename = filepath.full;
         const templateFn = pug.compile(buffer.toString(), config);
-        return new PugTemplate(templateFn);
+        const plugin = new PugTemplate(templateFn);
+        // The dependencies property of compiled templates is missing from Pug's type definitions.
+        plugin.dependencies = (templateFn as pug.compileTemplate & { dependencies?: string[] }).dependencies ?? null;
+        return plugin;
     }
 }
 
-// The Pug template module only registers the Pug template plugin.
+// The Pug template module registers the Pug template plugin, and the schema of the "pug" config section.  That section is
+// passed to the Pug compiler as its options, so only its type is checked.
 const registerPlugin = async (env: IEnvironment) => {
     environment = env;
+    env.registerConfigSchema('pug', { type: 'object' });
     env.registerTemplatePlugin('**/*.*(pug|jade)', PugTemplate);
 };
 
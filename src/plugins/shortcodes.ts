@@ -0,0 +1,85 @@
+import fs from 'node:fs/promises';
+
+import ContentPlugin from '../core/contentPlugin.js';
+import { IEnvironment } from '../core/coreTypes.js';
+import { ShortcodeContext } from '../core/shortcodes.js';
+import { escapeXml } from '../core/utils.js';
+import { MarkdownPage, findContent, resolveLink } from './markdown.js';
+
+// The built-in shortcodes for Markdown pages.  Each can be replaced by registering a shortcode of the same name.
+//
+// - {{< figure src="image.jpg" alt="..." caption="..." >}} inserts an image in a figure, with an optional caption.  The
+//   optional title and class arguments set the image title and the figure class.
+// - {{< youtube id >}} inserts a placeholder for a YouTube video: its thumbnail, linked to the video on YouTube.  The
+//   optional title argument sets the link title and the thumbnail's alt text.
+// - {{% callout type="warning" title="..." %}}Markdown{{% /callout %}} wraps its content in a <div> with the classes
+//   "callout" and "callout-<type>".  The type defaults to "note".
+// - {{% include "file.md" %}} inserts the Markdown of another content file, without its front matter.  The path is
+//   relative to the page, or to the contents directory if it starts with /.  Files which are not Markdown pages are
+//   inserted unchanged, so {{< include "snippet.html" >}} inserts an HTML file.
+
+// Get a required argument of a shortcode, by name or by position.
+const requiredArg = (context: ShortcodeContext, name: string, position = '0'): string => {
+    const value = context.args[name] ?? context.args[position];
+    if (!value) {
+        throw new Error(`Shortcode ${context.name} requires a ${name} argument`);
+    }
+    return value;
+};
+
+// Build an attribute string from a map of attribute names to values, leaving out unset values.
+const attributes = (attrs: Record<string, string>): string =>
+    Object.entries(attrs)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+        .join('');
+
+// Resolve a URL in a shortcode argument in the same way as links in Markdown pages.
+const resolveUrl = (page: ContentPlugin, url: string): string =>
+    page instanceof MarkdownPage ? resolveLink(page, url, page.getLocation()) : url;
+
+export const figure = (env: IEnvironment, context: ShortcodeContext): string => {
+    const { alt, caption, title } = context.args;
+    const src = resolveUrl(context.page, requiredArg(context, 'src'));
+    const figcaption = caption ? `<figcaption>${escapeXml(caption)}</figcaption>` : '';
+    return `<figure${attributes({ class: context.args.class })}><img${attributes({ src, alt: alt ?? '', title })}/>${figcaption}</figure>`;
+};
+
+export const youtube = (env: IEnvironment, context: ShortcodeContext): string => {
+    const id = requiredArg(context, 'id');
+    if (!/^[\w-]+$/.test(id)) {
+        throw new Error(`Invalid YouTube video ID ${id}`);
+    }
+    const title = context.args.title ?? 'YouTube video';
+    const link = attributes({ class: 'youtube', href: `https://www.youtube.com/watch?v=${id}`, title });
+    const thumbnail = attributes({ src: `https://i.ytimg.com/vi/${id}/hqdefault.jpg`, alt: title, loading: 'lazy' });
+    return `<a${link}><img${thumbnail}/></a>`;
+};
+
+export const callout = (env: IEnvironment, context: ShortcodeContext): string => {
+    const type = context.args.type ?? context.args['0'] ?? 'note';
+    const title = context.args.title ? `<p class="callout-title">${escapeXml(context.args.title)}</p>\n` : '';
+    return `<div class="callout callout-${escapeXml(type)}">\n${title}\n${context.inner ?? ''}\n\n</div>`;
+};
+
+export const include = async (env: IEnvironment, context: ShortcodeContext): Promise<string> => {
+    const file = requiredArg(context, 'file');
+    const target = findContent(context.page, file);
+    if (!(target instanceof ContentPlugin)) {
+        throw new Error(`Included file ${file} not found`);
+    }
+    if (target instanceof MarkdownPage) {
+        return target.markdown;
+    }
+    return (await fs.readFile(target.__filename)).toString();
+};
+
+// Register the built-in shortcodes.
+const registerPlugin = async (env: IEnvironment): Promise<void> => {
+    env.registerShortcode('figure', figure);
+    env.registerShortcode('youtube', youtube);
+    env.registerShortcode('callout', callout);
+    env.registerShortcode('include', include);
+};
+
+export default registerPlugin;
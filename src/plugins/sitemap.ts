@@ -0,0 +1,236 @@
+import fs from 'node:fs/promises';
+
+import mime from 'mime';
+
+import ContentPlugin from '../core/contentPlugin.js';
+import ContentTree from '../core/contentTree.js';
+import { ConfigSchemaEntry } from '../core/configSchema.js';
+import { IContentTree, IEnvironment, Indexable, RenderedData } from '../core/coreTypes.js';
+import { findNotFoundPage } from '../core/errorPages.js';
+import { escapeXml } from '../core/utils.js';
+import { Page } from './page.js';
+
+// Generates a sitemap (see https://www.sitemaps.org/) listing every HTML page in the site, including pages created by
+// other generators.  Sitemaps need absolute URLs, so nothing is generated unless config.absoluteBaseUrl is set.
+//
+// Pages can opt out of the sitemap by setting "sitemap: false" in their metadata, or can set their priority and change
+// frequency with "sitemap: { priority: 0.8, changefreq: weekly }".  The site's not found page is always left out.  The lastmod date of a page is its date metadata if
+// it has any, or otherwise the modification time of its source file.
+//
+// Sites with more than maxUrls pages get a sitemap index, which links to a set of sitemap files each containing up to
+// maxUrls pages.  The generator runs after the other generators, so the number of sitemap files is decided from the
+// full content tree, including the pages they add.
+
+// The XML namespace of sitemap and sitemap index files.
+const sitemapNamespace = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+
+// The maximum number of URLs allowed in one sitemap file by the sitemap protocol.
+const protocolMaxUrls = 50000;
+
+// Default plugin settings.  All of these can be overridden by putting a "sitemap": { ... } object in the config file,
+// or the plugin can be disabled by setting "sitemap" to false.  In the chunkFilename setting, %d is replaced by the
+// number of the sitemap file.
+const defaults = {
+    filename: 'sitemap.xml',
+    chunkFilename: 'sitemap-%d.xml',
+    maxUrls: protocolMaxUrls,
+};
+
+type SitemapOptions = typeof defaults;
+
+// The schema of the "sitemap" config section.
+const configSchema: ConfigSchemaEntry = {
+    type: ['object', 'boolean'],
+    properties: {
+        filename: { type: 'string' },
+        chunkFilename: { type: 'string' },
+        maxUrls: { type: 'number' },
+    },
+};
+
+// The information about a page which goes into the sitemap.
+type SitemapEntry = {
+    loc: string;
+    lastmod: Date | null;
+    changefreq?: string;
+    priority?: number;
+}
+
+// Get the sitemap settings from a content item's metadata, or false if the item should not be in the sitemap.
+const itemSettings = (content: ContentPlugin): Indexable | false => {
+    if (content instanceof SitemapFile || mime.getType(content.filename) !== 'text/html') {
+        return false;
+    }
+    // Pages rendered by the default view with no template produce no output.  Generated pages derived from Page may
+    // have no metadata, and usually have their own view.
+    const metadata = (content as unknown as Indexable).metadata;
+    if (content instanceof Page && metadata && !metadata.view && content.template === 'none') {
+        return false;
+    }
+    const setting = metadata?.sitemap;
+    if (setting === false) {
+        return false;
+    }
+    return typeof setting === 'object' && setting !== null ? setting : {};
+};
+
+// Get the content items in a tree which will appear in the sitemap, with their settings.  The not found page is left
+// out, as it is not a page which search engines should index.
+const sitemapItems = (env: IEnvironment, contents: IContentTree): { content: ContentPlugin, settings: Indexable }[] => {
+    const notFound = findNotFoundPage(env, contents);
+    const items = [];
+    for (const content of ContentTree.flatten(contents)) {
+        const settings = content === notFound ? false : itemSettings(content);
+        if (settings !== false) {
+            items.push({ content, settings });
+        }
+    }
+    return items;
+};
+
+// Count the distinct URLs in a tree which will appear in the sitemap.
+const countPages = (env: IEnvironment, contents: IContentTree): number =>
+    new Set(sitemapItems(env, contents).map(item => item.content.url)).size;
+
+// Work out the lastmod date of a content item.
+const lastModified = async (content: ContentPlugin): Promise<Date | null> => {
+    if (content instanceof Page && content.metadata?.date) {
+        return content.date;
+    }
+    if (content.__filename && content.__filename !== 'generator') {
+        try {
+            return (await fs.stat(content.__filename)).mtime;
+        } catch {
+            return null;
+        }
+    }
+    return null;
+};
+
+// Format a date as a W3C datetime, as required by the sitemap protocol.
+const formatDate = (date: Date): string => isNaN(date.getTime()) ? null : date.toISOString();
+
+const renderUrl = (entry: SitemapEntry): string => {
+    const lines = [`    <loc>${escapeXml(entry.loc)}</loc>`];
+    const lastmod = entry.lastmod ? formatDate(entry.lastmod) : null;
+    if (lastmod) {
+        lines.push(`    <lastmod>${lastmod}</lastmod>`);
+    }
+    if (entry.changefreq) {
+        lines.push(`    <changefreq>${escapeXml(entry.changefreq)}</changefreq>`);
+    }
+    if (typeof entry.priority !== 'undefined') {
+        lines.push(`    <priority>${Number(entry.priority).toFixed(1)}</priority>`);
+    }
+    return `  <url>\n${lines.join('\n')}\n  </url>`;
+};
+
+// A content plugin for a sitemap file.  If chunkCount is 1, the file is a sitemap listing every page in the site.  If
+// it is more than 1, chunk 0 is a sitemap index, and chunks 1 to chunkCount are sitemaps each listing part of the site.
+export class SitemapFile extends ContentPlugin {
+
+    options: SitemapOptions;
+
+    chunk: number;
+
+    chunkCount: number;
+
+    constructor(options: SitemapOptions, chunk: number, chunkCount: number) {
+        super();
+        this.options = options;
+        this.chunk = chunk;
+        this.chunkCount = chunkCount;
+    }
+
+    get name() {
+        return 'SitemapFile';
+    }
+
+    get filename() {
+        return this.chunk === 0 ? this.options.filename : this.options.chunkFilename.replace('%d', this.chunk.toString());
+    }
+
+    get pluginColour() {
+        return 'none';
+    }
+
+    // Convert a URL in the site to an absolute URL.
+    absoluteUrl(url: string): string {
+        return new URL(url, this.__env.config.absoluteBaseUrl).toString();
+    }
+
+    // Build the list of sitemap entries for every page in the full content tree, in URL order.  Generators can put the
+    // same page into the tree more than once, so each URL is only listed once.
+    async getEntries(contents: IContentTree): Promise<SitemapEntry[]> {
+        const entries: SitemapEntry[] = [];
+        const seen = new Set<string>();
+        for (const { content, settings } of sitemapItems(this.__env, contents)) {
+            const loc = this.absoluteUrl(content.url);
+            if (seen.has(loc)) {
+                continue;
+            }
+            seen.add(loc);
+            entries.push({
+                loc,
+                lastmod: await lastModified(content),
+                changefreq: settings.changefreq,
+                priority: settings.priority,
+            });
+        }
+        entries.sort((a, b) => a.loc.localeCompare(b.loc));
+        return entries;
+    }
+
+    get view() {
+        return async (env: IEnvironment, locals: Indexable, contents: IContentTree): Promise<RenderedData> => {
+            const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+            if (this.chunkCount > 1 && this.chunk === 0) {
+                lines.push(`<sitemapindex xmlns="${sitemapNamespace}">`);
+                for (let i = 1; i <= this.chunkCount; ++i) {
+                    const loc = this.absoluteUrl(new SitemapFile(this.options, i, this.chunkCount).getUrl(env.config.baseUrl));
+                    lines.push(`  <sitemap>\n    <loc>${escapeXml(loc)}</loc>\n  </sitemap>`);
+                }
+                lines.push('</sitemapindex>');
+            } else {
+                let entries = await this.getEntries(contents);
+                if (this.chunkCount > 1) {
+                    const start = (this.chunk - 1) * this.options.maxUrls;
+                    entries = this.chunk < this.chunkCount ? entries.slice(start, start + this.options.maxUrls) : entries.slice(start);
+                }
+                if (entries.length > protocolMaxUrls) {
+                    env.logger.warn(`Sitemap file ${this.filename} contains ${entries.length} URLs, more than the ${protocolMaxUrls} allowed`);
+                }
+                lines.push(`<urlset xmlns="${sitemapNamespace}">`);
+                lines.push(...entries.map(renderUrl));
+                lines.push('</urlset>');
+            }
+            return Buffer.from(lines.join('\n') + '\n');
+        };
+    }
+}
+
+// Register the sitemap generator.
+const registerPlugin = async (env: IEnvironment): Promise<void> => {
+    env.registerConfigSchema('sitemap', configSchema);
+    env.registerGenerator('sitemap', async (contents: IContentTree) => {
+        if (env.config.sitemap === false) {
+            return {};
+        }
+        if (!env.config.absoluteBaseUrl) {
+            env.logger.verbose('Not generating a sitemap because absoluteBaseUrl is not set');
+            return {};
+        }
+        const options: SitemapOptions = { ...defaults, ...env.config.sitemap };
+        const chunkCount = Math.max(1, Math.ceil(countPages(env, contents) / options.maxUrls));
+        const tree: Indexable = { [options.filename]: new SitemapFile(options, 0, chunkCount) };
+        if (chunkCount > 1) {
+            for (let i = 1; i <= chunkCount; ++i) {
+                const chunk = new SitemapFile(options, i, chunkCount);
+                tree[chunk.filename] = chunk;
+            }
+        }
+        return tree as IContentTree;
+    }, { runLast: true });
+};
+
+export default registerPlugin;